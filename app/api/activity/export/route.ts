@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMetaGoalsCollection } from "../../../../lib/database";
+import { createExportWriter, ExportFormatError, streamExport } from "../../../../lib/export";
+import { authorizeMetaGoalAccess } from "../../../../lib/goal-access";
+import { ActivityQueryError } from "../../../../lib/services/activity.service";
+import { ExportService, type ExportBlockRange } from "../../../../lib/services/export.service";
+import { createProvider } from "../../../../lib/utils";
+import { RequestValidator } from "../../../../lib/validators/request.validator";
+import type { ActivityExportMeta, ActivityExportRow, ErrorResponse } from "../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+function parseDateParam(value: string | null, label: string): { value?: Date; error?: string } {
+  if (!value) {
+    return {};
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return { error: `Invalid ${label} parameter. Must be an ISO 8601 date.` };
+  }
+  return { value: parsed };
+}
+
+async function* noRows(): AsyncGenerator<ActivityExportRow> {}
+
+/**
+ * Export a user's activity (?userAddress=) or a group goal's (?metaGoalId=,
+ * with userAddress for private goals) as csv, ofx or json (?format=, default
+ * csv) over an optional from/to date range. The file is streamed.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userAddress = searchParams.get("userAddress");
+    const metaGoalId = searchParams.get("metaGoalId");
+
+    const writer = createExportWriter(searchParams.get("format") || "csv");
+
+    const from = parseDateParam(searchParams.get("from"), "from");
+    const to = parseDateParam(searchParams.get("to"), "to");
+    const error = from.error || to.error;
+    if (error) {
+      return NextResponse.json<ErrorResponse>({ error }, { status: 400 });
+    }
+    if (from.value && to.value && from.value > to.value) {
+      return NextResponse.json<ErrorResponse>({ error: "from must be before to" }, { status: 400 });
+    }
+
+    const generatedAt = new Date().toISOString();
+    const period = { from: from.value?.toISOString() ?? null, to: to.value?.toISOString() ?? generatedAt, generatedAt };
+    const exportService = new ExportService(createProvider());
+    let meta: ActivityExportMeta;
+    let loadRows: (range: ExportBlockRange) => AsyncGenerator<ActivityExportRow>;
+
+    if (metaGoalId) {
+      const collection = await getMetaGoalsCollection();
+      const metaGoal = await collection.findOne({ metaGoalId });
+      if (!metaGoal) {
+        return NextResponse.json<ErrorResponse>({ error: "Meta-goal not found" }, { status: 404 });
+      }
+      const denied = await authorizeMetaGoalAccess(metaGoal, userAddress, searchParams.get("invitedBy"));
+      if (denied) {
+        return NextResponse.json<ErrorResponse>({ error: denied.error }, { status: denied.status });
+      }
+      meta = { scope: "metaGoal", metaGoalId, name: metaGoal.name, ...period };
+      loadRows = (range) => exportService.metaGoalRows(metaGoal, range);
+    } else {
+      const validation = RequestValidator.validateUserAddress(userAddress);
+      if (!validation.valid) {
+        return NextResponse.json<ErrorResponse>({ error: validation.error! }, { status: 400 });
+      }
+      meta = { scope: "user", userAddress: userAddress!.toLowerCase(), ...period };
+      loadRows = (range) => exportService.userRows(userAddress!, range);
+    }
+
+    const range = await exportService.resolveBlockRange(from.value, to.value);
+    const body = await streamExport(writer, meta, range ? loadRows(range) : noRows());
+
+    const filename = `activity-${metaGoalId || userAddress!.toLowerCase()}-${generatedAt.slice(0, 10)}.${writer.extension}`;
+    return new Response(body, {
+      headers: {
+        "Content-Type": writer.contentType,
+        "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.-]/g, "_")}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ExportFormatError || error instanceof ActivityQueryError) {
+      return NextResponse.json<ErrorResponse>({ error: error.message }, { status: 400 });
+    }
+    console.error("Activity export error:", error);
+    return NextResponse.json<ErrorResponse>(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
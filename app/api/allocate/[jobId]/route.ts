@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AllocationLedgerService } from "../../../../lib/services/allocation-ledger.service";
+import type { AllocationJobResponse, ErrorResponse } from "../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+): Promise<NextResponse<AllocationJobResponse | ErrorResponse>> {
+  try {
+    const job = await new AllocationLedgerService().get(params.jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Allocation job not found" }, { status: 404 });
+    }
+    return NextResponse.json(AllocationLedgerService.toJobResponse(job));
+  } catch (error) {
+    console.error("Allocation job lookup error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AllocationBatchService } from "../../../../../lib/services/allocation-batch.service";
+import type { AllocationBatchReport, ErrorResponse } from "../../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { batchId: string } }
+): Promise<NextResponse<AllocationBatchReport | ErrorResponse>> {
+  try {
+    const report = await new AllocationBatchService().getReport(params.batchId);
+    if (!report) {
+      return NextResponse.json({ error: "Allocation batch not found" }, { status: 404 });
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Allocation batch lookup error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
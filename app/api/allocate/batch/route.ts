@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseCsv } from "../../../../lib/csv";
+import {
+  OnrampPayloadError,
+  OnrampSignatureError,
+  verifyOnrampBatch,
+  type OnrampProviderAdapter,
+} from "../../../../lib/onramp";
+import {
+  AllocationBatchService,
+  MAX_BATCH_ITEMS,
+  type AllocationBatchInputItem,
+} from "../../../../lib/services/allocation-batch.service";
+import { AllocationLedgerService } from "../../../../lib/services/allocation-ledger.service";
+import { AllocationWorkerService } from "../../../../lib/services/allocation-worker.service";
+import type { AllocationBatch, AllocationBatchReport, ErrorResponse } from "../../../../lib/types";
+import { logger } from "../../../../lib/logger";
+
+/**
+ * Submit a provider settlement batch, either as JSON ({ providerId?, items }
+ * or a bare array of allocate requests) or as a CSV file (text/csv body or a
+ * multipart "file" field). The provider signature covers the raw JSON body or
+ * the CSV file. Returns a per-item report; accepted items are processed as
+ * allocation jobs and can be followed at /api/allocate/batch/{batchId}.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<AllocationBatchReport | ErrorResponse>> {
+  const ledger = new AllocationLedgerService();
+
+  try {
+    const contentType = request.headers.get("content-type") || "";
+    let providerId = new URL(request.url).searchParams.get("providerId") || undefined;
+    let format: AllocationBatch["format"];
+    let rawBody: string;
+
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      if (!file || typeof file === "string") {
+        return NextResponse.json({ error: "Missing settlement file in form field 'file'" }, { status: 400 });
+      }
+      rawBody = await file.text();
+      providerId = (formData.get("providerId") as string | null) || providerId;
+      format = "csv";
+    } else {
+      rawBody = await request.text();
+      format = contentType.includes("text/csv") ? "csv" : "json";
+    }
+
+    let items: AllocationBatchInputItem[];
+    if (format === "csv") {
+      items = parseCsv(rawBody).map(AllocationBatchService.fromCsvRow);
+    } else {
+      let body: unknown;
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+      }
+      const envelope = Array.isArray(body) ? { items: body } : (body as { providerId?: string; items?: unknown });
+      if (!envelope || !Array.isArray(envelope.items)) {
+        return NextResponse.json({ error: "Missing required field: items (array)" }, { status: 400 });
+      }
+      items = envelope.items;
+      providerId = envelope.providerId || providerId;
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: "Batch contains no items" }, { status: 400 });
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      return NextResponse.json(
+        { error: `Batch too large. At most ${MAX_BATCH_ITEMS} items per request` },
+        { status: 400 }
+      );
+    }
+
+    let adapter: OnrampProviderAdapter;
+    try {
+      adapter = verifyOnrampBatch({
+        providerId,
+        rawBody,
+        signature: request.headers.get("x-onramp-signature"),
+      });
+    } catch (error) {
+      if (error instanceof OnrampSignatureError) {
+        logger.error("❌ Settlement batch signature rejected", { providerId, error: error.message });
+        return NextResponse.json({ error: error.message }, { status: 401 });
+      }
+      if (error instanceof OnrampPayloadError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const batches = new AllocationBatchService(ledger);
+    const { batch, runnable } = await batches.create({ adapter, format, items });
+    const report = await batches.toReport(batch);
+
+    // ALLOCATION_WORKER=external leaves the jobs to scripts/allocation-worker.ts,
+    // which processes them one by one instead of grouped
+    if (runnable.length > 0 && process.env.ALLOCATION_WORKER !== "external") {
+      void new AllocationWorkerService(ledger).processBatch(runnable, batch.batchId).catch((error) =>
+        logger.error("Allocation batch worker crashed", {
+          batchId: batch.batchId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+
+    logger.info("📥 Settlement batch accepted", {
+      batchId: batch.batchId,
+      providerId: batch.providerId,
+      format,
+      counts: report.counts,
+    });
+    return NextResponse.json(report, {
+      status: report.counts.accepted > 0 ? 202 : 400,
+      headers: { Location: `/api/allocate/batch/${batch.batchId}` },
+    });
+  } catch (error) {
+    logger.error("❌ Settlement batch error", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle unsupported methods
+export async function GET(): Promise<NextResponse<ErrorResponse>> {
+  return NextResponse.json(
+    { error: "Method not allowed. Use POST." },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { VAULTS } from "../../../../lib/constants";
+import { isValidAddress } from "../../../../lib/utils";
+import type {
+  AllocationPreviewResponse,
+  ErrorResponse,
+  VaultAsset,
+} from "../../../../lib/types";
+import {
+  AllocationService,
+  AllocationValidationError,
+  type AllocationMode,
+} from "../../../../lib/services/allocation.service";
+import { logger } from "../../../../lib/logger";
+
+interface AllocationPreviewRequest {
+  asset?: string;
+  tokenSymbol?: string;
+  userAddress: string;
+  amount: string;
+  targetGoalId?: string;
+  metaGoalId?: string;
+  mode?: AllocationMode;
+  txHash?: string;
+}
+
+/**
+ * Dry run of an allocation: resolves the goal the deposit would be routed to
+ * and estimates gas for each transaction the allocation would send. Nothing is
+ * written on-chain or to the allocation ledger.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<AllocationPreviewResponse | (ErrorResponse & Record<string, string>)>> {
+  try {
+    const body: AllocationPreviewRequest = await request.json();
+    const { tokenSymbol, userAddress, amount, targetGoalId, metaGoalId, txHash } = body;
+    const asset = body.asset || tokenSymbol;
+    const mode = body.mode ?? "onramp";
+    logger.debug("🔮 Allocation preview request", { body });
+
+    if (!asset || !userAddress || !amount) {
+      return NextResponse.json(
+        { error: "Missing required fields: asset/tokenSymbol, userAddress, amount" },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== "onramp" && mode !== "direct") {
+      return NextResponse.json(
+        { error: "Invalid mode. Must be 'onramp' or 'direct'" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+
+    if (txHash !== undefined && !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return NextResponse.json({ error: "Invalid txHash format" }, { status: 400 });
+    }
+
+    const normalizedAmount = String(amount).trim();
+    if (!/^\d+$/.test(normalizedAmount)) {
+      return NextResponse.json(
+        { error: "Invalid amount. Must be a raw integer string (e.g., '1000000'), no decimals or formatting allowed" },
+        { status: 400 }
+      );
+    }
+
+    if (!VAULTS[asset as VaultAsset]) {
+      return NextResponse.json(
+        { error: `Invalid asset. Supported assets: ${Object.keys(VAULTS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const preview = await new AllocationService(mode).preview({
+      asset: asset as VaultAsset,
+      userAddress,
+      amount: normalizedAmount,
+      targetGoalId,
+      metaGoalId,
+      txHash,
+    });
+
+    logger.info("🔮 Allocation preview", {
+      mode,
+      userAddress,
+      goal: preview.goal,
+      estimatedGas: preview.estimatedGas,
+    });
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof AllocationValidationError) {
+      return NextResponse.json({ error: error.message, ...error.details }, { status: 400 });
+    }
+    logger.error("❌ Allocation preview error", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle unsupported methods
+export async function GET(): Promise<NextResponse<ErrorResponse>> {
+  return NextResponse.json(
+    { error: "Method not allowed. Use POST." },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "../../../../lib/admin";
+import { getAllocationRejectionsCollection } from "../../../../lib/database";
+import type { AllocationRejection, ErrorResponse } from "../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 100;
+
+/**
+ * Rejected onramp transfers for operations. Admin only, as records carry
+ * user addresses, amounts and provider codes.
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<AllocationRejection | { rejections: AllocationRejection[] } | ErrorResponse>> {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const rejectionId = searchParams.get("rejectionId");
+    const txHash = searchParams.get("txHash");
+    const providerTxCode = searchParams.get("providerTxCode");
+    const userAddress = searchParams.get("userAddress");
+
+    const collection = await getAllocationRejectionsCollection();
+
+    if (rejectionId) {
+      const rejection = await collection.findOne(
+        { rejectionId },
+        { projection: { _id: 0 } }
+      );
+      if (!rejection) {
+        return NextResponse.json({ error: "Rejection not found" }, { status: 404 });
+      }
+      return NextResponse.json(rejection);
+    }
+
+    if (!txHash && !providerTxCode && !userAddress) {
+      return NextResponse.json(
+        { error: "Provide rejectionId, txHash, providerTxCode or userAddress" },
+        { status: 400 }
+      );
+    }
+
+    const filter: Partial<Pick<AllocationRejection, "txHash" | "providerTxCode" | "userAddress">> = {};
+    if (txHash) filter.txHash = txHash.toLowerCase();
+    if (providerTxCode) filter.providerTxCode = providerTxCode;
+    if (userAddress) filter.userAddress = userAddress.toLowerCase();
+
+    const rawLimit = parseInt(searchParams.get("limit") || "20");
+    const limit = Math.min(isNaN(rawLimit) ? 20 : Math.max(1, rawLimit), MAX_LIMIT);
+
+    const rejections = await collection
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+
+    return NextResponse.json({ rejections });
+  } catch (error) {
+    console.error("Allocation rejections lookup error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,34 +1,37 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ethers } from "ethers";
-import {
-  VAULTS,
-  CONTRACTS,
-  VAULT_ABI,
-  GOAL_MANAGER_ABI,
-  LEADERBOARD_ABI,
-} from "../../../lib/constants";
-import { getContractCompliantTargetDate } from "../../../lib/utils";
-import {
-  createProvider,
-  createBackendWallet,
-  waitForTransactionReceipt,
-  findEventInLogs,
-  isValidAddress,
-  formatAmountForDisplay,
-} from "../../../lib/utils";
+import { VAULTS } from "../../../lib/constants";
+import { isValidAddress } from "../../../lib/utils";
 import type {
   AllocateRequest,
-  AllocateResponse,
+  AllocationJobResponse,
+  AllocationRecord,
   ErrorResponse,
+  OnrampEvent,
+  TierHeadroom,
   VaultAsset,
 } from "../../../lib/types";
-import { getMetaGoalsCollection } from "../../../lib/database";
-import { GoalSyncService } from "../../../lib/services/goal-sync.service";
+import {
+  AllocationConflictError,
+  AllocationLedgerService,
+} from "../../../lib/services/allocation-ledger.service";
+import { AllocationWorkerService } from "../../../lib/services/allocation-worker.service";
+import { ComplianceError, ComplianceService } from "../../../lib/services/compliance.service";
+import { TierLimitError, TierService } from "../../../lib/services/tier.service";
+import { GoalMembershipError, GoalMembershipService } from "../../../lib/services/goal-membership.service";
+import {
+  OnrampPayloadError,
+  OnrampSignatureError,
+  resolveOnrampEvent,
+} from "../../../lib/onramp";
 import { logger } from "../../../lib/logger";
 
 export async function POST(
   request: NextRequest
-): Promise<NextResponse<AllocateResponse | ErrorResponse>> {
+): Promise<NextResponse<(AllocationJobResponse & { headroom?: TierHeadroom }) | ErrorResponse>> {
+  const ledger = new AllocationLedgerService();
+  const compliance = new ComplianceService();
+  const tiers = new TierService();
+
   try {
     logger.info("💰 Allocate API called");
     logger.info("🌐 Request details", {
@@ -37,7 +40,9 @@ export async function POST(
       contentType: request.headers.get('content-type'),
       timestamp: new Date().toISOString()
     });
-    const body: AllocateRequest & { metaGoalId?: string; tokenSymbol?: string } = await request.json();
+    // The onramp signature covers the body exactly as sent
+    const rawBody = await request.text();
+    const body: AllocateRequest & { metaGoalId?: string; tokenSymbol?: string } = JSON.parse(rawBody);
     logger.debug("📊 RAW Allocate request body", { body });
     const {
       asset,
@@ -48,25 +53,11 @@ export async function POST(
       targetGoalId,
       metaGoalId,
       providerPayload,
+      providerId,
+      callbackUrl,
     } = body;
     // Handle both asset and tokenSymbol for backward compatibility
     const finalAsset = asset || tokenSymbol;
-    const providerTxCode = (() => {
-      if (!providerPayload || typeof providerPayload !== "object") {
-        return undefined;
-      }
-      const payload = providerPayload as {
-        transaction_code?: unknown;
-        data?: { transaction_code?: unknown };
-      };
-      if (typeof payload.transaction_code === "string") {
-        return payload.transaction_code;
-      }
-      if (typeof payload.data?.transaction_code === "string") {
-        return payload.data.transaction_code;
-      }
-      return undefined;
-    })();
     logger.debug("🔍 Extracted fields", {
       asset,
       tokenSymbol,
@@ -74,7 +65,7 @@ export async function POST(
       userAddress,
       amount,
       txHash,
-      providerTxCode,
+      providerId,
       targetGoalId,
       targetGoalIdType: typeof targetGoalId,
       targetGoalIdValue: targetGoalId
@@ -97,12 +88,31 @@ export async function POST(
       );
     }
 
-    if (!providerTxCode) {
-      logger.error("❌ Missing provider transaction code", { providerPayload });
+    let onrampEvent: OnrampEvent;
+    try {
+      onrampEvent = resolveOnrampEvent({
+        providerId,
+        payload: providerPayload,
+        rawBody,
+        signature: request.headers.get("x-onramp-signature"),
+      });
+    } catch (error) {
+      if (error instanceof OnrampSignatureError) {
+        logger.error("❌ Onramp signature rejected", { providerId, error: error.message });
+        return NextResponse.json({ error: error.message }, { status: 401 });
+      }
+      if (error instanceof OnrampPayloadError) {
+        logger.error("❌ Invalid provider payload", { providerId, providerPayload, error: error.message });
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    const providerTxCode = onrampEvent.providerTxCode;
+    logger.debug("📨 Normalized onramp event", { onrampEvent });
+
+    if (onrampEvent.status === "failed" || onrampEvent.status === "reversed") {
       return NextResponse.json(
-        {
-          error: "Missing provider transaction code. providerPayload must include transaction_code",
-        },
+        { error: `Onramp transaction ${providerTxCode} is ${onrampEvent.status} at provider ${onrampEvent.providerId}` },
         { status: 400 }
       );
     }
@@ -131,7 +141,7 @@ export async function POST(
         { status: 400 }
       );
     }
-    
+
     logger.info("✅ Processing allocation for", {
       finalAsset,
       userAddress,
@@ -150,362 +160,108 @@ export async function POST(
       );
     }
 
-    // Initialize provider and wallet
-    const provider = createProvider();
-    const backendWallet = createBackendWallet(provider);
-
-    // Wait for transaction receipt
-    const receipt = await waitForTransactionReceipt(provider, txHash);
-    logger.debug("Transaction receipt", { receipt });
-    if (!receipt || !receipt.status) {
-      return NextResponse.json(
-        { error: "Transaction not found or failed" },
-        { status: 400 }
-      );
-    }
-
-    // Verify transfer to vault
-    const transferTopic = ethers.id("Transfer(address,address,uint256)");
-    logger.debug("Looking for transfer topic", { transferTopic });
-    logger.debug("Vault config", { vaultConfig });
-    const vaultTransfer = receipt.logs.find((log: ethers.Log) => {
-      logger.debug("Checking log", { address: log.address, topic: log.topics[0] });
-      if (log.topics[0] !== transferTopic) return false;
-      if (log.address.toLowerCase() !== vaultConfig.asset.toLowerCase())
-        return false;
-      const to = ethers.getAddress("0x" + log.topics[2].slice(26));
-      logger.debug("Parsed to address", { to });
-      return to.toLowerCase() === vaultConfig.address.toLowerCase();
-    });
-    logger.info("Vault transfer found", { found: !!vaultTransfer });
-
-    if (!vaultTransfer) {
+    if (callbackUrl !== undefined && !isValidCallbackUrl(callbackUrl)) {
       return NextResponse.json(
-        { error: "No transfer to vault found in transaction" },
+        { error: "Invalid callbackUrl. Must be an absolute http(s) URL" },
         { status: 400 }
       );
     }
 
-    const vault = new ethers.Contract(
-      vaultConfig.address,
-      VAULT_ABI,
-      backendWallet
-    );
-
-    // Allocate the onramp deposit from the vault and parse the on-chain event.
-    const allocateTx = await vault.allocateOnrampDeposit(
-      userAddress,
-      BigInt(normalizedAmount),
-      txHash
-    );
-    const allocateReceipt = await allocateTx.wait();
-    const onrampDepositEvent = findEventInLogs(
-      allocateReceipt.logs,
-      vault,
-      "OnrampDeposit"
-    );
-    if (!onrampDepositEvent) {
-      return NextResponse.json(
-        { error: "Failed to parse onramp deposit event from allocation tx" },
-        { status: 500 }
-      );
+    // A replay of a known allocation gets its stored job; the gates only apply to new ones
+    let headroom: TierHeadroom;
+    if (await ledger.find(txHash, providerTxCode)) {
+      headroom = await tiers.getHeadroom(userAddress);
+    } else {
+      try {
+        await compliance.check({
+          action: "allocate",
+          userAddress,
+          asset: finalAsset as VaultAsset,
+          amountWei: normalizedAmount,
+        });
+        await new GoalMembershipService().assertCanAllocate(
+          { asset: finalAsset as VaultAsset, metaGoalId, targetGoalId },
+          userAddress
+        );
+        headroom = await tiers.assertAllocation(userAddress, {
+          asset: finalAsset as VaultAsset,
+          amount: normalizedAmount,
+          txHash,
+          providerTxCode,
+        });
+      } catch (error) {
+        if (
+          error instanceof ComplianceError ||
+          error instanceof GoalMembershipError ||
+          error instanceof TierLimitError
+        ) {
+          return NextResponse.json(error.toResponse(), { status: 403 });
+        }
+        throw error;
+      }
     }
 
-    const depositId = onrampDepositEvent.args.depositId.toString();
-    const shares = onrampDepositEvent.args.shares.toString();
-
-    // Handle goal attachment
-    let attachedGoalId: bigint = BigInt(0);
+    // Open (or replay) the ledger entry for this txHash + provider transaction code
+    let job: AllocationRecord | null;
     try {
-      const goalManagerRead = new ethers.Contract(
-        CONTRACTS.GOAL_MANAGER,
-        GOAL_MANAGER_ABI,
-        provider
-      );
-      const goalManagerWrite = new ethers.Contract(
-        CONTRACTS.GOAL_MANAGER,
-        GOAL_MANAGER_ABI,
-        backendWallet
-      );
-
-      // Use target goal if specified, otherwise default to quicksave
-    logger.debug("🎯 Goal selection logic", {
-      hasTargetGoalId: !!targetGoalId,
-      hasMetaGoalId: !!metaGoalId,
-      targetGoalIdValue: targetGoalId,
-      targetGoalIdType: typeof targetGoalId,
-      willUseTargetGoal: !!targetGoalId || !!metaGoalId
-    });
-      
-      // Handle meta-goal routing first
-      if (metaGoalId && !targetGoalId) {
-        try {
-          const collection = await getMetaGoalsCollection();
-          const metaGoal = await collection.findOne({ metaGoalId });
-          
-          if (metaGoal) {
-            const onChainGoalId = metaGoal.onChainGoals[finalAsset as VaultAsset];
-            if (onChainGoalId) {
-              logger.info("🎯 Meta-goal resolved to on-chain goal", {
-                metaGoalId,
-                onChainGoalId,
-                asset: finalAsset,
-              });
-              // Validate the resolved goal exists and matches vault
-              const resolvedGoal = await goalManagerRead.goals(onChainGoalId);
-              if (resolvedGoal.id.toString() !== "0" && 
-                  resolvedGoal.vault.toLowerCase() === vaultConfig.address.toLowerCase()) {
-                attachedGoalId = BigInt(onChainGoalId);
-                logger.info("✅ Using meta-goal resolved target", { onChainGoalId });
-              } else {
-                logger.warn("❌ Meta-goal resolved goal invalid, falling back to quicksave", {
-                  onChainGoalId,
-                });
-              }
-            } else {
-              logger.warn("❌ Meta-goal has no on-chain goal for asset, falling back to quicksave", {
-                metaGoalId,
-                asset: finalAsset,
-              });
-            }
-          } else {
-            logger.warn("❌ Meta-goal not found, falling back to quicksave", { metaGoalId });
-          }
-        } catch (error) {
-          logger.warn("❌ Error resolving meta-goal", {
-            metaGoalId,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
-      }
-      
-      if (targetGoalId && attachedGoalId === BigInt(0)) {
-        // Validate that target goal exists and matches the current vault
-        try {
-          const targetGoal = await goalManagerRead.goals(targetGoalId);
-          if (targetGoal.id.toString() === "0") {
-            logger.warn("❌ Target goal does not exist, falling back to quicksave", {
-              targetGoalId,
-            });
-          } else if (targetGoal.vault.toLowerCase() !== vaultConfig.address.toLowerCase()) {
-            logger.warn("❌ Target goal vault mismatch, falling back to quicksave", {
-              targetGoalId,
-              expectedVault: vaultConfig.address,
-              actualVault: targetGoal.vault,
-            });
-          } else {
-            attachedGoalId = BigInt(targetGoalId);
-            logger.info("✅ Using target goal", {
-              targetGoalId,
-              attachedGoalId: attachedGoalId.toString(),
-            });
-            
-            // Lazy sync: ensure goal exists in database
-            const syncService = new GoalSyncService(provider);
-            await syncService.getGoalWithFallback(targetGoalId);
-          }
-        } catch (error) {
-          logger.warn("❌ Error validating target goal", {
-            targetGoalId,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
+      job = await ledger.begin({
+        txHash,
+        providerTxCode,
+        asset: finalAsset as VaultAsset,
+        userAddress,
+        amount: normalizedAmount,
+        targetGoalId,
+        metaGoalId,
+        onrampEvent,
+        callbackUrl,
+      });
+    } catch (error) {
+      if (error instanceof AllocationConflictError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
       }
-      
-      if (attachedGoalId === BigInt(0)) {
-        // Check if user has existing goals in other vaults that could be expanded
-        try {
-          const collection = await getMetaGoalsCollection();
-          const userMetaGoals = await collection.find({ creatorAddress: userAddress.toLowerCase() }).toArray();
-          if (userMetaGoals.length > 0) {
-            // Find a meta-goal that doesn't have this asset yet
-            const expandableGoal = userMetaGoals.find((mg: { onChainGoals: Record<string, string> }) => !mg.onChainGoals[finalAsset as VaultAsset]);
-            if (expandableGoal) {
-              // Auto-expand the goal to include this asset
-              const targetAmountWei = ethers.parseUnits(expandableGoal.targetAmountUSD.toString(), vaultConfig.decimals);
-              const parsedTargetDate = getContractCompliantTargetDate();
-              
-              const createTx = await goalManagerWrite.createGoalFor(
-                userAddress,
-                vaultConfig.address,
-                targetAmountWei,
-                parsedTargetDate,
-                expandableGoal.name
-              );
-              
-              const createReceipt = await createTx.wait();
-              const goalEvent = findEventInLogs(createReceipt.logs, goalManagerWrite, "GoalCreated");
-              
-              if (goalEvent) {
-                attachedGoalId = goalEvent.args.goalId;
-                // Update meta-goal in database
-                expandableGoal.onChainGoals[finalAsset as VaultAsset] = attachedGoalId.toString();
-                await collection.updateOne(
-                  { metaGoalId: expandableGoal.metaGoalId },
-                  { $set: { onChainGoals: expandableGoal.onChainGoals, updatedAt: new Date().toISOString() } }
-                );
-                logger.info("✅ Auto-expanded meta-goal to include asset", {
-                  metaGoalId: expandableGoal.metaGoalId,
-                  asset: finalAsset,
-                });
-              }
-            }
-          }
-        } catch (error) {
-          logger.warn("Auto-expansion failed, falling back to quicksave", {
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
-        
-        if (attachedGoalId === BigInt(0)) {
-          // Get quicksave goal directly from contract
-          attachedGoalId = await goalManagerRead.getQuicksaveGoal(
-            vaultConfig.address,
-            userAddress
-          );
-
-          if (attachedGoalId.toString() === "0") {
-            // Create quicksave goal
-            const createTx = await goalManagerWrite.createQuicksaveGoalFor(
-              userAddress,
-              vaultConfig.address
-            );
-            const createReceipt = await createTx.wait();
+      throw error;
+    }
 
-            const goalEvent = findEventInLogs(
-              createReceipt.logs,
-              goalManagerWrite,
-              "GoalCreated"
-            );
-            if (goalEvent) {
-              attachedGoalId = goalEvent.args.goalId;
-            }
-          }
-          logger.info("✅ Using quicksave goal", {
-            attachedGoalId: attachedGoalId.toString(),
-          });
-        }
-      }
-      
-      logger.debug("🔗 Final goal attachment decision", {
-        selectedGoalId: attachedGoalId.toString(),
-        wasTargetGoalProvided: !!targetGoalId,
-        originalTargetGoalId: targetGoalId
-      });
+    // Resubmitting a failed allocation resumes it from its last completed step
+    if (job.status === "failed") {
+      job = (await ledger.requeue(job.allocationId)) ?? job;
+    }
 
-      if (attachedGoalId !== BigInt(0)) {
-        // Verify goal exists before attaching
-        try {
-          const goal = await goalManagerRead.goals(attachedGoalId);
-          if (goal.id.toString() !== "0") {
-            // Try to attach deposit
-            try {
-              const attachTx = await goalManagerWrite.attachDepositsOnBehalf(
-                attachedGoalId,
-                userAddress,
-                [depositId]
-              );
-              await attachTx.wait();
-              logger.info("✅ Successfully attached deposit to goal", {
-                depositId,
-                goalId: attachedGoalId.toString(),
-                userAddress,
-                wasTargetGoal: !!targetGoalId,
-                originalTargetGoalId: targetGoalId
-              });
-            } catch (attachError) {
-              const errorMsg = attachError instanceof Error ? attachError.message : String(attachError);
-              if (errorMsg.includes("already unlocked") || errorMsg.includes("Not found")) {
-                logger.warn("Cannot attach deposit", {
-                  depositId,
-                  error: errorMsg,
-                });
-              } else {
-                throw attachError;
-              }
-            }
-          } else {
-            logger.warn("Goal not found, skipping attachment", {
-              goalId: attachedGoalId.toString(),
-            });
-            attachedGoalId = BigInt(0);
-          }
-        } catch (goalError) {
-          logger.warn("Goal validation failed", {
-            goalId: attachedGoalId.toString(),
-            error: goalError instanceof Error ? goalError.message : String(goalError),
-          });
-          attachedGoalId = BigInt(0);
-        }
-      }
-    } catch (error) {
-      logger.warn("Failed to handle goal attachment, skipping", {
-        error: error instanceof Error ? error.message : String(error),
+    if (job.status === "completed" || job.status === "rejected") {
+      logger.info("♻️ Allocation replayed, returning finished job", {
+        jobId: job.allocationId,
+        status: job.status,
+        txHash,
+        providerTxCode,
       });
-      attachedGoalId = BigInt(0);
+      return NextResponse.json({ ...AllocationLedgerService.toJobResponse(job), headroom });
     }
 
-    // Record score on leaderboard
-    const leaderboard = new ethers.Contract(
-      CONTRACTS.LEADERBOARD,
-      LEADERBOARD_ABI,
-      backendWallet
-    );
-    const scoreTx = await leaderboard.recordDepositOnBehalf(
-      userAddress,
-      BigInt(normalizedAmount)
-    );
-    await scoreTx.wait();
-
-    // Check if meta-goal is completed
-    let goalCompleted = false;
-    let responseMetaGoalId: string | undefined;
-    
-    if (attachedGoalId !== BigInt(0)) {
-      try {
-        const collection = await getMetaGoalsCollection();
-        const metaGoal = await collection.findOne({ [`onChainGoals.${finalAsset}`]: attachedGoalId.toString() });
-        
-        if (metaGoal) {
-          responseMetaGoalId = metaGoal.metaGoalId;
-          const goalManagerRead = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
-          let totalProgressUSD = 0;
-          
-          for (const [asset, goalId] of Object.entries(metaGoal.onChainGoals)) {
-            const vaultCfg = VAULTS[asset as VaultAsset];
-            const [totalValue] = await goalManagerRead.getGoalProgressFull(goalId);
-            totalProgressUSD += parseFloat(formatAmountForDisplay(totalValue.toString(), vaultCfg.decimals));
-          }
-          
-          const progressPercent = metaGoal.targetAmountUSD > 0 ? (totalProgressUSD / metaGoal.targetAmountUSD) * 100 : 0;
-          goalCompleted = progressPercent >= 100;
-        }
-      } catch (error) {
-        logger.warn("Failed to check goal completion", {
+    // ALLOCATION_WORKER=external leaves queued jobs to scripts/allocation-worker.ts.
+    // A job still leased by another worker is left alone by acquire().
+    if (process.env.ALLOCATION_WORKER !== "external") {
+      const jobId = job.allocationId;
+      void new AllocationWorkerService(ledger).process(jobId).catch((error) =>
+        logger.error("Allocation worker crashed", {
+          jobId,
           error: error instanceof Error ? error.message : String(error),
-        });
-      }
+        })
+      );
     }
 
-    // Return successful response
-    const response = {
-      success: true,
-      depositId,
-      goalId: attachedGoalId.toString(),
-      shares,
-      formattedShares: formatAmountForDisplay(shares, vaultConfig.decimals, 4),
-      allocationTxHash: txHash,
-      goalCompleted,
-      metaGoalId: responseMetaGoalId,
-    };
-    
-    logger.info("📤 Allocate response data", { response });
-    return NextResponse.json(response);
+    logger.info("📥 Allocation job accepted", {
+      jobId: job.allocationId,
+      status: job.status,
+      step: job.step,
+    });
+    return NextResponse.json({ ...AllocationLedgerService.toJobResponse(job), headroom }, {
+      status: 202,
+      headers: { Location: `/api/allocate/${job.allocationId}` },
+    });
   } catch (error) {
     logger.error("❌ Allocation error", {
       message: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
-      requestBody: request.body,
     });
     return NextResponse.json(
       {
@@ -516,6 +272,18 @@ export async function POST(
   }
 }
 
+function isValidCallbackUrl(value: unknown): value is string {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
 // Handle unsupported methods
 export async function GET(): Promise<NextResponse<ErrorResponse>> {
   return NextResponse.json(
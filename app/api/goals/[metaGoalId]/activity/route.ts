@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMetaGoalsCollection } from "../../../../../lib/database";
+import { authorizeMetaGoalAccess } from "../../../../../lib/goal-access";
+import { createProvider } from "../../../../../lib/utils";
+import {
+  ActivityQueryError,
+  ActivityService,
+  GOAL_ACTIVITY_TYPES,
+} from "../../../../../lib/services/activity.service";
+import type {
+  ErrorResponse,
+  GoalActivityResponse,
+  GoalActivityType,
+} from "../../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Deposits, membership changes, completion and cancellation across every
+ * on-chain goal of a group goal, newest first. Private goals follow the same
+ * access rules as GET /api/goals/{metaGoalId}. Page with ?cursor=nextCursor.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { metaGoalId: string } }
+): Promise<NextResponse<GoalActivityResponse | ErrorResponse>> {
+  try {
+    const { metaGoalId } = params;
+    const { searchParams } = new URL(request.url);
+
+    if (!metaGoalId || typeof metaGoalId !== "string" || metaGoalId.length > 100) {
+      return NextResponse.json({ error: "Invalid metaGoalId" }, { status: 400 });
+    }
+
+    const limitParam = searchParams.get("limit");
+    const limit = Number.parseInt(limitParam || String(DEFAULT_LIMIT), 10);
+    if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Invalid limit parameter. Must be between 1 and ${MAX_LIMIT}.` },
+        { status: 400 }
+      );
+    }
+
+    const typeParam = searchParams.get("type");
+    const types = typeParam ? (typeParam.split(",").map((type) => type.trim()) as GoalActivityType[]) : undefined;
+    if (types && types.some((type) => !GOAL_ACTIVITY_TYPES.includes(type))) {
+      return NextResponse.json(
+        { error: `Invalid type parameter. Supported: ${GOAL_ACTIVITY_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getMetaGoalsCollection();
+    const metaGoal = await collection.findOne({ metaGoalId });
+    if (!metaGoal) {
+      return NextResponse.json({ error: "Meta-goal not found" }, { status: 404 });
+    }
+
+    const denied = await authorizeMetaGoalAccess(
+      metaGoal,
+      searchParams.get("userAddress"),
+      searchParams.get("invitedBy")
+    );
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const page = await new ActivityService(createProvider()).getGoalPage({
+      goals: metaGoal.onChainGoals,
+      types,
+      cursor: searchParams.get("cursor") || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ metaGoalId, limit, ...page });
+  } catch (error) {
+    if (error instanceof ActivityQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Goal activity API error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
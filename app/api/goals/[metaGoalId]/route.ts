@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ethers } from "ethers";
-import { VAULTS, CONTRACTS, GOAL_MANAGER_ABI } from "../../../../lib/constants";
-import { createProvider, formatAmountForDisplay, isValidAddress } from "../../../../lib/utils";
+import { CONTRACTS, GOAL_MANAGER_ABI } from "../../../../lib/constants";
+import { createProvider } from "../../../../lib/utils";
+import { authorizeMetaGoalAccess } from "../../../../lib/goal-access";
 import { getMetaGoalsCollection } from "../../../../lib/database";
 import { GoalSyncService } from "../../../../lib/services/goal-sync.service";
+import { PriceService } from "../../../../lib/services/price.service";
 import type { ErrorResponse, VaultAsset, MetaGoalWithProgress } from "../../../../lib/types";
 
 const isGoalNotFoundError = (error: unknown): boolean => {
@@ -52,31 +54,14 @@ export async function GET(
       }
     }
 
-    // Access control for private goals
-    if (metaGoal.isPublic === false) {
-      if (!userAddress) {
-        return NextResponse.json({ error: "Authentication required for private goals." }, { status: 401 });
-      }
-      const normalizedUser = userAddress.toLowerCase();
-      const isCreator = metaGoal.creatorAddress.toLowerCase() === normalizedUser;
-      const isParticipant = metaGoal.participants?.includes(normalizedUser);
-      const isInvited = metaGoal.invitedUsers?.includes(normalizedUser);
-      
-      if (invitedBy && !isInvited && !isCreator && !isParticipant) {
-        if (!isValidAddress(invitedBy) || invitedBy.toLowerCase() !== metaGoal.creatorAddress.toLowerCase()) {
-          return NextResponse.json({ error: "Invalid invitation" }, { status: 403 });
-        }
-        await collection.updateOne(
-          { metaGoalId },
-          { $addToSet: { invitedUsers: normalizedUser }, $set: { updatedAt: new Date().toISOString() } }
-        );
-      } else if (!isCreator && !isParticipant && !isInvited) {
-        return NextResponse.json({ error: "Access denied. This is a private goal." }, { status: 403 });
-      }
+    const denied = await authorizeMetaGoalAccess(metaGoal, userAddress, invitedBy);
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
     }
 
     const provider = createProvider();
     const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
+    const prices = new PriceService();
 
     let totalProgressUSD = 0;
     const vaultProgress: Record<VaultAsset, {
@@ -96,8 +81,7 @@ export async function GET(
         try {
           const [totalValue] = await goalManager.getGoalProgressFull(goalId);
           const attachmentCount = await goalManager.attachmentCount(goalId);
-          const vaultConfig = VAULTS[asset as VaultAsset];
-          const progressUSD = parseFloat(formatAmountForDisplay(totalValue.toString(), vaultConfig.decimals));
+          const progressUSD = await prices.toUSD(asset as VaultAsset, totalValue);
           return { asset, goalId, progressUSD, attachmentCount: Number(attachmentCount) };
         } catch (error) {
           if (isGoalNotFoundError(error)) {
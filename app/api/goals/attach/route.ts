@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ethers } from "ethers";
 import { VAULTS, CONTRACTS, GOAL_MANAGER_ABI } from "../../../../lib/constants";
-import { createProvider, createBackendWallet, isValidAddress } from "../../../../lib/utils";
+import { createProvider, isValidAddress } from "../../../../lib/utils";
 import { getMetaGoalsCollection } from "../../../../lib/database";
+import { TransactionSubmitter } from "../../../../lib/services/transaction-submitter.service";
 import type {
   AttachDepositRequest,
   AttachDepositResponse,
@@ -54,16 +55,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<AttachDep
 
     // Attach deposit to the correct on-chain goal
     const provider = createProvider();
-    const backendWallet = createBackendWallet(provider);
-    const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, backendWallet);
+    const submitter = new TransactionSubmitter(provider);
+    const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
 
-    const attachTx = await goalManager.attachDepositsOnBehalf(
+    const attachTx = await submitter.send(goalManager, "attachDepositsOnBehalf", [
       onChainGoalId,
       userAddress,
-      [depositId]
-    );
-
-    await attachTx.wait();
+      [depositId],
+    ]);
 
     return NextResponse.json({
       success: true,
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ethers } from "ethers";
 import { VAULTS, CONTRACTS, GOAL_MANAGER_ABI } from "../../../../lib/constants";
-import { createProvider, createBackendWallet, findEventInLogs, getContractCompliantTargetDate } from "../../../../lib/utils";
+import { createProvider, findEventInLogs, getContractCompliantTargetDate } from "../../../../lib/utils";
 import { getMetaGoalsCollection } from "../../../../lib/database";
+import { TransactionSubmitter } from "../../../../lib/services/transaction-submitter.service";
+import { PriceService } from "../../../../lib/services/price.service";
+import { ActivityLogService } from "../../../../lib/services/activity-log.service";
 import type { ErrorResponse, VaultAsset } from "../../../../lib/types";
 
 interface ExpandGoalRequest {
@@ -17,8 +20,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<{ success
     const { goalId, newVaults, userAddress } = body;
 
     const provider = createProvider();
-    const backendWallet = createBackendWallet(provider);
-    const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, backendWallet);
+    const submitter = new TransactionSubmitter(provider);
+    const prices = new PriceService();
+    const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
     const collection = await getMetaGoalsCollection();
 
     let metaGoal;
@@ -54,18 +58,16 @@ export async function POST(request: NextRequest): Promise<NextResponse<{ success
       if (metaGoal!.onChainGoals[asset]) continue;
 
       const vaultConfig = VAULTS[asset];
-      const targetAmountWei = ethers.parseUnits(metaGoal!.targetAmountUSD.toString(), vaultConfig.decimals);
+      const targetAmountWei = await prices.fromUSD(asset, metaGoal!.targetAmountUSD);
       const parsedTargetDate = getContractCompliantTargetDate();
 
-      const tx = await goalManager.createGoalFor(
+      const { receipt } = await submitter.send(goalManager, "createGoalFor", [
         userAddress,
         vaultConfig.address,
         targetAmountWei,
         parsedTargetDate,
-        metaGoal!.name
-      );
-
-      const receipt = await tx.wait();
+        metaGoal!.name,
+      ]);
       const goalEvent = findEventInLogs(receipt.logs, goalManager, "GoalCreated");
       
       if (goalEvent) {
@@ -78,6 +80,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<{ success
 
     if (isNewMetaGoal && metaGoal) {
       await collection.insertOne(metaGoal);
+      await new ActivityLogService().recordMetaGoalCreated(metaGoal);
     } else if (metaGoal) {
       await collection.updateOne(
         { metaGoalId: metaGoal!.metaGoalId },
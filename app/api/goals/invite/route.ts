@@ -3,7 +3,11 @@ import { ethers } from "ethers";
 import type { Db } from "mongodb";
 import { CONTRACTS, GOAL_MANAGER_ABI } from "../../../../lib/constants";
 import { connectToDatabase, getMetaGoalsCollection } from "../../../../lib/database";
-import { createBackendWallet, createProvider, isValidAddress } from "../../../../lib/utils";
+import { createProvider, isValidAddress } from "../../../../lib/utils";
+import { TransactionSubmitter } from "../../../../lib/services/transaction-submitter.service";
+import { ActivityLogService } from "../../../../lib/services/activity-log.service";
+import { ComplianceError, ComplianceService } from "../../../../lib/services/compliance.service";
+import { GoalMembershipError, GoalMembershipService } from "../../../../lib/services/goal-membership.service";
 import type { ErrorResponse } from "../../../../lib/types";
 
 function buildInviteMessage(params: {
@@ -165,6 +169,17 @@ export async function POST(
       );
     }
 
+    if (
+      metaGoal.memberLimit &&
+      !participants.includes(normalizedInvited) &&
+      participants.length >= metaGoal.memberLimit
+    ) {
+      return NextResponse.json(
+        { error: `This group is limited to ${metaGoal.memberLimit} members` },
+        { status: 403 }
+      );
+    }
+
     // Signature binds inviter; nonce prevents replay.
     const expectedMessage = buildInviteMessage({
       metaGoalId,
@@ -191,6 +206,9 @@ export async function POST(
       return NextResponse.json({ error: "Inviter not found" }, { status: 403 });
     }
 
+    await new ComplianceService().check({ action: "invite", userAddress: normalizedInviter });
+    await new GoalMembershipService().assertEligible(metaGoal, normalizedInvited);
+
     const nonceStatus = await consumeInviteNonce(db, {
       metaGoalId,
       inviterAddress: normalizedInviter,
@@ -211,14 +229,13 @@ export async function POST(
     }
 
     const provider = createProvider();
-    const backendWallet = createBackendWallet(provider);
-    const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, backendWallet);
+    const submitter = new TransactionSubmitter(provider);
+    const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
     const goalIds = Object.values(metaGoal.onChainGoals || {}).filter(Boolean) as string[];
 
     for (const goalId of goalIds) {
       try {
-        const tx = await goalManager.forceAddMember(BigInt(goalId), normalizedInvited);
-        await tx.wait();
+        await submitter.send(goalManager, "forceAddMember", [BigInt(goalId), normalizedInvited]);
       } catch (onChainError) {
         if (!isAlreadyMemberError(onChainError)) {
           throw onChainError;
@@ -233,9 +250,13 @@ export async function POST(
         $set: { updatedAt: new Date().toISOString() },
       }
     );
+    await new ActivityLogService().recordInvites(metaGoalId, normalizedInviter, [normalizedInvited]);
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof ComplianceError || error instanceof GoalMembershipError) {
+      return NextResponse.json(error.toResponse(), { status: 403 });
+    }
     console.error("Invite user error:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Internal server error" },
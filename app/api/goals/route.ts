@@ -4,13 +4,17 @@ import { v4 as uuidv4 } from "uuid";
 import { VAULTS, CONTRACTS, GOAL_MANAGER_ABI } from "../../../lib/constants";
 import {
   createProvider,
-  createBackendWallet,
   findEventInLogs,
   isValidAddress,
   getContractCompliantTargetDate,
 } from "../../../lib/utils";
 import { getMetaGoalsCollection } from "../../../lib/database";
 import { GoalSyncService } from "../../../lib/services/goal-sync.service";
+import { TransactionSubmitter } from "../../../lib/services/transaction-submitter.service";
+import { PriceService } from "../../../lib/services/price.service";
+import { ActivityLogService } from "../../../lib/services/activity-log.service";
+import { ComplianceError, ComplianceService } from "../../../lib/services/compliance.service";
+import { TierLimitError, TierService } from "../../../lib/services/tier.service";
 import type {
   CreateMultiVaultGoalRequest,
   CreateMultiVaultGoalResponse,
@@ -130,6 +134,7 @@ export async function GET(
       provider
     );
     const collection = await getMetaGoalsCollection();
+    const prices = new PriceService();
 
     if (creatorAddress) {
       const syncService = new GoalSyncService(provider);
@@ -234,9 +239,7 @@ export async function GET(
                   });
                 }
 
-                const progressUSD = parseFloat(
-                  ethers.formatUnits(totalBalance, vaultConfig.decimals)
-                );
+                const progressUSD = await prices.toUSD(asset as VaultAsset, totalBalance);
                 const progressPercent =
                   metaGoal.targetAmountUSD > 0
                     ? (progressUSD / metaGoal.targetAmountUSD) * 100
@@ -386,15 +389,12 @@ export async function GET(
               const { asset, attachments } = progressResults[i];
               const { cancelled } = goalStatuses[i];
               if (cancelled) continue;
-              const vaultConfig = VAULTS[asset];
-              attachments.forEach((att) => {
+              for (const att of attachments) {
                 if (att.owner.toLowerCase() === targetUser) {
                   userBalance += att.currentValue;
-                  userBalanceUSD += parseFloat(
-                    ethers.formatUnits(att.currentValue, vaultConfig.decimals)
-                  );
+                  userBalanceUSD += await prices.toUSD(asset, att.currentValue);
                 }
-              });
+              }
             }
           }
 
@@ -449,12 +449,17 @@ export async function POST(
       );
     }
 
+    // Goals created here have no visibility setting and are listed publicly
+    await new ComplianceService().check({ action: "create_goal", userAddress: creatorAddress, isPublic: true });
+    const headroom = await new TierService().assertGoalCreation(creatorAddress);
+
     const provider = createProvider();
-    const backendWallet = createBackendWallet(provider);
+    const submitter = new TransactionSubmitter(provider);
+    const prices = new PriceService();
     const goalManager = new ethers.Contract(
       CONTRACTS.GOAL_MANAGER,
       GOAL_MANAGER_ABI,
-      backendWallet
+      provider
     );
 
     const targetVaults =
@@ -471,10 +476,7 @@ export async function POST(
 
     for (const asset of targetVaults) {
       const vaultConfig = VAULTS[asset];
-      const targetAmountWei = ethers.parseUnits(
-        targetAmountUSD.toString(),
-        vaultConfig.decimals
-      );
+      const targetAmountWei = await prices.fromUSD(asset, Number(targetAmountUSD));
 
       let parsedTargetDate;
       if (targetDate) {
@@ -490,15 +492,13 @@ export async function POST(
         parsedTargetDate = getContractCompliantTargetDate();
       }
 
-      const tx = await goalManager.createGoalFor(
+      const { hash, receipt } = await submitter.send(goalManager, "createGoalFor", [
         creatorAddress,
         vaultConfig.address,
         targetAmountWei,
         parsedTargetDate,
-        name
-      );
-
-      const receipt = await tx.wait();
+        name,
+      ]);
       const goalEvent = findEventInLogs(
         receipt.logs,
         goalManager,
@@ -507,7 +507,7 @@ export async function POST(
 
       if (goalEvent) {
         onChainGoals[asset] = goalEvent.args.goalId.toString();
-        txHashes[asset] = tx.hash;
+        txHashes[asset] = hash;
       }
     }
 
@@ -525,14 +525,19 @@ export async function POST(
 
     const collection = await getMetaGoalsCollection();
     await collection.insertOne(metaGoal as MetaGoal);
+    await new ActivityLogService().recordMetaGoalCreated(metaGoal);
 
     return NextResponse.json({
       success: true,
       metaGoalId,
       onChainGoals,
       txHashes,
+      headroom,
     });
   } catch (error) {
+    if (error instanceof ComplianceError || error instanceof TierLimitError) {
+      return NextResponse.json(error.toResponse(), { status: 403 });
+    }
     console.error("Create multi-vault goal error:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "../../../lib/admin";
+import { getSelfVerificationsCollection } from "../../../lib/database";
+import { IdentityService } from "../../../lib/services/identity.service";
+import { isValidAddress } from "../../../lib/utils";
+import type { ErrorResponse, Identity, SelfVerification } from "../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+type ClusterResponse = {
+  total: number;
+  start: number;
+  limit: number;
+  clusters: Array<Identity & { walletCount: number }>;
+};
+
+type WalletIdentityResponse = {
+  walletAddress: string;
+  identity: Identity | null;
+  verifications: SelfVerification[];
+};
+
+/**
+ * Admin: wallets clustered by Self nullifier, people with the most wallets
+ * first (?minWallets=2, start, limit). With ?wallet= returns the person that
+ * wallet belongs to and the verifications of all their wallets.
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ClusterResponse | WalletIdentityResponse | ErrorResponse>> {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const identities = new IdentityService();
+
+    const wallet = searchParams.get("wallet");
+    if (wallet) {
+      if (!isValidAddress(wallet)) {
+        return NextResponse.json({ error: "Invalid wallet" }, { status: 400 });
+      }
+      const identity = await identities.findByWallet(wallet);
+      const wallets = identity ? identity.wallets : [wallet.toLowerCase()];
+      const verifications = await (await getSelfVerificationsCollection())
+        .find({ walletAddress: { $in: wallets } }, { projection: { _id: 0 } })
+        .sort({ verifiedAt: -1 })
+        .toArray();
+      return NextResponse.json({ walletAddress: wallet.toLowerCase(), identity, verifications });
+    }
+
+    const minWallets = parseInt(searchParams.get("minWallets") || "2", 10);
+    const start = parseInt(searchParams.get("start") || "0", 10);
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+    if (isNaN(minWallets) || minWallets < 1) {
+      return NextResponse.json({ error: "Invalid minWallets. Must be a positive integer." }, { status: 400 });
+    }
+    if (isNaN(start) || start < 0) {
+      return NextResponse.json({ error: "Invalid start. Must be a non-negative integer." }, { status: 400 });
+    }
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return NextResponse.json({ error: "Invalid limit. Must be between 1 and 200." }, { status: 400 });
+    }
+
+    const { total, clusters } = await identities.listClusters({ minWallets, skip: start, limit });
+    return NextResponse.json({ total, start, limit, clusters });
+  } catch (error) {
+    console.error("Identity clusters error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@ import {
   LEADERBOARD_ABI,
   LEADERBOARD_DECIMALS,
 } from "../../../lib/constants";
+import { getLeaderboardScoresCollection } from "../../../lib/database";
+import { IdentityService } from "../../../lib/services/identity.service";
 import {
   createProvider,
   isValidAddress,
@@ -25,6 +27,17 @@ export async function GET(
     const userAddress = searchParams.get("userAddress");
     const start = searchParams.get("start") || "0";
     const limit = searchParams.get("limit") || "10";
+    const source = searchParams.get("source") || "onchain";
+
+    if (source !== "onchain" && source !== "recomputed") {
+      return NextResponse.json(
+        { error: "Invalid source parameter. Must be onchain or recomputed." },
+        { status: 400 }
+      );
+    }
+
+    // One spot per person: wallets linked to a verified person other than their primary wallet are left out
+    const identities = new IdentityService();
 
     const provider = createProvider();
     const leaderboard = new ethers.Contract(
@@ -42,6 +55,13 @@ export async function GET(
         );
       }
 
+      const secondary = await identities.getSecondaryWallets([userAddress]);
+      const eligible = !secondary.has(userAddress.toLowerCase());
+
+      if (source === "recomputed") {
+        return NextResponse.json(await getRecomputedUserScore(userAddress, identities, eligible));
+      }
+
       const score = await leaderboard.getUserScore(userAddress);
       const scoreString = score.toString();
 
@@ -49,7 +69,7 @@ export async function GET(
       let rank: number | null = null;
       const topLength = await leaderboard.getTopListLength();
 
-      if (score > BigInt(0)) {
+      if (eligible && score > BigInt(0)) {
         // Search for user in top list to get their rank
         for (let i = 0; i < Number(topLength) && i < 1000; i++) {
           // Limit search to prevent timeout
@@ -97,6 +117,10 @@ export async function GET(
       );
     }
 
+    if (source === "recomputed") {
+      return NextResponse.json(await getRecomputedRange(startIdx, limitNum, identities));
+    }
+
     // Handle leaderboard range query
     const topLength = await leaderboard.getTopListLength();
     const topLengthNum = Number(topLength);
@@ -112,22 +136,26 @@ export async function GET(
     }
 
     const [users, scores] = await leaderboard.getTopRange(startIdx, endIdx);
+    const secondary = await identities.getSecondaryWallets(Array.from(users as string[]));
 
-    const leaderboardData: LeaderboardEntry[] = users.map(
-      (address: string, index: number) => {
-        const scoreString = scores[index].toString();
-        return {
-          rank: startIdx + index + 1,
-          address,
-          score: scoreString,
-          formattedScore: formatAmountForDisplay(
-            scoreString,
-            LEADERBOARD_DECIMALS,
-            2
-          ), // Using cUSD decimals for leaderboard scores
-        };
+    // Ranks stay the contract's, so leaving out secondary wallets can leave gaps
+    const leaderboardData: LeaderboardEntry[] = [];
+    (users as string[]).forEach((address: string, index: number) => {
+      if (secondary.has(address.toLowerCase())) {
+        return;
       }
-    );
+      const scoreString = scores[index].toString();
+      leaderboardData.push({
+        rank: startIdx + index + 1,
+        address,
+        score: scoreString,
+        formattedScore: formatAmountForDisplay(
+          scoreString,
+          LEADERBOARD_DECIMALS,
+          2
+        ), // Using cUSD decimals for leaderboard scores
+      });
+    });
 
     const response: LeaderboardResponse = {
       total: topLength.toString(),
@@ -148,6 +176,59 @@ export async function GET(
   }
 }
 
+/**
+ * Scores rebuilt by scripts/recompute-leaderboard-scores.ts, in the same
+ * LEADERBOARD_DECIMALS units as the contract. Secondary wallets are not
+ * ranked.
+ */
+async function getRecomputedUserScore(
+  userAddress: string,
+  identities: IdentityService,
+  eligible: boolean
+): Promise<UserScore> {
+  const collection = await getLeaderboardScoresCollection();
+  const excluded = { userAddress: { $nin: Array.from(await identities.getSecondaryWallets()) } };
+  const record = await collection.findOne({ userAddress: userAddress.toLowerCase() });
+  const total = await collection.countDocuments(excluded);
+  const score = record?.score ?? "0";
+  const rank = record && eligible
+    ? (await collection.countDocuments({ ...excluded, scoreUSD: { $gt: record.scoreUSD } })) + 1
+    : null;
+
+  return {
+    userAddress,
+    score,
+    formattedScore: formatAmountForDisplay(score, LEADERBOARD_DECIMALS, 2),
+    rank,
+    totalUsers: total.toString(),
+  };
+}
+
+async function getRecomputedRange(
+  start: number,
+  limit: number,
+  identities: IdentityService
+): Promise<LeaderboardResponse> {
+  const collection = await getLeaderboardScoresCollection();
+  const excluded = { userAddress: { $nin: Array.from(await identities.getSecondaryWallets()) } };
+  const [total, records] = await Promise.all([
+    collection.countDocuments(excluded),
+    collection.find(excluded).sort({ scoreUSD: -1, userAddress: 1 }).skip(start).limit(limit).toArray(),
+  ]);
+
+  return {
+    total: total.toString(),
+    start,
+    limit,
+    data: records.map((record, index) => ({
+      rank: start + index + 1,
+      address: record.userAddress,
+      score: record.score,
+      formattedScore: formatAmountForDisplay(record.score, LEADERBOARD_DECIMALS, 2),
+    })),
+  };
+}
+
 // Handle unsupported methods
 export async function POST(): Promise<NextResponse<ErrorResponse>> {
   return NextResponse.json(
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { VAULTS } from "../../../lib/constants";
+import { isAdminRequest } from "../../../lib/admin";
+import { PriceService } from "../../../lib/services/price.service";
+import type { ErrorResponse, PriceOverride, PriceQuote, VaultAsset } from "../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Current USD quotes for every vault asset, with the source and timestamp of
+ * each, plus any admin overrides in place.
+ */
+export async function GET(): Promise<
+  NextResponse<{ quotes: PriceQuote[]; overrides: PriceOverride[] } | ErrorResponse>
+> {
+  try {
+    const prices = new PriceService();
+    const [quotes, overrides] = await Promise.all([prices.getQuotes(), prices.listOverrides()]);
+    return NextResponse.json({ quotes, overrides });
+  } catch (error) {
+    console.error("Get prices error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin: set a manual USD price for an asset. Body: { asset, usd, reason?, expiresAt? }
+ */
+export async function PUT(
+  request: NextRequest
+): Promise<NextResponse<PriceOverride | ErrorResponse>> {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { asset, usd, reason, expiresAt } = await request.json();
+
+    if (!asset || !VAULTS[asset as VaultAsset]) {
+      return NextResponse.json(
+        { error: `Invalid asset. Supported assets: ${Object.keys(VAULTS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (typeof usd !== "number" || !Number.isFinite(usd) || usd <= 0) {
+      return NextResponse.json({ error: "Invalid usd. Must be a positive number" }, { status: 400 });
+    }
+    if (reason !== undefined && typeof reason !== "string") {
+      return NextResponse.json({ error: "Invalid reason" }, { status: 400 });
+    }
+    if (expiresAt !== undefined && (typeof expiresAt !== "string" || isNaN(Date.parse(expiresAt)))) {
+      return NextResponse.json({ error: "Invalid expiresAt. Must be an ISO date" }, { status: 400 });
+    }
+
+    const override = await new PriceService().setOverride(asset, usd, {
+      reason,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+    });
+    return NextResponse.json(override);
+  } catch (error) {
+    console.error("Set price override error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin: remove the manual price of ?asset=, falling back to the oracle and static table.
+ */
+export async function DELETE(
+  request: NextRequest
+): Promise<NextResponse<{ success: boolean; asset: string } | ErrorResponse>> {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const asset = new URL(request.url).searchParams.get("asset");
+    if (!asset || !VAULTS[asset as VaultAsset]) {
+      return NextResponse.json(
+        { error: `Invalid asset. Supported assets: ${Object.keys(VAULTS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const removed = await new PriceService().removeOverride(asset as VaultAsset);
+    if (!removed) {
+      return NextResponse.json({ error: "No price override for asset" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, asset });
+  } catch (error) {
+    console.error("Remove price override error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
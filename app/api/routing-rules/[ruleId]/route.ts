@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidAddress } from "../../../../lib/utils";
+import { authorizeWalletRequest } from "../../../../lib/wallet-auth";
+import {
+  ROUTING_RULES_SCOPE,
+  RoutingRuleNotFoundError,
+  RoutingRuleService,
+  RoutingRuleValidationError,
+  type RoutingRuleInput,
+} from "../../../../lib/services/routing-rule.service";
+import type { ErrorResponse, RoutingRule } from "../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+function errorResponse(error: unknown, action: string): NextResponse<ErrorResponse> {
+  if (error instanceof RoutingRuleValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof RoutingRuleNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  console.error(`${action} routing rule error:`, error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : "Internal server error" },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+): Promise<NextResponse<RoutingRule | ErrorResponse>> {
+  try {
+    const userAddress = new URL(request.url).searchParams.get("userAddress");
+    if (!userAddress || !isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+    const denied = await authorizeWalletRequest(request, {
+      scope: ROUTING_RULES_SCOPE,
+      walletAddress: userAddress,
+      action: `get:${params.ruleId}`,
+    });
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const rule = await new RoutingRuleService().get(userAddress, params.ruleId);
+    if (!rule) {
+      throw new RoutingRuleNotFoundError(params.ruleId);
+    }
+    return NextResponse.json(rule);
+  } catch (error) {
+    return errorResponse(error, "Get");
+  }
+}
+
+/**
+ * Update the given fields of a rule; omitted fields are left unchanged.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+): Promise<NextResponse<RoutingRule | ErrorResponse>> {
+  try {
+    const { userAddress, ...input }: RoutingRuleInput & { userAddress?: string } = await request.json();
+    if (!userAddress || !isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+    const denied = await authorizeWalletRequest(request, {
+      scope: ROUTING_RULES_SCOPE,
+      walletAddress: userAddress,
+      action: `update:${params.ruleId}`,
+    });
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const rule = await new RoutingRuleService().update(userAddress, params.ruleId, input);
+    return NextResponse.json(rule);
+  } catch (error) {
+    return errorResponse(error, "Update");
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+): Promise<NextResponse<{ success: boolean; ruleId: string } | ErrorResponse>> {
+  try {
+    const userAddress = new URL(request.url).searchParams.get("userAddress");
+    if (!userAddress || !isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+    const denied = await authorizeWalletRequest(request, {
+      scope: ROUTING_RULES_SCOPE,
+      walletAddress: userAddress,
+      action: `delete:${params.ruleId}`,
+    });
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    await new RoutingRuleService().delete(userAddress, params.ruleId);
+    return NextResponse.json({ success: true, ruleId: params.ruleId });
+  } catch (error) {
+    return errorResponse(error, "Delete");
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidAddress } from "../../../../lib/utils";
+import { ROUTING_RULES_SCOPE, RoutingRuleService } from "../../../../lib/services/routing-rule.service";
+import { authorizeWalletRequest } from "../../../../lib/wallet-auth";
+import type { ErrorResponse, RoutingRuleAuditEntry } from "../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 100;
+
+/**
+ * Change history of a user's routing rules, newest first. Entries of deleted
+ * rules are kept.
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ entries: RoutingRuleAuditEntry[] } | ErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userAddress = searchParams.get("userAddress");
+    const ruleId = searchParams.get("ruleId") || undefined;
+
+    if (!userAddress || !isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+    const denied = await authorizeWalletRequest(request, {
+      scope: ROUTING_RULES_SCOPE,
+      walletAddress: userAddress,
+      action: "audit",
+    });
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const rawLimit = parseInt(searchParams.get("limit") || "50");
+    const limit = Math.min(isNaN(rawLimit) ? 50 : Math.max(1, rawLimit), MAX_LIMIT);
+
+    const entries = await new RoutingRuleService().getAuditTrail(userAddress, { ruleId, limit });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Routing rule audit lookup error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
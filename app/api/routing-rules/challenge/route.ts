@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidAddress } from "../../../../lib/utils";
+import { ROUTING_RULES_SCOPE } from "../../../../lib/services/routing-rule.service";
+import { issueWalletChallenge, type WalletChallenge } from "../../../../lib/wallet-auth";
+import type { ErrorResponse } from "../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Nonce for one routing rule request. The wallet signs
+ *
+ *   Authorize routing rules
+ *   walletAddress: <lowercased userAddress>
+ *   action: list | create | audit | get:<ruleId> | update:<ruleId> | delete:<ruleId>
+ *   nonce: <nonce>
+ *   issuedAt: <issuedAt>
+ *
+ * and sends it with the request as X-Wallet-Signature, X-Wallet-Nonce and
+ * X-Wallet-Issued-At.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<WalletChallenge | ErrorResponse>> {
+  try {
+    const { userAddress } = await request.json();
+    if (typeof userAddress !== "string" || !isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+
+    return NextResponse.json(await issueWalletChallenge(ROUTING_RULES_SCOPE, userAddress));
+  } catch (error) {
+    console.error("Routing rule challenge error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
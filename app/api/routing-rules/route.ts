@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidAddress } from "../../../lib/utils";
+import { authorizeWalletRequest } from "../../../lib/wallet-auth";
+import {
+  ROUTING_RULES_SCOPE,
+  RoutingRuleService,
+  RoutingRuleValidationError,
+  type RoutingRuleInput,
+} from "../../../lib/services/routing-rule.service";
+import type { ErrorResponse, RoutingRule } from "../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List a user's deposit routing rules in evaluation order. Every routing rule
+ * request is signed by the user's wallet (lib/wallet-auth.ts) with a nonce
+ * from POST /api/routing-rules/challenge.
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<{ rules: RoutingRule[] } | ErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userAddress = searchParams.get("userAddress");
+
+    if (!userAddress || !isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+    const denied = await authorizeWalletRequest(request, {
+      scope: ROUTING_RULES_SCOPE,
+      walletAddress: userAddress,
+      action: "list",
+    });
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const rules = await new RoutingRuleService().list(userAddress);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("List routing rules error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a routing rule. Without a priority it is evaluated after the user's
+ * existing rules.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<RoutingRule | ErrorResponse>> {
+  try {
+    const { userAddress, ...input }: RoutingRuleInput & { userAddress?: string } = await request.json();
+
+    if (!userAddress || !isValidAddress(userAddress)) {
+      return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+    }
+    const denied = await authorizeWalletRequest(request, {
+      scope: ROUTING_RULES_SCOPE,
+      walletAddress: userAddress,
+      action: "create",
+    });
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const rule = await new RoutingRuleService().create(userAddress, input);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoutingRuleValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create routing rule error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
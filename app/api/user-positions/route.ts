@@ -4,7 +4,6 @@ import { v4 as uuidv4 } from "uuid";
 import { VAULTS, CONTRACTS, GOAL_MANAGER_ABI } from "../../../lib/constants";
 import {
   createProvider,
-  createBackendWallet,
   formatAmountForDisplay,
   getContractCompliantTargetDate,
   isValidAddress,
@@ -14,7 +13,22 @@ import {
 import { getMetaGoalsCollection } from "../../../lib/database";
 import { BlockchainService } from "../../../lib/services/blockchain.service";
 import { DepositService } from "../../../lib/services/deposit.service";
+import { TransactionSubmitter } from "../../../lib/services/transaction-submitter.service";
+import { PriceService } from "../../../lib/services/price.service";
+import { ActivityLogService } from "../../../lib/services/activity-log.service";
+import { ComplianceError, ComplianceService } from "../../../lib/services/compliance.service";
+import { TierLimitError, TierService } from "../../../lib/services/tier.service";
+import { GoalMembershipError, GoalMembershipService } from "../../../lib/services/goal-membership.service";
+import {
+  AllocationService,
+  AllocationValidationError,
+} from "../../../lib/services/allocation.service";
 import { RequestValidator } from "../../../lib/validators/request.validator";
+import {
+  OnrampPayloadError,
+  OnrampSignatureError,
+  resolveOnrampEvent,
+} from "../../../lib/onramp";
 import type {
   ErrorResponse,
   AssetBalance,
@@ -185,6 +199,13 @@ export async function POST(
         );
     }
   } catch (error) {
+    if (
+      error instanceof ComplianceError ||
+      error instanceof TierLimitError ||
+      error instanceof GoalMembershipError
+    ) {
+      return NextResponse.json(error.toResponse(), { status: 403 });
+    }
     console.error("❌ POST method error:", error);
     return NextResponse.json(
       {
@@ -213,12 +234,16 @@ async function handleCreateGoal(request: NextRequest) {
     return NextResponse.json({ error: validation.error }, { status: 400 });
   }
 
+  // Personal goals have no visibility setting and are listed publicly
+  await new ComplianceService().check({ action: "create_goal", userAddress: creatorAddress, isPublic: true });
+  const headroom = await new TierService().assertGoalCreation(creatorAddress);
+
   const provider = createProvider();
-  const backendWallet = createBackendWallet(provider);
+  const submitter = new TransactionSubmitter(provider);
   const goalManager = new ethers.Contract(
     CONTRACTS.GOAL_MANAGER,
     GOAL_MANAGER_ABI,
-    backendWallet
+    provider
   );
 
   const targetVaults: VaultAsset[] =
@@ -242,30 +267,23 @@ async function handleCreateGoal(request: NextRequest) {
     parsedTargetDate = getContractCompliantTargetDate();
   }
 
-  const nonce = await backendWallet.getNonce();
-  const txPromises = targetVaults.map(async (asset, index) => {
+  // The submitter assigns nonces, so the goals can be created concurrently
+  const prices = new PriceService();
+  const txPromises = targetVaults.map(async (asset) => {
     const vaultConfig = VAULTS[asset];
-    const normalizedAmount = parseFloat(targetAmountUSD.toString()).toFixed(
-      vaultConfig.decimals
-    );
-    const targetAmountWei = ethers.parseUnits(
-      normalizedAmount,
-      vaultConfig.decimals
-    );
-    const tx = await goalManager.createGoalFor(
+    const targetAmountWei = await prices.fromUSD(asset, parseFloat(targetAmountUSD.toString()));
+    const { hash, receipt } = await submitter.send(goalManager, "createGoalFor", [
       creatorAddress,
       vaultConfig.address,
       targetAmountWei,
       parsedTargetDate,
       name,
-      { nonce: nonce + index }
-    );
-    const receipt = await tx.wait();
+    ]);
     const goalEvent = findEventInLogs(receipt.logs, goalManager, "GoalCreated");
     return {
       asset,
       goalId: goalEvent?.args.goalId.toString() || "",
-      txHash: tx.hash,
+      txHash: hash,
     };
   });
 
@@ -291,6 +309,7 @@ async function handleCreateGoal(request: NextRequest) {
 
   const collection = await getMetaGoalsCollection();
   await collection.insertOne(metaGoal as MetaGoal);
+  await new ActivityLogService().recordMetaGoalCreated(metaGoal);
 
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
   const shareLink = `${baseUrl}/goals/${metaGoalId}`;
@@ -301,6 +320,7 @@ async function handleCreateGoal(request: NextRequest) {
     onChainGoals,
     txHashes,
     shareLink,
+    headroom,
   });
 }
 
@@ -313,6 +333,7 @@ async function handleCreateGroupGoal(request: NextRequest) {
     creatorAddress,
     vaults,
     isPublic,
+    membershipRequirements,
   } = body;
 
   if (!name || !targetAmountUSD || !creatorAddress) {
@@ -328,13 +349,24 @@ async function handleCreateGroupGoal(request: NextRequest) {
   if (!validation.valid) {
     return NextResponse.json({ error: validation.error }, { status: 400 });
   }
+  const requirementsValidation = RequestValidator.validateMembershipRequirements(membershipRequirements);
+  if (!requirementsValidation.valid) {
+    return NextResponse.json({ error: requirementsValidation.error }, { status: 400 });
+  }
+
+  await new ComplianceService().check({
+    action: "create_goal",
+    userAddress: creatorAddress,
+    isPublic: isPublic ?? true,
+  });
+  const headroom = await new TierService().assertGoalCreation(creatorAddress);
 
   const provider = createProvider();
-  const backendWallet = createBackendWallet(provider);
+  const submitter = new TransactionSubmitter(provider);
   const goalManager = new ethers.Contract(
     CONTRACTS.GOAL_MANAGER,
     GOAL_MANAGER_ABI,
-    backendWallet
+    provider
   );
 
   const targetVaults: VaultAsset[] =
@@ -358,30 +390,23 @@ async function handleCreateGroupGoal(request: NextRequest) {
     parsedTargetDate = getContractCompliantTargetDate();
   }
 
-  const nonce = await backendWallet.getNonce();
-  const txPromises = targetVaults.map(async (asset, index) => {
+  // The submitter assigns nonces, so the goals can be created concurrently
+  const prices = new PriceService();
+  const txPromises = targetVaults.map(async (asset) => {
     const vaultConfig = VAULTS[asset];
-    const normalizedAmount = parseFloat(targetAmountUSD.toString()).toFixed(
-      vaultConfig.decimals
-    );
-    const targetAmountWei = ethers.parseUnits(
-      normalizedAmount,
-      vaultConfig.decimals
-    );
-    const tx = await goalManager.createGoalFor(
+    const targetAmountWei = await prices.fromUSD(asset, parseFloat(targetAmountUSD.toString()));
+    const { hash, receipt } = await submitter.send(goalManager, "createGoalFor", [
       creatorAddress,
       vaultConfig.address,
       targetAmountWei,
       parsedTargetDate,
       name,
-      { nonce: nonce + index }
-    );
-    const receipt = await tx.wait();
+    ]);
     const goalEvent = findEventInLogs(receipt.logs, goalManager, "GoalCreated");
     return {
       asset,
       goalId: goalEvent?.args.goalId.toString() || "",
-      txHash: tx.hash,
+      txHash: hash,
     };
   });
 
@@ -403,12 +428,20 @@ async function handleCreateGroupGoal(request: NextRequest) {
     isPublic: isPublic ?? true,
     participants: [creatorAddress.toLowerCase()],
     invitedUsers: isPublic ? undefined : [],
+    memberLimit: headroom.limits.maxGroupSize,
+    membershipRequirements: membershipRequirements && {
+      ...membershipRequirements,
+      ...(membershipRequirements.allowedNationalities && {
+        allowedNationalities: membershipRequirements.allowedNationalities.map((code: string) => code.toUpperCase()),
+      }),
+    },
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
 
   const collection = await getMetaGoalsCollection();
   await collection.insertOne(metaGoal);
+  await new ActivityLogService().recordMetaGoalCreated(metaGoal);
 
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
   const shareLink = `${baseUrl}/goals/${metaGoalId}`;
@@ -419,6 +452,7 @@ async function handleCreateGroupGoal(request: NextRequest) {
     onChainGoals,
     txHashes,
     shareLink,
+    headroom,
   });
 }
 
@@ -453,8 +487,23 @@ async function handleJoinGoal(request: NextRequest) {
     );
   }
 
+  const collection = await getMetaGoalsCollection();
+  const metaGoal = (await collection.findOne({
+    [`onChainGoals.${asset}`]: goalId,
+  })) as (MetaGoal & { participants?: string[] }) | null;
+  const membership = new GoalMembershipService();
+  if (metaGoal) {
+    await membership.assertEligible(metaGoal, userAddress);
+    if (metaGoal.participants && GoalMembershipService.isFull(metaGoal, userAddress)) {
+      return NextResponse.json(
+        { error: `This group is limited to ${metaGoal.memberLimit} members` },
+        { status: 403 }
+      );
+    }
+  }
+
   const provider = createProvider();
-  const backendWallet = createBackendWallet(provider);
+  const submitter = new TransactionSubmitter(provider);
 
   const receipt = await waitForTransactionReceipt(provider, depositTxHash);
   if (!receipt || !receipt.status) {
@@ -478,38 +527,30 @@ async function handleJoinGoal(request: NextRequest) {
     );
   }
 
-  const goalManager = blockchainService.getGoalManager(backendWallet);
-  const leaderboard = blockchainService.getLeaderboard(backendWallet);
+  const goalManager = blockchainService.getGoalManager();
+  const leaderboard = blockchainService.getLeaderboard();
+  const score = await new PriceService().toScoreUnits(asset, depositEvent.args.amount);
 
-  const [attachTx, scoreTx] = await Promise.all([
-    goalManager.attachDepositsOnBehalf(goalId, userAddress, [
-      depositEvent.args.depositId.toString(),
+  const [attachTx] = await Promise.all([
+    submitter.send(goalManager, "attachDepositsOnBehalf", [
+      goalId,
+      userAddress,
+      [depositEvent.args.depositId.toString()],
     ]),
-    leaderboard.recordDepositOnBehalf(
+    submitter.send(leaderboard, "recordDepositOnBehalf", [
       userAddress,
-      depositEvent.args.amount.toString()
-    ),
+      score,
+    ]),
   ]);
 
-  await Promise.all([attachTx.wait(), scoreTx.wait()]);
-
-  const collection = await getMetaGoalsCollection();
-  const metaGoal = (await collection.findOne({
-    [`onChainGoals.${asset}`]: goalId,
-  })) as (MetaGoal & { participants?: string[] }) | null;
-
+  // Checked again in the update, as another member may have joined meanwhile
   if (
     metaGoal &&
     metaGoal.participants &&
-    !metaGoal.participants.includes(userAddress.toLowerCase())
+    !metaGoal.participants.includes(userAddress.toLowerCase()) &&
+    !(await membership.addParticipant(metaGoal.metaGoalId, userAddress))
   ) {
-    await collection.updateOne(
-      { metaGoalId: metaGoal.metaGoalId },
-      {
-        $addToSet: { participants: userAddress.toLowerCase() },
-        $set: { updatedAt: new Date().toISOString() },
-      }
-    );
+    console.warn("Group is full, depositor not added as a participant:", metaGoal.metaGoalId, userAddress);
   }
 
   return NextResponse.json({
@@ -527,8 +568,10 @@ async function handleJoinGoal(request: NextRequest) {
 }
 
 async function handleAllocate(request: NextRequest) {
-  const body = await request.json();
-  const { asset, userAddress, amount, txHash, targetGoalId, providerPayload } = body;
+  // The onramp signature covers the body exactly as sent
+  const rawBody = await request.text();
+  const body = JSON.parse(rawBody);
+  const { asset, userAddress, amount, txHash, targetGoalId, metaGoalId, providerPayload } = body;
 
   if (!asset || !userAddress || !amount || !txHash || !providerPayload) {
     return NextResponse.json(
@@ -537,38 +580,21 @@ async function handleAllocate(request: NextRequest) {
     );
   }
 
-  if (
-    providerPayload === null ||
-    typeof providerPayload !== "object" ||
-    Array.isArray(providerPayload)
-  ) {
-    return NextResponse.json(
-      { error: "Invalid providerPayload: expected object" },
-      { status: 400 }
-    );
-  }
-
-  const providerTxCode = (() => {
-    const payload = providerPayload as {
-      transaction_code?: unknown;
-      data?: { transaction_code?: unknown };
-    };
-    if (typeof payload.transaction_code === "string") {
-      return payload.transaction_code;
+  try {
+    resolveOnrampEvent({
+      providerId: body.providerId,
+      payload: providerPayload,
+      rawBody,
+      signature: request.headers.get("x-onramp-signature"),
+    });
+  } catch (error) {
+    if (error instanceof OnrampSignatureError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
     }
-    if (typeof payload.data?.transaction_code === "string") {
-      return payload.data.transaction_code;
+    if (error instanceof OnrampPayloadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
-    return undefined;
-  })();
-
-  if (!providerTxCode) {
-    return NextResponse.json(
-      {
-        error: "Missing provider transaction code. providerPayload must include transaction_code",
-      },
-      { status: 400 }
-    );
+    throw error;
   }
 
   if (!txHash.match(/^0x[0-9a-fA-F]{64}$/)) {
@@ -588,208 +614,43 @@ async function handleAllocate(request: NextRequest) {
     );
   }
 
-  const provider = createProvider();
-  const backendWallet = createBackendWallet(provider);
-
-  const receipt = await waitForTransactionReceipt(provider, txHash);
-  if (!receipt || !receipt.status) {
+  if (!/^\d+$/.test(String(amount).trim())) {
     return NextResponse.json(
-      { error: "Transaction not found or failed" },
+      { error: "Invalid amount. Must be a raw integer string (e.g., '1000000')" },
       { status: 400 }
     );
   }
 
-  const blockchainService = new BlockchainService(provider);
-  const vault = blockchainService.getVault(vaultConfig.address, backendWallet);
-  const depositEvent = findEventInLogs(receipt.logs, vault, "Deposited");
-
-  if (!depositEvent) {
-    return NextResponse.json(
-      { error: "Failed to parse deposit event" },
-      { status: 500 }
-    );
-  }
-
-  if (depositEvent.args.user.toLowerCase() !== userAddress.toLowerCase()) {
-    return NextResponse.json(
-      {
-        error: "User mismatch",
-        details: `Deposit belongs to ${depositEvent.args.user}, but request is for ${userAddress}`,
-      },
-      { status: 400 }
-    );
-  }
-
-  const goalManager = blockchainService.getGoalManager();
-  const goalManagerWrite = blockchainService.getGoalManager(backendWallet);
-  const leaderboard = blockchainService.getLeaderboard(backendWallet);
-
-  let attachedGoalId = targetGoalId
-    ? BigInt(targetGoalId)
-    : await goalManager.getQuicksaveGoal(vaultConfig.address, userAddress);
+  await new ComplianceService().check({
+    action: "allocate",
+    userAddress,
+    asset: asset as VaultAsset,
+    amountWei: String(amount).trim(),
+  });
+  await new GoalMembershipService().assertCanAllocate(
+    { asset: asset as VaultAsset, metaGoalId, targetGoalId },
+    userAddress
+  );
 
-  if (attachedGoalId.toString() === "0") {
-    const createTx = await goalManagerWrite.createQuicksaveGoalFor(
+  try {
+    const response = await new AllocationService("direct").allocateDirect({
+      asset: asset as VaultAsset,
       userAddress,
-      vaultConfig.address
-    );
-    const createReceipt = await createTx.wait();
-    const goalEvent = findEventInLogs(
-      createReceipt.logs,
-      goalManagerWrite,
-      "GoalCreated"
-    );
-    if (goalEvent) {
-      attachedGoalId = goalEvent.args.goalId;
-    }
-  }
-
-  if (attachedGoalId !== BigInt(0)) {
-    const goalInfo = await goalManager.goals(attachedGoalId);
-    const [, , goalVault, , , , , cancelled, completed] = goalInfo;
-
-    if (goalVault.toLowerCase() !== vaultConfig.address.toLowerCase()) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Vault mismatch",
-          details: `Goal ${attachedGoalId} is for vault ${goalVault}, but deposit is in vault ${vaultConfig.address}`,
-          depositId: depositEvent.args.depositId.toString(),
-          goalId: attachedGoalId.toString(),
-        },
-        { status: 400 }
-      );
-    }
-
-    if (cancelled) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Goal is cancelled",
-          depositId: depositEvent.args.depositId.toString(),
-          goalId: attachedGoalId.toString(),
-        },
-        { status: 400 }
-      );
-    }
-
-    if (completed) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Goal is already completed",
-          depositId: depositEvent.args.depositId.toString(),
-          goalId: attachedGoalId.toString(),
-        },
-        { status: 400 }
-      );
-    }
-
-    const existingGoalId = await goalManager.depositToGoal(
-      ethers.solidityPackedKeccak256(
-        ["address", "uint256"],
-        [userAddress, depositEvent.args.depositId]
-      )
-    );
-    if (existingGoalId !== BigInt(0)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Deposit already attached to another goal",
-          details: `Deposit ${depositEvent.args.depositId} is already attached to goal ${existingGoalId}`,
-          depositId: depositEvent.args.depositId.toString(),
-          goalId: attachedGoalId.toString(),
-          existingGoalId: existingGoalId.toString(),
-        },
-        { status: 400 }
-      );
-    }
-
-    try {
-      const vaultContract = new ethers.Contract(
-        vaultConfig.address,
-        [
-          "function getUserDeposit(address,uint256) view returns (uint256,uint256,uint256,uint256,bool)",
-          "function depositCount(address) view returns (uint256)",
-        ],
-        provider
-      );
-      const depositCount = await vaultContract.depositCount(userAddress);
-
-      if (depositEvent.args.depositId >= depositCount) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: "Invalid deposit ID",
-            details: `Deposit ID ${
-              depositEvent.args.depositId
-            } is out of range. User has ${depositCount} deposits (IDs 0-${
-              depositCount - 1
-            })`,
-            depositId: depositEvent.args.depositId.toString(),
-            goalId: attachedGoalId.toString(),
-          },
-          { status: 400 }
-        );
-      }
-
-      const [shares] = await vaultContract.getUserDeposit(
-        userAddress,
-        depositEvent.args.depositId
-      );
-
-      if (shares === BigInt(0)) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: "Deposit not found in vault",
-            details: `Deposit ${depositEvent.args.depositId} does not exist for user ${userAddress} in vault ${vaultConfig.address}`,
-            depositId: depositEvent.args.depositId.toString(),
-            goalId: attachedGoalId.toString(),
-          },
-          { status: 400 }
-        );
-      }
-
-      const attachTx = await goalManagerWrite.attachDepositsOnBehalf(
-        attachedGoalId,
-        depositEvent.args.user,
-        [depositEvent.args.depositId.toString()]
-      );
-      await attachTx.wait();
-    } catch (error) {
-      console.log(
-        "Attachment failed:",
-        error instanceof Error ? error.message : String(error)
-      );
+      txHash,
+      amount: String(amount).trim(),
+      targetGoalId,
+      metaGoalId,
+    });
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof AllocationValidationError) {
       return NextResponse.json(
-        {
-          success: false,
-          error: "Attachment failed",
-          details: error instanceof Error ? error.message : "Attachment failed",
-          depositId: depositEvent.args.depositId.toString(),
-          goalId: attachedGoalId.toString(),
-        },
+        { success: false, error: error.message, ...error.details },
         { status: 400 }
       );
     }
+    throw error;
   }
-
-  const scoreTx = await leaderboard.recordDepositOnBehalf(userAddress, amount);
-  await scoreTx.wait();
-
-  return NextResponse.json({
-    success: true,
-    depositId: depositEvent.args.depositId.toString(),
-    goalId: attachedGoalId.toString(),
-    shares: depositEvent.args.shares.toString(),
-    formattedShares: formatAmountForDisplay(
-      depositEvent.args.shares.toString(),
-      vaultConfig.decimals,
-      4
-    ),
-    allocationTxHash: txHash,
-  });
 }
 
 async function handleGetGroupGoalMembers(request: NextRequest) {
@@ -900,6 +761,7 @@ function mergeGroupGoalMembers(
 
 async function fetchGroupGoalMembers(metaGoal: MetaGoal) {
   const provider = createProvider();
+  const prices = new PriceService();
   const goalManager = new ethers.Contract(
     CONTRACTS.GOAL_MANAGER,
     GOAL_MANAGER_ABI,
@@ -937,9 +799,7 @@ async function fetchGroupGoalMembers(metaGoal: MetaGoal) {
         attachment.owner,
         attachment.depositId
       );
-      const contributionUSD = parseFloat(
-        formatAmountForDisplay(currentValue.toString(), vaultConfig.decimals)
-      );
+      const contributionUSD = await prices.toUSD(asset as VaultAsset, currentValue);
 
       if (!memberStats[owner]) {
         memberStats[owner] = {
@@ -1014,11 +874,11 @@ async function handleCancelGoal(request: NextRequest) {
   }
 
   const provider = createProvider();
-  const backendWallet = createBackendWallet(provider);
+  const submitter = new TransactionSubmitter(provider);
   const goalManager = new ethers.Contract(
     CONTRACTS.GOAL_MANAGER,
     GOAL_MANAGER_ABI,
-    backendWallet
+    provider
   );
 
   const cancelledGoals: Record<string, string> = {};
@@ -1045,9 +905,8 @@ async function handleCancelGoal(request: NextRequest) {
         continue;
       }
 
-      const tx = await goalManager.cancelGoal(goalId);
-      await tx.wait();
-      cancelledGoals[asset] = tx.hash;
+      const { hash } = await submitter.send(goalManager, "cancelGoal", [goalId]);
+      cancelledGoals[asset] = hash;
     } catch (error) {
       errors[asset] = error instanceof Error ? error.message : "Unknown error";
     }
@@ -1241,6 +1100,8 @@ async function handleGetGroupGoalDetails(request: NextRequest) {
     goalName: metaGoal.name,
     targetAmountUSD: metaGoal.targetAmountUSD,
     goalIds: metaGoal.onChainGoals,
+    memberLimit: metaGoal.memberLimit ?? null,
+    membershipRequirements: metaGoal.membershipRequirements ?? null,
     balances,
     transactions,
   });
@@ -1434,6 +1295,8 @@ async function handleInviteToGoal(request: NextRequest) {
     );
   }
 
+  await new ComplianceService().check({ action: "invite", userAddress: inviterAddress });
+
   if (metaGoal.isPublic !== false) {
     return NextResponse.json(
       { error: "Can only invite to private goals" },
@@ -1445,6 +1308,23 @@ async function handleInviteToGoal(request: NextRequest) {
     addr.toLowerCase()
   );
 
+  const membership = new GoalMembershipService();
+  for (const invitee of normalizedInvitees) {
+    await membership.assertEligible(metaGoal, invitee);
+  }
+
+  const members = new Set([
+    ...(metaGoal.participants || []),
+    ...(metaGoal.invitedUsers || []),
+    ...normalizedInvitees,
+  ]);
+  if (metaGoal.memberLimit && members.size > metaGoal.memberLimit) {
+    return NextResponse.json(
+      { error: `This group is limited to ${metaGoal.memberLimit} members` },
+      { status: 403 }
+    );
+  }
+
   await collection.updateOne(
     { metaGoalId },
     {
@@ -1452,6 +1332,7 @@ async function handleInviteToGoal(request: NextRequest) {
       $set: { updatedAt: new Date().toISOString() },
     }
   );
+  await new ActivityLogService().recordInvites(metaGoalId, inviterAddress, normalizedInvitees);
 
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
   const shareLink = `${baseUrl}/goals/${metaGoalId}`;
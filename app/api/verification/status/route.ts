@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TierService } from "../../../../lib/services/tier.service";
+import { VerificationStatusService } from "../../../../lib/services/verification-status.service";
+import { isValidAddress } from "../../../../lib/utils";
+import type { ErrorResponse, VerificationStatusResponse } from "../../../../lib/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * A wallet's Self verification status (verified, unverified or expired) with
+ * its disclosed attributes and re-verification deadline. Stored records are
+ * used; the Self hub is only consulted when none is valid, or with ?refresh=true.
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<VerificationStatusResponse | ErrorResponse>> {
+  const { searchParams } = new URL(request.url);
+  const userAddress = searchParams.get("userAddress");
+  const attestationId = searchParams.get("attestationId") || undefined;
+
+  if (!userAddress || !isValidAddress(userAddress)) {
+    return NextResponse.json({ error: "Valid userAddress is required" }, { status: 400 });
+  }
+  if (attestationId !== undefined && !/^\d+$/.test(attestationId)) {
+    return NextResponse.json({ error: "Invalid attestationId" }, { status: 400 });
+  }
+
+  try {
+    const verificationStatus = await new VerificationStatusService().getStatus(userAddress, {
+      attestationId,
+      refresh: searchParams.get("refresh") === "true",
+    });
+    const { walletAddress, status, verification, expiresAt, reverifyBy, reverificationDue } = verificationStatus;
+
+    return NextResponse.json({
+      walletAddress,
+      status,
+      tier: TierService.tierOf(verificationStatus),
+      attestationId: verification?.attestationId ?? null,
+      verifiedAt: verification ? new Date(verification.verifiedAt).toISOString() : null,
+      expiresAt: expiresAt?.toISOString() ?? null,
+      documentExpiresAt: verification?.documentExpiresAt
+        ? new Date(verification.documentExpiresAt).toISOString()
+        : null,
+      reverifyBy: reverifyBy?.toISOString() ?? null,
+      reverificationDue,
+      disclosures: verification
+        ? {
+            nationality: verification.nationality ?? null,
+            olderThan: verification.olderThan ?? null,
+            ofac: verification.ofac,
+          }
+        : null,
+      source: verification?.source ?? null,
+      transactionHash: verification?.transactionHash ?? null,
+      blockNumber: verification?.blockNumber ?? null,
+      checkedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Verification status error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SelfProofError, parseSelfPayload } from "../../../lib/self";
+import { IdentityLimitError } from "../../../lib/services/identity.service";
+import { SelfVerificationService } from "../../../lib/services/self-verification.service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Verification callback for the Self app. The proof is validated by the
+ * configured verifier (SELF_VERIFIER), stored as a SelfVerification and
+ * verification XP is awarded. Responses follow the shape the Self app expects.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { payload } = parseSelfPayload(body);
+
+    const endpoint = process.env.NEXT_PUBLIC_SELF_ENDPOINT || request.nextUrl.origin + request.nextUrl.pathname;
+    const { verification, identity, xp } = await new SelfVerificationService().verify(payload, endpoint);
+
+    return NextResponse.json({
+      status: "success",
+      result: true,
+      credentialSubject: {
+        walletAddress: verification.walletAddress,
+        attestationId: verification.attestationId,
+        nationality: verification.nationality,
+        olderThan: verification.olderThan,
+        ofac: verification.ofac,
+        verifiedAt: verification.verifiedAt,
+      },
+      humanId: identity.humanId,
+      linkedWallets: identity.wallets.length,
+      xp,
+    });
+  } catch (error) {
+    if (error instanceof SelfProofError) {
+      return NextResponse.json({ status: "error", result: false, reason: error.message }, { status: 400 });
+    }
+    if (error instanceof IdentityLimitError) {
+      return NextResponse.json({ status: "error", result: false, reason: error.message }, { status: 403 });
+    }
+    console.error("Self verification error:", error);
+    return NextResponse.json(
+      { status: "error", result: false, reason: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
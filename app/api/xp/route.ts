@@ -1,33 +1,150 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createProvider } from "../../../lib/utils";
-import { getUserXPCollection, connectToDatabase } from "../../../lib/database";
+import { createProvider, isValidAddress } from "../../../lib/utils";
+import { getUserXPCollection, getSelfVerificationsCollection } from "../../../lib/database";
+import { isAdminRequest } from "../../../lib/admin";
 import { XPService } from "../../../lib/services/xp.service";
-import type { SelfVerification } from "../../../lib/types";
+import { XPLedgerQueryError, XPLedgerService } from "../../../lib/services/xp-ledger.service";
+import { ActivityLogService } from "../../../lib/services/activity-log.service";
+import { IdentityLimitError, IdentityService } from "../../../lib/services/identity.service";
+import {
+  XP_LEADERBOARD_PERIODS,
+  XPLeaderboardQueryError,
+  XPLeaderboardService,
+} from "../../../lib/services/xp-leaderboard.service";
+import { XP_RULE_SETS, getXPRuleSet } from "../../../lib/xp";
+import type { UserXP, XPHistoryResponse, XPLeaderboardPeriod } from "../../../lib/types";
 
 export const dynamic = 'force-dynamic';
 
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+const DEFAULT_LEADERBOARD_LIMIT = 100;
+const MAX_LEADERBOARD_LIMIT = 100;
+const MAX_NEIGHBOURS = 25;
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const userAddress = searchParams.get("userAddress");
     const action = searchParams.get("action");
 
+    // period: all_time (default), weekly, monthly or season (?seasonId=, else the running one);
+    // ?at= picks the week, month or season containing that date. With ?userAddress=
+    // returns the wallet's rank and up to ?neighbours= wallets on each side of it.
     if (action === "leaderboard") {
-      const limit = parseInt(searchParams.get("limit") || "100");
-      const collection = await getUserXPCollection();
-      const leaderboard = await collection.find({}).sort({ totalXP: -1 }).limit(limit).toArray();
-      return NextResponse.json({ leaderboard });
+      const seasonId = searchParams.get("seasonId") || undefined;
+      const period = (searchParams.get("period") || (seasonId ? "season" : "all_time")) as XPLeaderboardPeriod;
+      if (!XP_LEADERBOARD_PERIODS.includes(period)) {
+        return NextResponse.json(
+          { error: `Invalid period parameter. Must be one of ${XP_LEADERBOARD_PERIODS.join(", ")}.` },
+          { status: 400 }
+        );
+      }
+      const atParam = searchParams.get("at");
+      const at = atParam ? new Date(atParam) : undefined;
+      if (at && isNaN(at.getTime())) {
+        return NextResponse.json({ error: "Invalid at parameter. Must be a date." }, { status: 400 });
+      }
+
+      const leaderboard = new XPLeaderboardService();
+      const window = leaderboard.resolveWindow(period, { seasonId, at });
+
+      if (userAddress) {
+        if (!isValidAddress(userAddress)) {
+          return NextResponse.json({ error: "Invalid userAddress" }, { status: 400 });
+        }
+        const neighbours = parseInt(searchParams.get("neighbours") || "2");
+        if (isNaN(neighbours) || neighbours < 0 || neighbours > MAX_NEIGHBOURS) {
+          return NextResponse.json(
+            { error: `Invalid neighbours parameter. Must be between 0 and ${MAX_NEIGHBOURS}.` },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json(await leaderboard.getRank(window, userAddress, neighbours));
+      }
+
+      const start = parseInt(searchParams.get("start") || "0");
+      const limit = parseInt(searchParams.get("limit") || String(DEFAULT_LEADERBOARD_LIMIT));
+      if (isNaN(start) || start < 0) {
+        return NextResponse.json(
+          { error: "Invalid start parameter. Must be a non-negative integer." },
+          { status: 400 }
+        );
+      }
+      if (isNaN(limit) || limit < 1 || limit > MAX_LEADERBOARD_LIMIT) {
+        return NextResponse.json(
+          { error: `Invalid limit parameter. Must be between 1 and ${MAX_LEADERBOARD_LIMIT}.` },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(await leaderboard.getRange(window, start, limit));
+    }
+
+    if (action === "seasons") {
+      return NextResponse.json({ seasons: await new XPLeaderboardService().listSeasons() });
+    }
+
+    if (action === "rules") {
+      return NextResponse.json({
+        activeVersion: getXPRuleSet().version,
+        versions: XP_RULE_SETS,
+      });
+    }
+
+    // Cached balances checked against the ledger sum; one user with ?userAddress=
+    if (action === "reconcile") {
+      if (!isAdminRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      const results = await new XPLedgerService().reconcile(userAddress || undefined);
+      return NextResponse.json({
+        consistent: results.every((result) => result.consistent),
+        mismatches: results.filter((result) => !result.consistent),
+        checked: results.length,
+      });
     }
 
     if (!userAddress) {
       return NextResponse.json({ error: "userAddress required" }, { status: 400 });
     }
+    const user = userAddress.toLowerCase();
+    const ledger = new XPLedgerService();
+
+    // Ledger entries newest first; pass nextCursor as ?cursor= for the next page
+    if (action === "history") {
+      const limit = parseInt(searchParams.get("limit") || String(DEFAULT_HISTORY_LIMIT));
+      if (Number.isNaN(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+        return NextResponse.json(
+          { error: `Invalid limit parameter. Must be between 1 and ${MAX_HISTORY_LIMIT}.` },
+          { status: 400 }
+        );
+      }
+      const page = await ledger.getHistory(user, { limit, cursor: searchParams.get("cursor") || undefined });
+      const userXP = await (await getUserXPCollection()).findOne({ userAddress: user });
+      const response: XPHistoryResponse = { userAddress: user, balance: userXP?.totalXP ?? 0, ...page };
+      return NextResponse.json(response);
+    }
 
     const collection = await getUserXPCollection();
-    const userXP = await collection.findOne({ userAddress: userAddress.toLowerCase() });
+    const userXP = await collection.findOne({ userAddress: user }, { projection: { xpHistory: 0 } });
+    // xpHistory keeps its shape for existing clients, from the latest ledger entries
+    const { entries } = await ledger.getHistory(user, { limit: DEFAULT_HISTORY_LIMIT });
+    const xpHistory: NonNullable<UserXP["xpHistory"]> = entries.map((entry) => ({
+      metaGoalId: entry.metaGoalId ?? entry.eventId ?? entry.idempotencyKey,
+      goalName: entry.goalName ?? entry.reason,
+      xpEarned: entry.delta,
+      contributionUSD: entry.contributionUSD ?? 0,
+      completedAt: entry.occurredAt,
+      eventId: entry.eventId,
+      ruleVersion: entry.ruleVersion,
+      rules: entry.rules,
+    }));
 
-    return NextResponse.json(userXP || { userAddress: userAddress.toLowerCase(), totalXP: 0, xpHistory: [] });
+    return NextResponse.json({ ...(userXP || { userAddress: user, totalXP: 0 }), xpHistory });
   } catch (error) {
+    if (error instanceof XPLedgerQueryError || error instanceof XPLeaderboardQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json({ error: error instanceof Error ? error.message : "Internal server error" }, { status: 500 });
   }
 }
@@ -35,33 +152,42 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { metaGoalId, attestationId, walletAddress } = body;
+    const { metaGoalId, attestationId, walletAddress, action } = body;
+
+    // Freezes the standings of an ended season; force retakes an existing snapshot
+    if (action === "snapshot-season") {
+      if (!isAdminRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      if (typeof body.seasonId !== "string") {
+        return NextResponse.json({ error: "seasonId required" }, { status: 400 });
+      }
+      const snapshot = await new XPLeaderboardService().snapshotSeason(body.seasonId, { force: body.force === true });
+      return NextResponse.json({ success: true, snapshot });
+    }
 
     if (attestationId && walletAddress) {
-      const db = await connectToDatabase();
-      
-      const collections = await db.listCollections().toArray();
-      const collectionNames = collections.map(c => c.name);
-      
-      const collectionName = collectionNames.find(name => 
-        name.toLowerCase() === "selfverifications"
-      ) || "SelfVerifications";
-      
-      const verification = await db.collection<SelfVerification>(collectionName).findOne({ 
-        attestationId,
-        walletAddress
+      const verifications = await getSelfVerificationsCollection();
+      const verification = await verifications.findOne({
+        attestationId: String(attestationId),
+        walletAddress: { $in: [walletAddress, walletAddress.toLowerCase()] },
       });
-      
+
       if (!verification) {
-        return NextResponse.json({ 
-          error: "Verification not found",
-          debug: { attestationId, walletAddress, availableCollections: collectionNames }
-        }, { status: 404 });
+        return NextResponse.json({ error: "Verification not found" }, { status: 404 });
       }
 
+      await new ActivityLogService().recordIdentityVerified(walletAddress, {
+        attestationId: String(verification.attestationId),
+        nationality: verification.nationality,
+        timestamp: new Date(verification.verifiedAt).toISOString(),
+      });
+
       const provider = createProvider();
       const xpService = new XPService(provider);
-      const result = await xpService.awardSelfVerificationXP(walletAddress);
+      // Records written before identities were linked are linked here
+      await new IdentityService().link(verification.nullifier, walletAddress);
+      const result = await xpService.awardSelfVerificationXP(walletAddress, verification.nullifier);
 
       return NextResponse.json({ 
         success: true, 
@@ -76,10 +202,26 @@ export async function POST(request: NextRequest) {
 
     const provider = createProvider();
     const xpService = new XPService(provider);
+
+    // Reverses completion XP for deposits detached since the goal completed
+    if (action === "reverse-detached") {
+      const reversed = await xpService.reverseDetachedDeposits(metaGoalId);
+      if (!reversed) {
+        return NextResponse.json({ error: "Meta-goal not found" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, reversed });
+    }
+
     const result = await xpService.checkAndAwardXP(metaGoalId);
 
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof IdentityLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof XPLeaderboardQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json({ error: error instanceof Error ? error.message : "Internal server error" }, { status: 500 });
   }
 }
@@ -0,0 +1,18 @@
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * Admin endpoints require "Authorization: Bearer <ADMIN_API_KEY>". They are
+ * disabled when ADMIN_API_KEY is not set.
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const apiKey = process.env.ADMIN_API_KEY;
+  if (!apiKey) {
+    return false;
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(apiKey);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
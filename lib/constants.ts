@@ -7,6 +7,7 @@ export const CHAINS = {
     contracts: {
       GOAL_MANAGER: "0x449095A0e1f16D8Bcc2D140b9284F8006b931231",
       LEADERBOARD: "0x184196a6b0719c3A9d8F15c912467D7836baf50D",
+      SELF_VERIFICATION: "0xe57f4773bd9c9d8b6cd70431117d353298b9f5bf",
     },
     vaults: {
       USDC: {
@@ -62,6 +63,7 @@ export const GOAL_MANAGER_ABI = [
   "function attachmentCount(uint256 goalId) external view returns (uint256)",
   "function attachmentAt(uint256 goalId, uint256 index) external view returns (tuple(address owner, uint256 depositId, uint256 attachedAt, bool pledged))",
   "function depositToGoal(bytes32 key) external view returns (uint256)",
+  "function isMember(uint256 goalId, address user) external view returns (bool)",
   "event GoalCreated(uint256 indexed goalId, address indexed creator, address indexed vault, uint256 targetAmount, uint256 targetDate, string metadataURI)",
   "event DepositAttached(uint256 indexed goalId, address indexed owner, uint256 indexed depositId, uint256 attachedAt)",
   "event DepositDetached(uint256 indexed goalId, address indexed owner, uint256 indexed depositId, uint256 detachedAt)",
@@ -84,5 +86,9 @@ export const LEADERBOARD_ABI = [
   "function topList(uint256 index) external view returns (address)",
 ];
 
+// Self verification contract: DisclosureVerified(address indexed requestor, ...) topic
+export const DISCLOSURE_VERIFIED_TOPIC =
+  "0x14b70ae0a2b984327e9bcd235341661b8f8e6f4bb6d93a2c09707ca9d890cba2";
+
 // Leaderboard score decimals - based on USDC (6 decimals) as the base scoring unit
 export const LEADERBOARD_DECIMALS = 6;
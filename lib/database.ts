@@ -1,5 +1,25 @@
 import { MongoClient, Db, Collection } from "mongodb";
-import type { MetaGoal } from "./types";
+import type {
+  ActivityLogRecord,
+  AllocationBatch,
+  AllocationRecord,
+  AllocationRejection,
+  BackendTransaction,
+  Identity,
+  IndexedChainEvent,
+  IndexerCheckpoint,
+  LeaderboardScoreRecord,
+  MetaGoal,
+  NonceCounter,
+  PriceOverride,
+  RoutingRule,
+  RoutingRuleAuditEntry,
+  SelfVerification,
+  XPEvent,
+  XPLedgerEntry,
+  XPSeasonSnapshot,
+  XPSeasonStanding,
+} from "./types";
 
 let client: MongoClient | null = null;
 let db: Db | null = null;
@@ -80,6 +100,191 @@ async function ensureIndexes(database: Db): Promise<void> {
     { expiresAt: 1 },
     { expireAfterSeconds: 0, name: "expiresAt_ttl" }
   );
+  await database.collection("wallet_nonces").createIndex(
+    { expiresAt: 1 },
+    { expireAfterSeconds: 0, name: "expiresAt_ttl" }
+  );
+  await database.collection("allocations").createIndex(
+    { txHash: 1, providerTxCode: 1 },
+    { unique: true, name: "txHash_providerTxCode_unique" }
+  );
+  await database.collection("allocations").createIndex(
+    { allocationId: 1 },
+    { unique: true, name: "allocationId_unique" }
+  );
+  await database.collection("allocations").createIndex(
+    { txHash: 1, transferLogIndex: 1 },
+    {
+      unique: true,
+      partialFilterExpression: { transferLogIndex: { $exists: true } },
+      name: "txHash_transferLogIndex_unique",
+    }
+  );
+  await database.collection("allocations").createIndex(
+    { status: 1, updatedAt: 1 },
+    { name: "status_updatedAt" }
+  );
+  await database.collection("allocations").createIndex(
+    { batchId: 1 },
+    { name: "batchId", sparse: true }
+  );
+  await database.collection("allocations").createIndex(
+    { userAddress: 1, createdAt: -1 },
+    { name: "userAddress_createdAt" }
+  );
+  await database.collection("allocation_batches").createIndex(
+    { batchId: 1 },
+    { unique: true, name: "batchId_unique" }
+  );
+  await database.collection("allocation_rejections").createIndex(
+    { rejectionId: 1 },
+    { unique: true, name: "rejectionId_unique" }
+  );
+  await database.collection("allocation_rejections").createIndex(
+    { txHash: 1, createdAt: -1 },
+    { name: "txHash_createdAt" }
+  );
+  await database.collection("backend_transactions").createIndex(
+    { txId: 1 },
+    { unique: true, name: "txId_unique" }
+  );
+  await database.collection("backend_transactions").createIndex(
+    { hashes: 1 },
+    { name: "hashes" }
+  );
+  await database.collection("backend_transactions").createIndex(
+    { from: 1, status: 1, nonce: 1 },
+    { name: "from_status_nonce" }
+  );
+  await database.collection("nonce_counters").createIndex(
+    { address: 1 },
+    { unique: true, name: "address_unique" }
+  );
+  await database.collection("price_overrides").createIndex(
+    { asset: 1 },
+    { unique: true, name: "asset_unique" }
+  );
+  await database.collection("activity_log").createIndex(
+    { userAddress: 1, timestamp: -1, id: -1 },
+    { name: "userAddress_timestamp_id" }
+  );
+  await database.collection("activity_log").createIndex(
+    { key: 1 },
+    { unique: true, sparse: true, name: "key_unique" }
+  );
+  await database.collection("chain_events").createIndex(
+    { eventId: 1 },
+    { unique: true, name: "eventId_unique" }
+  );
+  await database.collection("chain_events").createIndex(
+    { contractId: 1, blockNumber: 1 },
+    { name: "contractId_blockNumber" }
+  );
+  await database.collection("chain_events").createIndex(
+    { users: 1, blockNumber: -1, logIndex: -1 },
+    { name: "users_blockNumber_logIndex" }
+  );
+  await database.collection("chain_events").createIndex(
+    { goalId: 1, blockNumber: -1 },
+    { sparse: true, name: "goalId_blockNumber" }
+  );
+  await database.collection("indexer_checkpoints").createIndex(
+    { contractId: 1 },
+    { unique: true, name: "contractId_unique" }
+  );
+  await database.collection("leaderboard_scores").createIndex(
+    { userAddress: 1 },
+    { unique: true, name: "userAddress_unique" }
+  );
+  await database.collection("leaderboard_scores").createIndex(
+    { scoreUSD: -1 },
+    { name: "scoreUSD_desc" }
+  );
+  await database.collection("routing_rules").createIndex(
+    { ruleId: 1 },
+    { unique: true, name: "ruleId_unique" }
+  );
+  await database.collection("routing_rules").createIndex(
+    { userAddress: 1, priority: 1 },
+    { name: "userAddress_priority" }
+  );
+  await database.collection("routing_rule_audit").createIndex(
+    { userAddress: 1, createdAt: -1 },
+    { name: "userAddress_createdAt" }
+  );
+  await database.collection("routing_rule_audit").createIndex(
+    { ruleId: 1, createdAt: -1 },
+    { name: "ruleId_createdAt" }
+  );
+  // Legacy records may hold duplicates or mixed-case wallets until
+  // scripts/dedupe-self-verifications.ts has run, which must not stop startup
+  try {
+    await database.collection("SelfVerifications").createIndex(
+      { walletAddress: 1, attestationId: 1 },
+      { unique: true, name: "walletAddress_attestationId_unique" }
+    );
+  } catch (error) {
+    console.error(
+      "❌ Failed to create SelfVerifications walletAddress_attestationId_unique index, run scripts/dedupe-self-verifications.ts:",
+      error instanceof Error ? error.message : error
+    );
+  }
+  await database.collection("SelfVerifications").createIndex(
+    { nullifier: 1 },
+    { name: "nullifier" }
+  );
+  await database.collection("identities").createIndex(
+    { nullifier: 1 },
+    { unique: true, name: "nullifier_unique" }
+  );
+  await database.collection("identities").createIndex(
+    { humanId: 1 },
+    { unique: true, name: "humanId_unique" }
+  );
+  await database.collection("identities").createIndex(
+    { wallets: 1 },
+    { name: "wallets" }
+  );
+  await database.collection("xp_events").createIndex(
+    { eventId: 1 },
+    { unique: true, name: "eventId_unique" }
+  );
+  await database.collection("xp_events").createIndex(
+    { userAddress: 1, occurredAt: 1 },
+    { name: "userAddress_occurredAt" }
+  );
+  await database.collection("xp_ledger").createIndex(
+    { idempotencyKey: 1 },
+    { unique: true, name: "idempotencyKey_unique" }
+  );
+  await database.collection("xp_ledger").createIndex(
+    { userAddress: 1, createdAt: -1, entryId: -1 },
+    { name: "userAddress_createdAt_entryId" }
+  );
+  await database.collection("xp_ledger").createIndex(
+    { eventId: 1 },
+    { name: "eventId", sparse: true }
+  );
+  await database.collection("xp_ledger").createIndex(
+    { occurredAt: 1, userAddress: 1 },
+    { name: "occurredAt_userAddress" }
+  );
+  await database.collection("user_xp").createIndex(
+    { totalXP: -1, userAddress: 1 },
+    { name: "totalXP_userAddress" }
+  );
+  await database.collection("xp_season_snapshots").createIndex(
+    { seasonId: 1 },
+    { unique: true, name: "seasonId_unique" }
+  );
+  await database.collection("xp_season_standings").createIndex(
+    { seasonId: 1, userAddress: 1 },
+    { unique: true, name: "seasonId_userAddress_unique" }
+  );
+  await database.collection("xp_season_standings").createIndex(
+    { seasonId: 1, rank: 1 },
+    { name: "seasonId_rank" }
+  );
 }
 
 export async function getMetaGoalsCollection(): Promise<Collection<MetaGoal>> {
@@ -92,6 +297,97 @@ export async function getUserXPCollection(): Promise<Collection<import("./types"
   return database.collection<import("./types").UserXP>("user_xp");
 }
 
+export async function getAllocationsCollection(): Promise<Collection<AllocationRecord>> {
+  const database = await connectToDatabase();
+  return database.collection<AllocationRecord>("allocations");
+}
+
+export async function getAllocationBatchesCollection(): Promise<Collection<AllocationBatch>> {
+  const database = await connectToDatabase();
+  return database.collection<AllocationBatch>("allocation_batches");
+}
+
+export async function getAllocationRejectionsCollection(): Promise<Collection<AllocationRejection>> {
+  const database = await connectToDatabase();
+  return database.collection<AllocationRejection>("allocation_rejections");
+}
+
+export async function getBackendTransactionsCollection(): Promise<Collection<BackendTransaction>> {
+  const database = await connectToDatabase();
+  return database.collection<BackendTransaction>("backend_transactions");
+}
+
+export async function getNonceCountersCollection(): Promise<Collection<NonceCounter>> {
+  const database = await connectToDatabase();
+  return database.collection<NonceCounter>("nonce_counters");
+}
+
+export async function getPriceOverridesCollection(): Promise<Collection<PriceOverride>> {
+  const database = await connectToDatabase();
+  return database.collection<PriceOverride>("price_overrides");
+}
+
+export async function getActivityLogCollection(): Promise<Collection<ActivityLogRecord>> {
+  const database = await connectToDatabase();
+  return database.collection<ActivityLogRecord>("activity_log");
+}
+
+export async function getChainEventsCollection(): Promise<Collection<IndexedChainEvent>> {
+  const database = await connectToDatabase();
+  return database.collection<IndexedChainEvent>("chain_events");
+}
+
+export async function getIndexerCheckpointsCollection(): Promise<Collection<IndexerCheckpoint>> {
+  const database = await connectToDatabase();
+  return database.collection<IndexerCheckpoint>("indexer_checkpoints");
+}
+
+export async function getLeaderboardScoresCollection(): Promise<Collection<LeaderboardScoreRecord>> {
+  const database = await connectToDatabase();
+  return database.collection<LeaderboardScoreRecord>("leaderboard_scores");
+}
+
+export async function getRoutingRulesCollection(): Promise<Collection<RoutingRule>> {
+  const database = await connectToDatabase();
+  return database.collection<RoutingRule>("routing_rules");
+}
+
+export async function getRoutingRuleAuditCollection(): Promise<Collection<RoutingRuleAuditEntry>> {
+  const database = await connectToDatabase();
+  return database.collection<RoutingRuleAuditEntry>("routing_rule_audit");
+}
+
+// Name kept from the records written by the original Self verification backend
+export async function getSelfVerificationsCollection(): Promise<Collection<SelfVerification>> {
+  const database = await connectToDatabase();
+  return database.collection<SelfVerification>("SelfVerifications");
+}
+
+export async function getIdentitiesCollection(): Promise<Collection<Identity>> {
+  const database = await connectToDatabase();
+  return database.collection<Identity>("identities");
+}
+
+export async function getXPEventsCollection(): Promise<Collection<XPEvent>> {
+  const database = await connectToDatabase();
+  return database.collection<XPEvent>("xp_events");
+}
+
+export async function getXPLedgerCollection(): Promise<Collection<XPLedgerEntry>> {
+  const database = await connectToDatabase();
+  return database.collection<XPLedgerEntry>("xp_ledger");
+}
+
+export async function getXPSeasonSnapshotsCollection(): Promise<Collection<XPSeasonSnapshot>> {
+  const database = await connectToDatabase();
+  return database.collection<XPSeasonSnapshot>("xp_season_snapshots");
+}
+
+export async function getXPSeasonStandingsCollection(): Promise<Collection<XPSeasonStanding>> {
+  const database = await connectToDatabase();
+  return database.collection<XPSeasonStanding>("xp_season_standings");
+}
+
 export async function closeConnection(): Promise<void> {
   if (client) {
     await client.close();
@@ -0,0 +1,44 @@
+import { toCsvLine } from "../csv";
+import type { ActivityExportRow } from "../types";
+import type { ExportWriter } from "./export-writer";
+
+const COLUMNS: Array<[string, (row: ActivityExportRow) => string | number | null]> = [
+  ["date", (row) => row.date],
+  ["type", (row) => row.type],
+  ["description", (row) => row.description],
+  ["direction", (row) => row.direction],
+  ["asset", (row) => row.asset],
+  ["token_amount", (row) => row.tokenAmount],
+  ["fiat_amount", (row) => row.fiatAmount],
+  ["fiat_currency", (row) => row.fiatCurrency],
+  ["rate", (row) => row.rate],
+  ["rate_source", (row) => row.rateSource],
+  ["rate_as_of", (row) => row.rateAsOf],
+  ["goal_id", (row) => row.goalId],
+  ["deposit_id", (row) => row.depositId],
+  ["counterparty", (row) => row.counterparty],
+  ["tx_hash", (row) => row.txHash],
+  ["block_number", (row) => row.blockNumber],
+  ["id", (row) => row.id],
+];
+
+/**
+ * One row per activity with a header line, for spreadsheets.
+ */
+export class CsvExportWriter implements ExportWriter {
+  readonly format = "csv";
+  readonly contentType = "text/csv; charset=utf-8";
+  readonly extension = "csv";
+
+  begin(): string {
+    return toCsvLine(COLUMNS.map(([name]) => name));
+  }
+
+  row(row: ActivityExportRow): string {
+    return toCsvLine(COLUMNS.map(([, value]) => value(row)));
+  }
+
+  end(): string {
+    return "";
+  }
+}
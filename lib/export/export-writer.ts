@@ -0,0 +1,22 @@
+import type { ActivityExportMeta, ActivityExportRow, ExportFormat } from "../types";
+
+/**
+ * Serializes an export in pieces so it can be streamed: begin, one chunk per
+ * row, end. A writer keeps per-export state, so use a new one for each export.
+ */
+export interface ExportWriter {
+  readonly format: ExportFormat;
+  readonly contentType: string;
+  readonly extension: string;
+  begin(meta: ActivityExportMeta): string;
+  /** Empty when the format has no place for the row. */
+  row(row: ActivityExportRow): string;
+  end(meta: ActivityExportMeta): string;
+}
+
+export class ExportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportFormatError";
+  }
+}
@@ -0,0 +1,67 @@
+import type { ActivityExportMeta, ActivityExportRow, ExportFormat } from "../types";
+import { CsvExportWriter } from "./csv.writer";
+import { ExportFormatError, type ExportWriter } from "./export-writer";
+import { JsonExportWriter } from "./json.writer";
+import { OfxExportWriter } from "./ofx.writer";
+
+export { ExportFormatError, type ExportWriter } from "./export-writer";
+export { CsvExportWriter } from "./csv.writer";
+export { JsonExportWriter } from "./json.writer";
+export { OfxExportWriter } from "./ofx.writer";
+
+const writers: Record<ExportFormat, () => ExportWriter> = {
+  csv: () => new CsvExportWriter(),
+  ofx: () => new OfxExportWriter(),
+  json: () => new JsonExportWriter(),
+};
+
+export const EXPORT_FORMATS = Object.keys(writers) as ExportFormat[];
+
+export function createExportWriter(format: string): ExportWriter {
+  const create = writers[format as ExportFormat];
+  if (!create) {
+    throw new ExportFormatError(`Unsupported export format: ${format}. Supported: ${EXPORT_FORMATS.join(", ")}`);
+  }
+  return create();
+}
+
+/**
+ * Stream rows through a writer, pulling the next row only when the consumer
+ * is ready for it. The first row is read before returning so that failures to
+ * load any data surface as an error rather than a truncated file.
+ */
+export async function streamExport(
+  writer: ExportWriter,
+  meta: ActivityExportMeta,
+  rows: AsyncIterable<ActivityExportRow>
+): Promise<ReadableStream<Uint8Array>> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  let pending: IteratorResult<ActivityExportRow> | null = await iterator.next();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(writer.begin(meta)));
+    },
+    // Each pull must enqueue something, so rows the writer skips are read past
+    async pull(controller) {
+      for (;;) {
+        const next = pending ?? (await iterator.next());
+        pending = null;
+        if (next.done) {
+          controller.enqueue(encoder.encode(writer.end(meta)));
+          controller.close();
+          return;
+        }
+        const chunk = writer.row(next.value);
+        if (chunk) {
+          controller.enqueue(encoder.encode(chunk));
+          return;
+        }
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import type { ActivityExportMeta, ActivityExportRow } from "../types";
+import type { ExportWriter } from "./export-writer";
+
+/**
+ * A single JSON document: { export: meta, rows: [...] }.
+ */
+export class JsonExportWriter implements ExportWriter {
+  readonly format = "json";
+  readonly contentType = "application/json; charset=utf-8";
+  readonly extension = "json";
+  private rowCount = 0;
+
+  begin(meta: ActivityExportMeta): string {
+    return `{"export":${JSON.stringify(meta)},"rows":[`;
+  }
+
+  row(row: ActivityExportRow): string {
+    return `${this.rowCount++ === 0 ? "" : ","}\n${JSON.stringify(row)}`;
+  }
+
+  end(): string {
+    return "\n]}\n";
+  }
+}
@@ -0,0 +1,88 @@
+import type { ActivityExportMeta, ActivityExportRow } from "../types";
+import type { ExportWriter } from "./export-writer";
+
+const BANK_ID = process.env.OFX_BANK_ID || "CELO";
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// OFX datetime, e.g. 20240131120000.000[0:GMT]
+function toOfxDate(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}` +
+    `.${pad(date.getUTCMilliseconds(), 3)}[0:GMT]`
+  );
+}
+
+/**
+ * OFX 2.2 bank statement in USD for accounting tools. Only cash movements
+ * (rows with a direction and a fiat amount) become transactions; the token
+ * amount and rate go in the memo. The ledger balance is the net of the
+ * exported transactions, not an account balance.
+ */
+export class OfxExportWriter implements ExportWriter {
+  readonly format = "ofx";
+  readonly contentType = "application/x-ofx; charset=utf-8";
+  readonly extension = "ofx";
+  private netAmount = 0;
+
+  begin(meta: ActivityExportMeta): string {
+    const accountId = meta.scope === "metaGoal" ? meta.metaGoalId : meta.userAddress;
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      "<OFX>",
+      "<SIGNONMSGSRSV1><SONRS>",
+      "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+      `<DTSERVER>${toOfxDate(meta.generatedAt)}</DTSERVER>`,
+      "<LANGUAGE>ENG</LANGUAGE>",
+      "</SONRS></SIGNONMSGSRSV1>",
+      "<BANKMSGSRSV1><STMTTRNRS>",
+      "<TRNUID>0</TRNUID>",
+      "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+      "<STMTRS>",
+      "<CURDEF>USD</CURDEF>",
+      `<BANKACCTFROM><BANKID>${escapeXml(BANK_ID)}</BANKID><ACCTID>${escapeXml(accountId || "")}</ACCTID><ACCTTYPE>SAVINGS</ACCTTYPE></BANKACCTFROM>`,
+      "<BANKTRANLIST>",
+      `<DTSTART>${toOfxDate(meta.from ?? new Date(0).toISOString())}</DTSTART>`,
+      `<DTEND>${toOfxDate(meta.to)}</DTEND>`,
+      "",
+    ].join("\n");
+  }
+
+  row(row: ActivityExportRow): string {
+    if (!row.direction || row.fiatAmount === null) {
+      return "";
+    }
+    const amount = row.direction === "out" ? -parseFloat(row.fiatAmount) : parseFloat(row.fiatAmount);
+    this.netAmount += amount;
+
+    const memo = `${row.description}: ${row.tokenAmount} ${row.asset} at ${row.rate} USD (${row.rateSource})`;
+    return [
+      "<STMTTRN>",
+      `<TRNTYPE>${row.direction === "in" ? "CREDIT" : "DEBIT"}</TRNTYPE>`,
+      `<DTPOSTED>${toOfxDate(row.date)}</DTPOSTED>`,
+      `<TRNAMT>${amount.toFixed(2)}</TRNAMT>`,
+      `<FITID>${escapeXml(row.id)}</FITID>`,
+      `<NAME>${escapeXml(row.type.slice(0, 32))}</NAME>`,
+      `<MEMO>${escapeXml(memo.slice(0, 255))}</MEMO>`,
+      "</STMTTRN>",
+      "",
+    ].join("\n");
+  }
+
+  end(meta: ActivityExportMeta): string {
+    return [
+      "</BANKTRANLIST>",
+      `<LEDGERBAL><BALAMT>${this.netAmount.toFixed(2)}</BALAMT><DTASOF>${toOfxDate(meta.to)}</DTASOF></LEDGERBAL>`,
+      "</STMTRS>",
+      "</STMTTRNRS></BANKMSGSRSV1>",
+      "</OFX>",
+      "",
+    ].join("\n");
+  }
+}
@@ -0,0 +1,45 @@
+import { getMetaGoalsCollection } from "./database";
+import { isValidAddress } from "./utils";
+import type { MetaGoal } from "./types";
+
+export interface GoalAccessDenied {
+  status: 401 | 403;
+  error: string;
+}
+
+/**
+ * Private goals are visible to their creator, participants and invited users.
+ * A user arriving through the creator's invite link (invitedBy) is added to
+ * the invited users. Returns null when access is granted.
+ */
+export async function authorizeMetaGoalAccess(
+  metaGoal: MetaGoal,
+  userAddress: string | null,
+  invitedBy: string | null
+): Promise<GoalAccessDenied | null> {
+  if (metaGoal.isPublic !== false) {
+    return null;
+  }
+  if (!userAddress) {
+    return { status: 401, error: "Authentication required for private goals." };
+  }
+
+  const normalizedUser = userAddress.toLowerCase();
+  const isCreator = metaGoal.creatorAddress.toLowerCase() === normalizedUser;
+  const isParticipant = metaGoal.participants?.includes(normalizedUser);
+  const isInvited = metaGoal.invitedUsers?.includes(normalizedUser);
+
+  if (invitedBy && !isInvited && !isCreator && !isParticipant) {
+    if (!isValidAddress(invitedBy) || invitedBy.toLowerCase() !== metaGoal.creatorAddress.toLowerCase()) {
+      return { status: 403, error: "Invalid invitation" };
+    }
+    const collection = await getMetaGoalsCollection();
+    await collection.updateOne(
+      { metaGoalId: metaGoal.metaGoalId },
+      { $addToSet: { invitedUsers: normalizedUser }, $set: { updatedAt: new Date().toISOString() } }
+    );
+  } else if (!isCreator && !isParticipant && !isInvited) {
+    return { status: 403, error: "Access denied. This is a private goal." };
+  }
+  return null;
+}
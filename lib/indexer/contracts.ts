@@ -0,0 +1,143 @@
+import { ethers } from "ethers";
+import {
+  CONTRACTS,
+  DISCLOSURE_VERIFIED_TOPIC,
+  GOAL_MANAGER_ABI,
+  VAULTS,
+  VAULT_ABI,
+} from "../constants";
+import type { VaultAsset } from "../types";
+
+export const GOAL_MANAGER_CONTRACT_ID = "goalManager";
+export const SELF_CONTRACT_ID = "self";
+
+export function vaultContractId(asset: VaultAsset): string {
+  return `vault:${asset}`;
+}
+
+// Address arguments that identify a participant, so events can be looked up per user
+const USER_ARGS = ["creator", "owner", "inviter", "invitee", "revoker", "member", "user", "requestor"];
+
+export interface DecodedEvent {
+  name: string;
+  args: Record<string, unknown>; // bigints as decimal strings
+  users: string[]; // lowercased
+  goalId?: string;
+}
+
+export interface IndexedContract {
+  id: string;
+  address: string;
+  topics?: string[]; // getLogs topic filter, all logs of the address when omitted
+  iface?: ethers.Interface; // set for ABI-decoded contracts so logs can be rehydrated
+  decode(log: ethers.Log): DecodedEvent | null;
+}
+
+function serializeArg(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return Array.from(value, serializeArg);
+  }
+  return value;
+}
+
+function abiContract(id: string, address: string, abi: string[]): IndexedContract {
+  const iface = new ethers.Interface(abi);
+  return {
+    id,
+    address,
+    iface,
+    decode(log) {
+      const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) {
+        return null;
+      }
+      const args: Record<string, unknown> = {};
+      const users = new Set<string>();
+      parsed.fragment.inputs.forEach((input, index) => {
+        args[input.name] = serializeArg(parsed.args[index]);
+        if (input.type === "address" && USER_ARGS.includes(input.name)) {
+          users.add(String(parsed.args[index]).toLowerCase());
+        }
+      });
+      return {
+        name: parsed.name,
+        args,
+        users: Array.from(users),
+        goalId: args.goalId as string | undefined,
+      };
+    },
+  };
+}
+
+export interface DisclosureVerification {
+  requestor: string;
+  attestationId: string;
+  userIdentifier: number;
+  nullifier: string;
+  forbiddenCountriesListPacked: number[];
+  nationality: string;
+  olderThan: number;
+  ofac: boolean[];
+  expiryDate: string; // document expiry as formatted by the hub (DD-MM-YY), empty when not disclosed
+}
+
+/**
+ * Decode a Self DisclosureVerified log. The contract ABI is not published, so
+ * the data layout is decoded by hand.
+ */
+export function decodeDisclosureVerified(log: { topics: readonly string[]; data: string }): DisclosureVerification {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const decodedData = coder.decode(["uint256", "bytes32", "uint256", "bytes", "bytes"], log.data);
+  const [verificationData] = coder.decode(
+    ["tuple(bytes32,uint256,uint256,uint256[4],string,string[],string,string,string,string,string,uint256,bool[3])"],
+    decodedData[3]
+  );
+
+  return {
+    requestor: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)).toLowerCase(),
+    attestationId: verificationData[0],
+    userIdentifier: Number(verificationData[1]),
+    nullifier: verificationData[2].toString(),
+    forbiddenCountriesListPacked: verificationData[3].map((n: bigint) => Number(n)),
+    nationality: verificationData[7],
+    olderThan: Number(verificationData[11]),
+    ofac: Array.from(verificationData[12] as boolean[]),
+    expiryDate: verificationData[10],
+  };
+}
+
+function selfContract(): IndexedContract {
+  return {
+    id: SELF_CONTRACT_ID,
+    address: CONTRACTS.SELF_VERIFICATION,
+    topics: [DISCLOSURE_VERIFIED_TOPIC],
+    decode(log) {
+      if (log.topics[0] !== DISCLOSURE_VERIFIED_TOPIC || log.topics.length < 2) {
+        return null;
+      }
+      const disclosure = decodeDisclosureVerified(log);
+      return {
+        name: "DisclosureVerified",
+        args: { ...disclosure },
+        users: [disclosure.requestor],
+      };
+    },
+  };
+}
+
+/**
+ * Every contract the event indexer follows: the GoalManager, each vault and
+ * the Self verification contract.
+ */
+export function getIndexedContracts(): IndexedContract[] {
+  return [
+    abiContract(GOAL_MANAGER_CONTRACT_ID, CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI),
+    ...(Object.keys(VAULTS) as VaultAsset[]).map((asset) =>
+      abiContract(vaultContractId(asset), VAULTS[asset].address, VAULT_ABI)
+    ),
+    selfContract(),
+  ];
+}
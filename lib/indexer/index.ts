@@ -0,0 +1,10 @@
+export {
+  GOAL_MANAGER_CONTRACT_ID,
+  SELF_CONTRACT_ID,
+  decodeDisclosureVerified,
+  getIndexedContracts,
+  vaultContractId,
+  type DecodedEvent,
+  type DisclosureVerification,
+  type IndexedContract,
+} from "./contracts";
@@ -0,0 +1,72 @@
+import type { OnrampEvent } from "../types";
+import { MpesaOnrampAdapter } from "./mpesa.adapter";
+import { OnrampPayloadError, type OnrampProviderAdapter } from "./onramp-adapter";
+
+export {
+  OnrampPayloadError,
+  OnrampSignatureError,
+  type OnrampProviderAdapter,
+} from "./onramp-adapter";
+export { MpesaOnrampAdapter } from "./mpesa.adapter";
+
+export const DEFAULT_ONRAMP_PROVIDER = "mpesa";
+
+const adapters = new Map<string, OnrampProviderAdapter>();
+
+export function registerOnrampAdapter(adapter: OnrampProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+registerOnrampAdapter(new MpesaOnrampAdapter());
+
+export function getOnrampAdapter(providerId: string = DEFAULT_ONRAMP_PROVIDER): OnrampProviderAdapter {
+  const adapter = adapters.get(providerId);
+  if (!adapter) {
+    throw new OnrampPayloadError(
+      `Unsupported onramp provider: ${providerId}. Supported: ${Array.from(adapters.keys()).join(", ")}`
+    );
+  }
+  return adapter;
+}
+
+/**
+ * Select the adapter for a provider id, check the webhook signature over the
+ * raw request body and normalize the payload.
+ */
+export function resolveOnrampEvent(params: {
+  providerId?: string;
+  payload: unknown;
+  rawBody: string;
+  signature: string | null;
+}): OnrampEvent {
+  const adapter = getOnrampAdapter(params.providerId || DEFAULT_ONRAMP_PROVIDER);
+  const payload = toPayloadObject(params.payload);
+
+  adapter.verifySignature(params.rawBody, params.signature);
+  return adapter.parse(payload);
+}
+
+/**
+ * Check the signature of a settlement batch once for the whole body. The
+ * returned adapter parses the individual items with parseOnrampPayload.
+ */
+export function verifyOnrampBatch(params: {
+  providerId?: string;
+  rawBody: string;
+  signature: string | null;
+}): OnrampProviderAdapter {
+  const adapter = getOnrampAdapter(params.providerId || DEFAULT_ONRAMP_PROVIDER);
+  adapter.verifySignature(params.rawBody, params.signature);
+  return adapter;
+}
+
+export function parseOnrampPayload(adapter: OnrampProviderAdapter, payload: unknown): OnrampEvent {
+  return adapter.parse(toPayloadObject(payload));
+}
+
+function toPayloadObject(payload: unknown): Record<string, unknown> {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new OnrampPayloadError("Invalid providerPayload: expected object");
+  }
+  return payload as Record<string, unknown>;
+}
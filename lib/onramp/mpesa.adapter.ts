@@ -0,0 +1,90 @@
+import { logger } from "../logger";
+import type { OnrampEvent, OnrampProviderStatus } from "../types";
+import {
+  OnrampPayloadError,
+  OnrampSignatureError,
+  getWebhookSecret,
+  isValidHmacSignature,
+  type OnrampProviderAdapter,
+} from "./onramp-adapter";
+
+const STATUS_MAP: Record<string, OnrampProviderStatus> = {
+  COMPLETE: "completed",
+  COMPLETED: "completed",
+  SUCCESS: "completed",
+  PENDING: "pending",
+  PROCESSING: "pending",
+  FAILED: "failed",
+  CANCELLED: "failed",
+  REVERSED: "reversed",
+};
+
+function readString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number" && Number.isFinite(value)) return value.toString();
+  return undefined;
+}
+
+/**
+ * M-Pesa style mobile-money payloads. Fields may sit at the top level or be
+ * wrapped in a `data` object.
+ */
+export class MpesaOnrampAdapter implements OnrampProviderAdapter {
+  constructor(readonly id: string = "mpesa") {}
+
+  verifySignature(rawBody: string, signature: string | null): void {
+    const secret = getWebhookSecret(this.id);
+    if (!secret && process.env.NODE_ENV === "production") {
+      throw new OnrampSignatureError(`No ${this.id} webhook secret configured, refusing unsigned payloads`);
+    }
+    if (!secret) {
+      logger.warn("⚠️ No webhook secret configured for onramp provider, skipping signature check", {
+        providerId: this.id,
+      });
+      return;
+    }
+    if (!signature) {
+      throw new OnrampSignatureError(`Missing ${this.id} webhook signature`);
+    }
+    if (!isValidHmacSignature(secret, rawBody, signature)) {
+      throw new OnrampSignatureError(`Invalid ${this.id} webhook signature`);
+    }
+  }
+
+  parse(payload: Record<string, unknown>): OnrampEvent {
+    const data =
+      payload.data && typeof payload.data === "object" && !Array.isArray(payload.data)
+        ? (payload.data as Record<string, unknown>)
+        : {};
+    const field = (...keys: string[]) => {
+      for (const key of keys) {
+        const value = readString(payload[key]) ?? readString(data[key]);
+        if (value !== undefined) return value;
+      }
+      return undefined;
+    };
+
+    const providerTxCode = field("transaction_code");
+    if (!providerTxCode) {
+      throw new OnrampPayloadError(
+        "Missing provider transaction code. providerPayload must include transaction_code"
+      );
+    }
+
+    const fiatAmount = field("amount");
+    if (fiatAmount !== undefined && !/^\d+(\.\d+)?$/.test(fiatAmount)) {
+      throw new OnrampPayloadError(`Invalid ${this.id} amount: ${fiatAmount}`);
+    }
+
+    const rawStatus = field("status");
+    return {
+      providerId: this.id,
+      providerTxCode,
+      status: rawStatus ? STATUS_MAP[rawStatus.toUpperCase()] ?? "unknown" : "unknown",
+      fiatAmount,
+      currency: field("currency_code", "currency"),
+      phoneNumber: field("phone_number", "msisdn"),
+      reference: field("reference", "account_reference"),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { OnrampEvent } from "../types";
+
+export class OnrampPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OnrampPayloadError";
+  }
+}
+
+export class OnrampSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OnrampSignatureError";
+  }
+}
+
+export interface OnrampProviderAdapter {
+  readonly id: string;
+  /**
+   * Check the provider's webhook signature against the raw request body, for
+   * single allocations and settlement batches alike. Throws
+   * OnrampSignatureError when the signature is missing or invalid.
+   */
+  verifySignature(rawBody: string, signature: string | null): void;
+  /**
+   * Validate the payload schema and map it to a normalized OnrampEvent.
+   * Throws OnrampPayloadError when required fields are missing.
+   */
+  parse(payload: Record<string, unknown>): OnrampEvent;
+}
+
+/**
+ * Webhook secret for a provider, read from ONRAMP_<PROVIDER_ID>_WEBHOOK_SECRET.
+ * Required in production; elsewhere the signature check is skipped without it.
+ */
+export function getWebhookSecret(providerId: string): string | undefined {
+  const envKey = `ONRAMP_${providerId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_WEBHOOK_SECRET`;
+  return process.env[envKey] || undefined;
+}
+
+/**
+ * Compare a hex HMAC-SHA256 signature (optionally prefixed with "sha256=")
+ * against the raw request body as sent.
+ */
+export function isValidHmacSignature(secret: string, rawBody: string, signature: string): boolean {
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  const provided = Buffer.from(signature.trim().replace(/^sha256=/i, ""), "hex");
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,38 @@
+import { ManualPriceSource } from "./manual.source";
+import { OnChainOraclePriceSource } from "./oracle.source";
+import { StaticPriceSource } from "./static.source";
+import type { PriceSource } from "./price-source";
+
+export {
+  PriceUnavailableError,
+  type PriceSource,
+  type SourcePrice,
+} from "./price-source";
+export { ManualPriceSource } from "./manual.source";
+export { OnChainOraclePriceSource } from "./oracle.source";
+export { StaticPriceSource } from "./static.source";
+
+/**
+ * Sources in order of precedence: admin override, on-chain oracle, static
+ * table. PRICE_SOURCES (comma-separated ids) narrows or reorders them, e.g.
+ * "static" to pin prices in tests.
+ */
+export function createDefaultPriceSources(): PriceSource[] {
+  const available: Record<string, () => PriceSource> = {
+    manual: () => new ManualPriceSource(),
+    oracle: () => new OnChainOraclePriceSource(),
+    static: () => new StaticPriceSource(),
+  };
+  const ids = (process.env.PRICE_SOURCES || "manual,oracle,static")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return ids.map((id) => {
+    const create = available[id];
+    if (!create) {
+      throw new Error(`Unknown price source in PRICE_SOURCES: ${id}. Supported: ${Object.keys(available).join(", ")}`);
+    }
+    return create();
+  });
+}
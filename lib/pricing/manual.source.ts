@@ -0,0 +1,19 @@
+import { getPriceOverridesCollection } from "../database";
+import type { VaultAsset } from "../types";
+import type { PriceSource, SourcePrice } from "./price-source";
+
+/**
+ * Prices set by an admin through /api/prices. Expired overrides are ignored.
+ */
+export class ManualPriceSource implements PriceSource {
+  readonly id = "manual";
+
+  async getPrice(asset: VaultAsset): Promise<SourcePrice | null> {
+    const collection = await getPriceOverridesCollection();
+    const override = await collection.findOne({ asset });
+    if (!override || (override.expiresAt && override.expiresAt <= new Date().toISOString())) {
+      return null;
+    }
+    return { usd: override.usd, asOf: override.updatedAt };
+  }
+}
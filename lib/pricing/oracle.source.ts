@@ -0,0 +1,53 @@
+import { ethers } from "ethers";
+import { createProvider } from "../utils";
+import { logger } from "../logger";
+import type { VaultAsset } from "../types";
+import { readAssetMapEnv, type PriceSource, type SourcePrice } from "./price-source";
+
+const AGGREGATOR_ABI = [
+  "function decimals() external view returns (uint8)",
+  "function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+const DEFAULT_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Chainlink-style AggregatorV3 feeds quoting the asset in USD. Feed addresses
+ * come from PRICE_ORACLE_FEEDS (JSON keyed by asset). Answers older than
+ * PRICE_ORACLE_MAX_AGE_SECONDS are treated as missing.
+ */
+export class OnChainOraclePriceSource implements PriceSource {
+  readonly id = "oracle";
+  private maxAgeSeconds = Number(process.env.PRICE_ORACLE_MAX_AGE_SECONDS) || DEFAULT_MAX_AGE_SECONDS;
+
+  constructor(
+    private feeds: Partial<Record<VaultAsset, string>> = readAssetMapEnv<string>("PRICE_ORACLE_FEEDS"),
+    private provider: ethers.JsonRpcProvider = createProvider()
+  ) {}
+
+  async getPrice(asset: VaultAsset): Promise<SourcePrice | null> {
+    const feedAddress = this.feeds[asset];
+    if (!feedAddress) {
+      return null;
+    }
+
+    const feed = new ethers.Contract(feedAddress, AGGREGATOR_ABI, this.provider);
+    const [decimals, roundData] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+    const answer: bigint = roundData.answer;
+    const updatedAt = Number(roundData.updatedAt);
+
+    if (answer <= BigInt(0)) {
+      logger.warn("Oracle returned a non-positive price", { asset, feedAddress, answer: answer.toString() });
+      return null;
+    }
+    if (Date.now() / 1000 - updatedAt > this.maxAgeSeconds) {
+      logger.warn("Oracle price is stale", { asset, feedAddress, updatedAt });
+      return null;
+    }
+
+    return {
+      usd: parseFloat(ethers.formatUnits(answer, decimals)),
+      asOf: new Date(updatedAt * 1000).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import type { VaultAsset } from "../types";
+
+export interface SourcePrice {
+  usd: number;
+  asOf: string;
+}
+
+export interface PriceSource {
+  readonly id: string;
+  /**
+   * USD price of one whole token, or null when this source has no usable
+   * price for the asset. Throws only on unexpected failures.
+   */
+  getPrice(asset: VaultAsset): Promise<SourcePrice | null>;
+}
+
+export class PriceUnavailableError extends Error {
+  constructor(asset: string) {
+    super(`No USD price available for ${asset}`);
+    this.name = "PriceUnavailableError";
+  }
+}
+
+/**
+ * Read a JSON object keyed by asset from an env var, e.g. PRICE_TABLE='{"cKES":0.0077}'
+ */
+export function readAssetMapEnv<T>(envKey: string): Partial<Record<VaultAsset, T>> {
+  const raw = process.env[envKey];
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`${envKey} must be a JSON object keyed by asset`);
+  }
+}
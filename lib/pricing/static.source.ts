@@ -0,0 +1,29 @@
+import type { VaultAsset } from "../types";
+import { readAssetMapEnv, type PriceSource, type SourcePrice } from "./price-source";
+
+// Fallback prices when neither an override nor an oracle price is available
+const DEFAULT_PRICES: Record<VaultAsset, number> = {
+  USDC: 1,
+  cUSD: 1,
+  USDT: 1,
+  cKES: 0.0077,
+};
+
+/**
+ * Fixed price table. Entries from PRICE_TABLE (JSON keyed by asset) replace
+ * the defaults, which also makes it the source to pin prices in tests.
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly id = "static";
+  private prices: Partial<Record<VaultAsset, number>>;
+  private loadedAt = new Date().toISOString();
+
+  constructor(prices: Partial<Record<VaultAsset, number>> = readAssetMapEnv<number>("PRICE_TABLE")) {
+    this.prices = { ...DEFAULT_PRICES, ...prices };
+  }
+
+  async getPrice(asset: VaultAsset): Promise<SourcePrice | null> {
+    const usd = this.prices[asset];
+    return usd === undefined ? null : { usd, asOf: this.loadedAt };
+  }
+}
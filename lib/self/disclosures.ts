@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+import { CONTRACTS, DISCLOSURE_VERIFIED_TOPIC } from "../constants";
+import { SELF_CONTRACT_ID, decodeDisclosureVerified, type DisclosureVerification } from "../indexer";
+import { EventIndexerService } from "../services/event-indexer.service";
+
+// Blocks the RPC fallback looks back when the event index does not cover the Self contract
+const RPC_LOOKBACK_BLOCKS = 10000;
+
+/**
+ * The moment a disclosed document expiry date passes (the end of that day,
+ * UTC). The hub formats it as DD-MM-YY; ISO dates are accepted as well.
+ * Undefined when the expiry was not disclosed or cannot be read.
+ */
+export function parseDocumentExpiry(expiryDate: string | undefined): Date | undefined {
+  const hubFormat = expiryDate?.match(/^(\d{2})-(\d{2})-(\d{2})$/);
+  const isoFormat = expiryDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const parts = hubFormat
+    ? [2000 + Number(hubFormat[3]), Number(hubFormat[2]), Number(hubFormat[1])]
+    : isoFormat
+      ? [Number(isoFormat[1]), Number(isoFormat[2]), Number(isoFormat[3])]
+      : null;
+  if (!parts || parts[1] < 1 || parts[1] > 12 || parts[2] < 1 || parts[2] > 31) {
+    return undefined;
+  }
+  return new Date(Date.UTC(parts[0], parts[1] - 1, parts[2] + 1));
+}
+
+export interface DisclosureRecord {
+  verification: DisclosureVerification;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * The latest DisclosureVerified event the Self hub emitted for a wallet, null
+ * when there is none. The index keeps the full history; the RPC fallback only
+ * sees the last RPC_LOOKBACK_BLOCKS blocks.
+ */
+export async function findLatestDisclosure(
+  provider: ethers.Provider,
+  walletAddress: string
+): Promise<DisclosureRecord | null> {
+  const indexer = new EventIndexerService(provider);
+  const coverage = await indexer.getCoverage([SELF_CONTRACT_ID], await provider.getBlockNumber());
+  if (coverage) {
+    const [latestEvent] = await indexer.find({ contractIds: [SELF_CONTRACT_ID], user: walletAddress }, 1);
+    return latestEvent
+      ? {
+          verification: latestEvent.args as unknown as DisclosureVerification,
+          transactionHash: latestEvent.transactionHash,
+          blockNumber: latestEvent.blockNumber,
+        }
+      : null;
+  }
+
+  // Filter by requestor address (topic 1 in DisclosureVerified event)
+  const logs = await provider.getLogs({
+    address: CONTRACTS.SELF_VERIFICATION,
+    topics: [DISCLOSURE_VERIFIED_TOPIC, ethers.zeroPadValue(walletAddress, 32)],
+    fromBlock: -RPC_LOOKBACK_BLOCKS,
+    toBlock: "latest",
+  });
+  if (logs.length === 0) {
+    return null;
+  }
+
+  const latestLog = logs[logs.length - 1];
+  return {
+    verification: decodeDisclosureVerified(latestLog),
+    transactionHash: latestLog.transactionHash,
+    blockNumber: latestLog.blockNumber,
+  };
+}
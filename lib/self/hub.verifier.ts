@@ -0,0 +1,52 @@
+import { ethers } from "ethers";
+import { createProvider } from "../utils";
+import { findLatestDisclosure, parseDocumentExpiry } from "./disclosures";
+import {
+  SelfProofError,
+  parseSelfPayload,
+  type SelfProofVerifier,
+  type SelfVerifyPayload,
+  type VerifiedSelfProof,
+} from "./self-verifier";
+
+/**
+ * The app uses the "celo" endpoint type, so the Self hub verifies the proof
+ * on chain and emits DisclosureVerified for the wallet. This verifier accepts
+ * a payload only when that event exists for the wallet in userContextData
+ * with the same attestation id, and takes the disclosures from the event.
+ */
+export class HubSelfVerifier implements SelfProofVerifier {
+  readonly id = "hub";
+
+  constructor(private provider: ethers.Provider = createProvider()) {}
+
+  async verify(payload: SelfVerifyPayload): Promise<VerifiedSelfProof> {
+    const { walletAddress, userIdentifier, chainId, userData } = parseSelfPayload(payload);
+
+    const disclosure = await findLatestDisclosure(this.provider, walletAddress);
+    if (!disclosure) {
+      throw new SelfProofError("No on-chain verification found for this wallet");
+    }
+
+    const { verification } = disclosure;
+    if (BigInt(verification.attestationId) !== BigInt(payload.attestationId)) {
+      throw new SelfProofError("Attestation id does not match the on-chain verification");
+    }
+
+    return {
+      walletAddress,
+      attestationId: String(payload.attestationId),
+      userIdentifier,
+      nullifier: verification.nullifier,
+      nationality: verification.nationality || undefined,
+      olderThan: verification.olderThan || undefined,
+      ofac: verification.ofac,
+      forbiddenCountriesListPacked: verification.forbiddenCountriesListPacked.map(String),
+      userData,
+      chainId,
+      documentExpiresAt: parseDocumentExpiry(verification.expiryDate),
+      transactionHash: disclosure.transactionHash,
+      blockNumber: disclosure.blockNumber,
+    };
+  }
+}
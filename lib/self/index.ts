@@ -0,0 +1,34 @@
+import { HubSelfVerifier } from "./hub.verifier";
+import type { SelfProofVerifier } from "./self-verifier";
+import { StubSelfVerifier } from "./stub.verifier";
+
+export {
+  SelfProofError,
+  parseSelfPayload,
+  type SelfProofVerifier,
+  type SelfVerifyPayload,
+  type VerifiedSelfProof,
+} from "./self-verifier";
+export { findLatestDisclosure, parseDocumentExpiry, type DisclosureRecord } from "./disclosures";
+export { HubSelfVerifier } from "./hub.verifier";
+export { StubSelfVerifier } from "./stub.verifier";
+
+const verifiers: Record<string, () => SelfProofVerifier> = {
+  hub: () => new HubSelfVerifier(),
+  stub: () => new StubSelfVerifier(),
+};
+
+/**
+ * The verifier selected by SELF_VERIFIER ("hub" by default). The stub is
+ * refused in production.
+ */
+export function getSelfVerifier(id: string = process.env.SELF_VERIFIER || "hub"): SelfProofVerifier {
+  const create = verifiers[id];
+  if (!create) {
+    throw new Error(`Unknown SELF_VERIFIER: ${id}. Supported: ${Object.keys(verifiers).join(", ")}`);
+  }
+  if (id === "stub" && process.env.NODE_ENV === "production") {
+    throw new Error("The stub Self verifier cannot be used in production");
+  }
+  return create();
+}
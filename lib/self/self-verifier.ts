@@ -0,0 +1,83 @@
+import { ethers } from "ethers";
+
+export class SelfProofError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SelfProofError";
+  }
+}
+
+// Body the Self app posts to the verify endpoint
+export interface SelfVerifyPayload {
+  attestationId: string | number;
+  proof: unknown;
+  publicSignals: string[];
+  userContextData: string; // hex: destination chain id, user identifier, user-defined data
+}
+
+// Identity attributes established by a valid proof
+export interface VerifiedSelfProof {
+  walletAddress: string; // lowercased
+  attestationId: string;
+  userIdentifier: string;
+  nullifier: string;
+  nationality?: string;
+  olderThan?: number;
+  ofac: boolean[]; // true where the OFAC check passed
+  forbiddenCountriesListPacked: string[];
+  userData?: string;
+  chainId: number;
+  documentExpiresAt?: Date;
+  // The hub transaction that emitted the disclosure, when verified on chain
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+export interface SelfProofVerifier {
+  readonly id: string;
+  /**
+   * Validate a proof payload. Throws SelfProofError when it does not prove
+   * the disclosed identity.
+   */
+  verify(payload: SelfVerifyPayload): Promise<VerifiedSelfProof>;
+}
+
+/**
+ * Check the payload shape and split userContextData into its 32-byte chain id
+ * and user identifier words followed by the user-defined data. The identifier
+ * is a wallet address ("hex" user id type).
+ */
+export function parseSelfPayload(body: unknown): {
+  payload: SelfVerifyPayload;
+  chainId: number;
+  walletAddress: string;
+  userIdentifier: string;
+  userData?: string;
+} {
+  const candidate = (body ?? {}) as Partial<SelfVerifyPayload>;
+  if (
+    (typeof candidate.attestationId !== "string" && typeof candidate.attestationId !== "number") ||
+    candidate.proof === undefined ||
+    !Array.isArray(candidate.publicSignals) ||
+    typeof candidate.userContextData !== "string"
+  ) {
+    throw new SelfProofError("attestationId, proof, publicSignals and userContextData are required");
+  }
+
+  const context = candidate.userContextData.startsWith("0x")
+    ? candidate.userContextData
+    : `0x${candidate.userContextData}`;
+  if (!ethers.isHexString(context) || ethers.dataLength(context) < 64) {
+    throw new SelfProofError("Invalid userContextData");
+  }
+
+  const userIdentifier = ethers.dataSlice(context, 32, 64);
+  const userDataBytes = ethers.dataSlice(context, 64);
+  return {
+    payload: candidate as SelfVerifyPayload,
+    chainId: Number(BigInt(ethers.dataSlice(context, 0, 32))),
+    walletAddress: ethers.dataSlice(userIdentifier, 12).toLowerCase(),
+    userIdentifier,
+    userData: userDataBytes === "0x" ? undefined : ethers.toUtf8String(userDataBytes),
+  };
+}
@@ -0,0 +1,36 @@
+import { ethers } from "ethers";
+import {
+  parseSelfPayload,
+  type SelfProofVerifier,
+  type SelfVerifyPayload,
+  type VerifiedSelfProof,
+} from "./self-verifier";
+
+type StubDisclosures = Pick<VerifiedSelfProof, "nationality" | "olderThan" | "ofac">;
+
+/**
+ * Accepts any well-formed payload, for local development and tests. The
+ * nullifier is derived from the public signals, so reusing them simulates the
+ * same person verifying again. Never enabled in production.
+ */
+export class StubSelfVerifier implements SelfProofVerifier {
+  readonly id = "stub";
+
+  constructor(
+    private disclosures: StubDisclosures = { nationality: "KEN", olderThan: 18, ofac: [true, true, true] }
+  ) {}
+
+  async verify(payload: SelfVerifyPayload): Promise<VerifiedSelfProof> {
+    const { walletAddress, userIdentifier, chainId, userData } = parseSelfPayload(payload);
+    return {
+      walletAddress,
+      attestationId: String(payload.attestationId),
+      userIdentifier,
+      nullifier: BigInt(ethers.id(JSON.stringify(payload.publicSignals))).toString(),
+      forbiddenCountriesListPacked: [],
+      userData,
+      chainId,
+      ...this.disclosures,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from "uuid";
+import { getActivityLogCollection } from "../database";
+import { logger } from "../logger";
+import type {
+  ActivityLogRecord,
+  MetaGoal,
+  OffChainActivityItem,
+  OffChainActivityType,
+} from "../types";
+import type { Collection, Filter } from "mongodb";
+
+export const OFF_CHAIN_ACTIVITY_TYPES: OffChainActivityType[] = [
+  "meta_goal_created",
+  "invite_sent",
+  "xp_awarded",
+  "identity_verified",
+];
+
+// Distributes Omit over the union so each variant keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type NewActivity = DistributiveOmit<OffChainActivityItem, "id" | "offChain" | "timestamp"> & {
+  timestamp?: string;
+};
+
+export interface ActivityLogQuery {
+  userAddress: string;
+  types?: OffChainActivityType[];
+  metaGoalId?: string;
+  since?: string;
+  until?: string;
+  before?: { timestamp: string; id: string }; // exclusive, for paging back
+}
+
+/**
+ * Log of user-facing events that never reach the chain (meta-goal creation,
+ * invites, XP awards, identity verification), merged into /api/activity.
+ * Recording is best effort: a failure is logged and never fails the request
+ * that produced the event.
+ */
+export class ActivityLogService {
+  private collection: Collection<ActivityLogRecord> | null = null;
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getActivityLogCollection();
+    }
+    return this.collection;
+  }
+
+  /**
+   * Record an activity for one user. With a key, an activity already recorded
+   * under it is left as is.
+   */
+  async record(userAddress: string, activity: NewActivity, key?: string): Promise<void> {
+    try {
+      const collection = await this.getCollection();
+      const record = {
+        ...activity,
+        id: uuidv4(),
+        offChain: true,
+        timestamp: activity.timestamp ?? new Date().toISOString(),
+        userAddress: userAddress.toLowerCase(),
+        ...(key ? { key } : {}),
+      } as ActivityLogRecord;
+
+      if (key) {
+        await collection.updateOne({ key }, { $setOnInsert: record }, { upsert: true });
+      } else {
+        await collection.insertOne(record);
+      }
+    } catch (error) {
+      logger.warn("Failed to record activity", {
+        userAddress,
+        type: activity.type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async recordMetaGoalCreated(metaGoal: MetaGoal): Promise<void> {
+    await this.record(
+      metaGoal.creatorAddress,
+      {
+        type: "meta_goal_created",
+        metaGoalId: metaGoal.metaGoalId,
+        name: metaGoal.name,
+        targetAmountUSD: metaGoal.targetAmountUSD,
+        targetDate: metaGoal.targetDate,
+        isPublic: metaGoal.isPublic !== false,
+        timestamp: metaGoal.createdAt,
+      },
+      `meta_goal_created:${metaGoal.metaGoalId}`
+    );
+  }
+
+  /**
+   * Shown to the inviter and to each invitee.
+   */
+  async recordInvites(metaGoalId: string, inviter: string, invitees: string[]): Promise<void> {
+    const normalizedInviter = inviter.toLowerCase();
+    for (const invitee of invitees.map((address) => address.toLowerCase())) {
+      for (const [userAddress, role] of [
+        [normalizedInviter, "inviter"],
+        [invitee, "invitee"],
+      ] as const) {
+        await this.record(
+          userAddress,
+          { type: "invite_sent", metaGoalId, inviter: normalizedInviter, invitee, role },
+          `invite_sent:${metaGoalId}:${invitee}:${role}`
+        );
+      }
+    }
+  }
+
+  async recordXPAwarded(
+    userAddress: string,
+    award: { xpEarned: number; reason: string; metaGoalId?: string; timestamp?: string; eventId?: string }
+  ): Promise<void> {
+    const { eventId, ...activity } = award;
+    await this.record(
+      userAddress,
+      { type: "xp_awarded", ...activity },
+      `xp_awarded:${eventId ?? award.metaGoalId ?? award.reason}:${userAddress.toLowerCase()}`
+    );
+  }
+
+  async recordIdentityVerified(
+    userAddress: string,
+    verification: { attestationId?: string; nationality?: string; timestamp?: string } = {}
+  ): Promise<void> {
+    await this.record(
+      userAddress,
+      { type: "identity_verified", provider: "self", ...verification },
+      `identity_verified:self:${userAddress.toLowerCase()}`
+    );
+  }
+
+  /**
+   * A user's activities, newest first.
+   */
+  async find(query: ActivityLogQuery, limit: number): Promise<OffChainActivityItem[]> {
+    const collection = await this.getCollection();
+    const filter: Filter<ActivityLogRecord> = { userAddress: query.userAddress.toLowerCase() };
+    if (query.types) {
+      filter.type = { $in: query.types };
+    }
+    if (query.metaGoalId) {
+      filter.metaGoalId = query.metaGoalId;
+    }
+    if (query.since || query.until) {
+      filter.timestamp = {
+        ...(query.since ? { $gte: query.since } : {}),
+        ...(query.until ? { $lte: query.until } : {}),
+      };
+    }
+    if (query.before) {
+      filter.$or = [
+        { timestamp: { $lt: query.before.timestamp } },
+        { timestamp: query.before.timestamp, id: { $lt: query.before.id } },
+      ];
+    }
+
+    const records = await collection
+      .find(filter, { projection: { _id: 0, userAddress: 0, key: 0 } })
+      .sort({ timestamp: -1, id: -1 })
+      .limit(limit)
+      .toArray();
+    return records as OffChainActivityItem[];
+  }
+}
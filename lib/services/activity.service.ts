@@ -0,0 +1,862 @@
+import { ethers } from "ethers";
+import { CONTRACTS, GOAL_MANAGER_ABI, VAULTS, VAULT_ABI } from "../constants";
+import { createProvider, formatUSDForDisplay } from "../utils";
+import { GOAL_MANAGER_CONTRACT_ID, vaultContractId } from "../indexer";
+import { ActivityLogService, OFF_CHAIN_ACTIVITY_TYPES } from "./activity-log.service";
+import { EventIndexerService } from "./event-indexer.service";
+import { PriceService } from "./price.service";
+import type {
+  ActivityItem,
+  ActivityType,
+  ChainActivityItem,
+  DepositActivity,
+  DepositAttachmentActivity,
+  GoalActivityItem,
+  GoalActivityType,
+  GoalCreatedActivity,
+  MemberInviteActivity,
+  MemberStatusActivity,
+  OffChainActivityItem,
+  VaultAsset,
+} from "../types";
+
+// Block span of one round of log queries, kept under common RPC range limits
+const CHUNK_BLOCKS = parseInt(process.env.ACTIVITY_CHUNK_BLOCKS || "5000");
+// Chunks scanned for one page before returning a cursor to continue from
+const MAX_CHUNKS_PER_PAGE = parseInt(process.env.ACTIVITY_MAX_CHUNKS_PER_PAGE || "5");
+
+const EVENT_TYPES: Record<string, ActivityType> = {
+  GoalCreated: "goal_created",
+  DepositAttached: "deposit_attached",
+  DepositDetached: "deposit_detached",
+  AttachmentPledged: "attachment_pledged",
+  MemberInvited: "member_invited",
+  InviteRevoked: "invite_revoked",
+  MemberJoined: "member_joined",
+  MemberRemoved: "member_removed",
+  OnrampDeposit: "deposit",
+  Deposited: "deposit",
+};
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  ...Array.from(new Set(Object.values(EVENT_TYPES))),
+  ...OFF_CHAIN_ACTIVITY_TYPES,
+];
+
+// GoalManager events shown in a group goal's feed
+const GOAL_EVENT_TYPES: Record<string, GoalActivityType> = {
+  DepositAttached: "deposit_attached",
+  DepositDetached: "deposit_detached",
+  MemberJoined: "member_joined",
+  MemberRemoved: "member_removed",
+  GoalCompleted: "goal_completed",
+  GoalCancelled: "goal_cancelled",
+};
+
+export const GOAL_ACTIVITY_TYPES = Object.values(GOAL_EVENT_TYPES);
+
+const ACTIVITY_CONTRACT_IDS = [
+  GOAL_MANAGER_CONTRACT_ID,
+  ...(Object.keys(VAULTS) as VaultAsset[]).map(vaultContractId),
+];
+
+export type BlockParam = number | "latest"; // negative numbers count back from the latest block
+
+export interface ActivityQuery {
+  userAddress: string;
+  types?: ActivityType[];
+  goalIds?: string[];
+  metaGoalId?: string; // the meta-goal goalIds were resolved from, to match off-chain activity
+  asset?: VaultAsset;
+  fromBlock?: BlockParam;
+  toBlock?: BlockParam;
+  cursor?: string;
+  limit: number;
+}
+
+export interface ActivityPage {
+  startBlock: number;
+  endBlock: number;
+  activities: ActivityItem[];
+  nextCursor: string | null; // null once the start block is reached
+}
+
+export interface GoalActivityQuery {
+  goals: Partial<Record<VaultAsset, string>>; // on-chain goal per asset
+  types?: GoalActivityType[];
+  fromBlock?: number;
+  toBlock?: number;
+  cursor?: string;
+  limit: number;
+}
+
+export interface GoalActivityPage {
+  activities: GoalActivityItem[];
+  nextCursor: string | null;
+}
+
+export class ActivityQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActivityQueryError";
+  }
+}
+
+// Position in the chain feed; a cursor returns what comes strictly before it
+interface FeedPosition {
+  blockNumber: number;
+  logIndex: number;
+}
+
+interface OffChainPosition {
+  timestamp: string;
+  id: string;
+}
+
+// Each stream is null once exhausted; an undefined off-chain position starts from the newest entry
+interface FeedCursor {
+  chain: FeedPosition | null;
+  offChain?: OffChainPosition | null;
+}
+
+interface SourcedEvent {
+  event: ethers.EventLog;
+  asset?: VaultAsset; // set for vault events
+  timestamp?: string; // known for indexed events
+}
+
+interface EventBatch {
+  events: SourcedEvent[];
+  next: FeedPosition | null;
+}
+
+type Positioned<T> = { item: T; logIndex: number };
+type PositionedActivity = Positioned<ChainActivityItem>;
+
+/**
+ * A user's activity, newest first, paged with an opaque cursor. Chain events
+ * are read from the event index when it covers the start of the requested
+ * range, with the blocks it has not reached yet read over RPC, otherwise from
+ * chunked RPC log queries walking back from the cursor. Entries of the
+ * off-chain activity log are merged in by timestamp. getGoalPage pages the
+ * chain activity of a group goal the same way.
+ */
+export class ActivityService {
+  private goalManager: ethers.Contract;
+  private indexer: EventIndexerService;
+  private blockTimestamps = new Map<number, string>();
+
+  constructor(
+    private provider: ethers.JsonRpcProvider = createProvider(),
+    private prices: PriceService = new PriceService(),
+    private activityLog: ActivityLogService = new ActivityLogService()
+  ) {
+    this.goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
+    this.indexer = new EventIndexerService(provider);
+  }
+
+  static encodeCursor(cursor: FeedCursor): string {
+    const chain = cursor.chain && [cursor.chain.blockNumber, cursor.chain.logIndex];
+    const offChain = cursor.offChain === undefined ? [] : cursor.offChain && [cursor.offChain.timestamp, cursor.offChain.id];
+    return Buffer.from(JSON.stringify({ c: chain, o: offChain })).toString("base64url");
+  }
+
+  static decodeCursor(cursor: string): FeedCursor {
+    try {
+      const { c, o } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      const chainValid =
+        c === null || (Number.isInteger(c?.[0]) && Number.isInteger(c?.[1]) && c[0] >= 0 && c[1] >= 0);
+      const offChainValid =
+        o === null ||
+        (Array.isArray(o) && (o.length === 0 || (typeof o[0] === "string" && typeof o[1] === "string")));
+      if (chainValid && offChainValid) {
+        return {
+          chain: c && { blockNumber: c[0], logIndex: c[1] },
+          offChain: o === null ? null : o.length === 0 ? undefined : { timestamp: o[0], id: o[1] },
+        };
+      }
+    } catch {
+      // Reported below
+    }
+    throw new ActivityQueryError("Invalid cursor");
+  }
+
+  async getPage(query: ActivityQuery): Promise<ActivityPage> {
+    const userAddress = query.userAddress.toLowerCase();
+    const latestBlock = await this.provider.getBlockNumber();
+    const coverage = await this.indexer.getCoverage(ACTIVITY_CONTRACT_IDS, latestBlock);
+
+    // Without explicit bounds a user's whole history is paged through
+    const startBlock =
+      query.fromBlock === undefined
+        ? coverage?.fromBlock ?? 0
+        : this.resolveBlock(query.fromBlock, latestBlock);
+    const endBlock = Math.min(
+      query.toBlock === undefined ? latestBlock : this.resolveBlock(query.toBlock, latestBlock),
+      latestBlock
+    );
+    if (startBlock > endBlock) {
+      throw new ActivityQueryError("fromBlock must be less than or equal to toBlock.");
+    }
+
+    const cursor: FeedCursor = query.cursor
+      ? ActivityService.decodeCursor(query.cursor)
+      : { chain: { blockNumber: endBlock + 1, logIndex: 0 } };
+
+    // Blocks newer than the index covers are read over RPC until the indexer catches up
+    const indexedTo =
+      coverage !== null && startBlock >= coverage.fromBlock && startBlock <= coverage.toBlock
+        ? Math.min(endBlock, coverage.toBlock)
+        : null;
+    const chain = cursor.chain
+      ? await this.loadChain(query, userAddress, { startBlock, endBlock, indexedTo }, cursor.chain)
+      : { items: [], scanFrom: null };
+
+    const offChainTypes = OFF_CHAIN_ACTIVITY_TYPES.filter((type) => !query.types || query.types.includes(type));
+    // Off-chain activity has no asset and is tied to meta-goals, not single on-chain goals
+    const includeOffChain =
+      cursor.offChain !== null &&
+      offChainTypes.length > 0 &&
+      !query.asset &&
+      (!query.goalIds || Boolean(query.metaGoalId));
+    const offChain = includeOffChain
+      ? await this.activityLog.find(
+          {
+            userAddress,
+            types: offChainTypes,
+            metaGoalId: query.metaGoalId,
+            // Explicit block bounds apply to off-chain activity through the blocks' timestamps
+            since: query.fromBlock === undefined ? undefined : await this.getBlockTimestamp(startBlock),
+            until: query.toBlock === undefined ? undefined : await this.getBlockTimestamp(endBlock),
+            before: cursor.offChain ?? undefined,
+          },
+          query.limit + 1
+        )
+      : [];
+
+    // Chain history not scanned yet is no newer than the block the scan stopped at
+    const chainFrontier = chain.scanFrom ? await this.getBlockTimestamp(chain.scanFrom.blockNumber) : null;
+
+    const activities: ActivityItem[] = [];
+    let chainTaken = 0;
+    let offChainTaken = 0;
+    while (activities.length < query.limit) {
+      const nextChain = chain.items[chainTaken];
+      const nextOffChain: OffChainActivityItem | undefined = offChain[offChainTaken];
+      if (nextChain && (!nextOffChain || nextChain.item.timestamp >= nextOffChain.timestamp)) {
+        activities.push(nextChain.item);
+        chainTaken++;
+      } else if (nextOffChain && (chainFrontier === null || nextOffChain.timestamp > chainFrontier)) {
+        activities.push(nextOffChain);
+        offChainTaken++;
+      } else {
+        break;
+      }
+    }
+
+    const lastChain = chain.items[chainTaken - 1];
+    const lastOffChain = offChain[offChainTaken - 1];
+    const next: FeedCursor = {
+      chain:
+        chainTaken < chain.items.length
+          ? lastChain
+            ? { blockNumber: lastChain.item.blockNumber, logIndex: lastChain.logIndex }
+            : cursor.chain
+          : chain.scanFrom,
+      offChain: !includeOffChain
+        ? null
+        : offChainTaken < offChain.length
+          ? lastOffChain
+            ? { timestamp: lastOffChain.timestamp, id: lastOffChain.id }
+            : cursor.offChain
+          : null,
+    };
+
+    return {
+      startBlock,
+      endBlock,
+      activities,
+      nextCursor: next.chain || next.offChain !== null ? ActivityService.encodeCursor(next) : null,
+    };
+  }
+
+  /**
+   * Every chain activity from the cursor back, over as many batches as it
+   * takes to pass the limit or MAX_CHUNKS_PER_PAGE. scanFrom is where the next
+   * page continues, null once the start block is reached.
+   */
+  private async loadChain(
+    query: ActivityQuery,
+    userAddress: string,
+    range: { startBlock: number; endBlock: number; indexedTo: number | null },
+    cursor: FeedPosition
+  ): Promise<{ items: PositionedActivity[]; scanFrom: FeedPosition | null }> {
+    const { startBlock, indexedTo } = range;
+    const loadBatch =
+      indexedTo === null
+        ? (before: FeedPosition) => this.loadRpcBatch(query, userAddress, startBlock, before)
+        : this.withRpcTail(
+            indexedTo,
+            (before) => this.loadIndexedBatch(query, userAddress, startBlock, indexedTo, before),
+            (tailStart, before) => this.loadRpcBatch(query, userAddress, tailStart, before)
+          );
+
+    return this.scanChain(cursor, query.limit, loadBatch, async (sourced) => {
+      const activity = await this.toActivity(sourced, userAddress);
+      return activity && activity.item.blockNumber <= range.endBlock && this.matches(activity.item, query)
+        ? activity
+        : null;
+    });
+  }
+
+  /**
+   * Activity of a group goal's on-chain goals, newest first, paged with the
+   * same cursors as getPage. Without the event index the scan stops at the
+   * creation of the oldest goal.
+   */
+  async getGoalPage(query: GoalActivityQuery): Promise<GoalActivityPage> {
+    const goalAssets = new Map<string, VaultAsset>();
+    for (const [asset, goalId] of Object.entries(query.goals)) {
+      if (goalId) {
+        goalAssets.set(goalId, asset as VaultAsset);
+      }
+    }
+    const goalIds = Array.from(goalAssets.keys());
+
+    const latestBlock = await this.provider.getBlockNumber();
+    const coverage = await this.indexer.getCoverage([GOAL_MANAGER_CONTRACT_ID], latestBlock);
+    const startBlock = query.fromBlock ?? coverage?.fromBlock ?? 0;
+    const endBlock = Math.min(query.toBlock ?? latestBlock, latestBlock);
+    if (startBlock > endBlock) {
+      throw new ActivityQueryError("fromBlock must be less than or equal to toBlock.");
+    }
+    const cursor = query.cursor
+      ? ActivityService.decodeCursor(query.cursor).chain
+      : { blockNumber: endBlock + 1, logIndex: 0 };
+    if (!cursor || goalIds.length === 0) {
+      return { activities: [], nextCursor: null };
+    }
+
+    const names = Object.keys(GOAL_EVENT_TYPES).filter(
+      (name) => !query.types || query.types.includes(GOAL_EVENT_TYPES[name])
+    );
+    // Blocks newer than the index covers are read over RPC until the indexer catches up
+    const indexedTo =
+      coverage !== null && startBlock >= coverage.fromBlock && startBlock <= coverage.toBlock
+        ? Math.min(endBlock, coverage.toBlock)
+        : null;
+    const createdAt = indexedTo === null ? await this.getGoalsCreatedAt(goalIds) : null;
+    const loadBatch =
+      indexedTo === null
+        ? (before: FeedPosition) => this.loadGoalRpcBatch(names, goalIds, { startBlock, createdAt }, before)
+        : this.withRpcTail(
+            indexedTo,
+            (before) =>
+              this.loadGoalIndexedBatch(names, goalIds, { fromBlock: startBlock, toBlock: indexedTo }, before, query.limit),
+            (tailStart, before) =>
+              this.loadGoalRpcBatch(names, goalIds, { startBlock: tailStart, createdAt: null }, before)
+          );
+
+    const { items, scanFrom } = await this.scanChain(cursor, query.limit, loadBatch, async (sourced) => {
+      const activity = await this.toGoalActivity(sourced, goalAssets);
+      return activity && activity.item.blockNumber <= endBlock ? activity : null;
+    });
+
+    const page = items.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const next =
+      items.length > query.limit ? { blockNumber: last.item.blockNumber, logIndex: last.logIndex } : scanFrom;
+    return {
+      activities: page.map(({ item }) => item),
+      nextCursor: next ? ActivityService.encodeCursor({ chain: next, offChain: null }) : null,
+    };
+  }
+
+  /**
+   * Items from the cursor back, over as many batches as it takes to pass the
+   * limit or MAX_CHUNKS_PER_PAGE, sorted newest first.
+   */
+  private async scanChain<T extends { blockNumber: number }>(
+    cursor: FeedPosition,
+    limit: number,
+    loadBatch: (before: FeedPosition) => Promise<EventBatch>,
+    toItem: (sourced: SourcedEvent) => Promise<Positioned<T> | null>
+  ): Promise<{ items: Positioned<T>[]; scanFrom: FeedPosition | null }> {
+    let scanFrom: FeedPosition | null = cursor;
+    const items: Positioned<T>[] = [];
+
+    for (let batch = 0; batch < MAX_CHUNKS_PER_PAGE && scanFrom && items.length <= limit; batch++) {
+      const { events, next }: EventBatch = await loadBatch(scanFrom);
+      for (const sourced of events) {
+        const item = await toItem(sourced);
+        if (item && this.isBefore(item, cursor)) {
+          items.push(item);
+        }
+      }
+      scanFrom = next;
+    }
+
+    items.sort((a, b) =>
+      a.item.blockNumber !== b.item.blockNumber
+        ? b.item.blockNumber - a.item.blockNumber
+        : b.logIndex - a.logIndex
+    );
+    return { items, scanFrom };
+  }
+
+  /**
+   * Batches over RPC for the blocks after indexedTo, then from the event index
+   * once the cursor reaches the blocks it covers.
+   */
+  private withRpcTail(
+    indexedTo: number,
+    loadIndexed: (before: FeedPosition) => Promise<EventBatch>,
+    loadRpc: (startBlock: number, before: FeedPosition) => Promise<EventBatch>
+  ): (before: FeedPosition) => Promise<EventBatch> {
+    const indexEnd: FeedPosition = { blockNumber: indexedTo + 1, logIndex: 0 };
+    return async (before) => {
+      const inTail =
+        before.blockNumber > indexEnd.blockNumber ||
+        (before.blockNumber === indexEnd.blockNumber && before.logIndex > 0);
+      if (!inTail) {
+        return loadIndexed(before);
+      }
+      const batch = await loadRpc(indexEnd.blockNumber, before);
+      return { events: batch.events, next: batch.next ?? indexEnd };
+    };
+  }
+
+  private resolveBlock(value: BlockParam, latestBlock: number): number {
+    if (value === "latest") {
+      return latestBlock;
+    }
+    return Math.max(0, value < 0 ? latestBlock + value : value);
+  }
+
+  private isBefore(activity: Positioned<{ blockNumber: number }>, position: FeedPosition): boolean {
+    return (
+      activity.item.blockNumber < position.blockNumber ||
+      (activity.item.blockNumber === position.blockNumber && activity.logIndex < position.logIndex)
+    );
+  }
+
+  private matches(item: ChainActivityItem, query: ActivityQuery): boolean {
+    if (query.types && !query.types.includes(item.type)) {
+      return false;
+    }
+    // Deposits are not tied to a goal, and only deposits and goal creations carry an asset
+    if (query.goalIds && !("goalId" in item && query.goalIds.includes(item.goalId))) {
+      return false;
+    }
+    if (query.asset && !("asset" in item && item.asset === query.asset)) {
+      return false;
+    }
+    return true;
+  }
+
+  private eventNames(query: ActivityQuery): string[] {
+    return Object.keys(EVENT_TYPES).filter(
+      (name) => !query.types || query.types.includes(EVENT_TYPES[name])
+    );
+  }
+
+  private async loadIndexedBatch(
+    query: ActivityQuery,
+    userAddress: string,
+    startBlock: number,
+    endBlock: number,
+    before: FeedPosition
+  ): Promise<EventBatch> {
+    const assets = query.asset ? [query.asset] : (Object.keys(VAULTS) as VaultAsset[]);
+    const indexed = await this.indexer.find(
+      {
+        contractIds: [GOAL_MANAGER_CONTRACT_ID, ...assets.map(vaultContractId)],
+        names: this.eventNames(query),
+        user: userAddress,
+        goalIds: query.goalIds,
+        fromBlock: startBlock,
+        toBlock: endBlock,
+        before,
+      },
+      query.limit
+    );
+
+    const events: SourcedEvent[] = [];
+    for (const record of indexed) {
+      const event = this.indexer.toEventLog(record);
+      if (event) {
+        const asset = assets.find((candidate) => vaultContractId(candidate) === record.contractId);
+        events.push({ event, asset, timestamp: record.timestamp });
+      }
+    }
+
+    const last = indexed[indexed.length - 1];
+    return {
+      events,
+      next: indexed.length < query.limit ? null : { blockNumber: last.blockNumber, logIndex: last.logIndex },
+    };
+  }
+
+  /**
+   * One chunk of log queries ending at the cursor. Only the contracts and
+   * events the filters can match are queried.
+   */
+  private async loadRpcBatch(
+    query: ActivityQuery,
+    userAddress: string,
+    startBlock: number,
+    before: FeedPosition
+  ): Promise<EventBatch> {
+    // A cursor at log index 0 excludes its whole block
+    const upper = before.logIndex === 0 ? before.blockNumber - 1 : before.blockNumber;
+    if (upper < startBlock) {
+      return { events: [], next: null };
+    }
+    const lower = Math.max(startBlock, upper - CHUNK_BLOCKS + 1);
+    const names = this.eventNames(query);
+    const filters = this.goalManager.filters;
+
+    const goalManagerFilters: Record<string, ethers.DeferredTopicFilter[]> = {
+      GoalCreated: [filters.GoalCreated(null, userAddress, null)],
+      DepositAttached: [filters.DepositAttached(null, userAddress, null)],
+      DepositDetached: [filters.DepositDetached(null, userAddress, null)],
+      AttachmentPledged: [filters.AttachmentPledged(null, userAddress, null)],
+      MemberInvited: [
+        filters.MemberInvited(null, userAddress, null),
+        filters.MemberInvited(null, null, userAddress),
+      ],
+      InviteRevoked: [
+        filters.InviteRevoked(null, userAddress, null),
+        filters.InviteRevoked(null, null, userAddress),
+      ],
+      MemberJoined: [filters.MemberJoined(null, userAddress)],
+      MemberRemoved: [filters.MemberRemoved(null, userAddress)],
+    };
+
+    const queries: Array<Promise<SourcedEvent[]>> = [];
+    for (const name of names.filter((name) => goalManagerFilters[name])) {
+      for (const filter of goalManagerFilters[name]) {
+        queries.push(this.queryLogs(this.goalManager, filter, lower, upper));
+      }
+    }
+
+    const assets = query.asset ? [query.asset] : (Object.keys(VAULTS) as VaultAsset[]);
+    if (names.includes("Deposited") && !query.goalIds) {
+      for (const asset of assets) {
+        const vault = new ethers.Contract(VAULTS[asset].address, VAULT_ABI, this.provider);
+        queries.push(
+          this.queryLogs(vault, vault.filters.OnrampDeposit(userAddress, null, null), lower, upper, asset),
+          this.queryLogs(vault, vault.filters.Deposited(userAddress, null), lower, upper, asset)
+        );
+      }
+    }
+
+    if (queries.length === 0) {
+      return { events: [], next: null };
+    }
+
+    // Invites to oneself match both invite filters, so drop repeated logs
+    const seen = new Set<string>();
+    const events = (await Promise.all(queries)).flat().filter(({ event }) => {
+      const key = `${event.transactionHash}:${event.index}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    return {
+      events,
+      next: lower > startBlock ? { blockNumber: lower, logIndex: 0 } : null,
+    };
+  }
+
+  private async loadGoalIndexedBatch(
+    names: string[],
+    goalIds: string[],
+    range: { fromBlock: number; toBlock: number },
+    before: FeedPosition,
+    limit: number
+  ): Promise<EventBatch> {
+    const indexed = await this.indexer.find(
+      {
+        contractIds: [GOAL_MANAGER_CONTRACT_ID],
+        names,
+        goalIds,
+        fromBlock: range.fromBlock,
+        toBlock: range.toBlock,
+        before,
+      },
+      limit
+    );
+
+    const events: SourcedEvent[] = [];
+    for (const record of indexed) {
+      const event = this.indexer.toEventLog(record);
+      if (event) {
+        events.push({ event, timestamp: record.timestamp });
+      }
+    }
+
+    const last = indexed[indexed.length - 1];
+    return {
+      events,
+      next: indexed.length < limit ? null : { blockNumber: last.blockNumber, logIndex: last.logIndex },
+    };
+  }
+
+  /**
+   * One chunk of GoalManager log queries for the given goals, ending at the
+   * cursor. The scan ends at startBlock, or once a chunk starts before
+   * createdAt (ISO), the creation of the oldest goal.
+   */
+  private async loadGoalRpcBatch(
+    names: string[],
+    goalIds: string[],
+    bounds: { startBlock: number; createdAt: string | null },
+    before: FeedPosition
+  ): Promise<EventBatch> {
+    const upper = before.logIndex === 0 ? before.blockNumber - 1 : before.blockNumber;
+    if (upper < bounds.startBlock || names.length === 0) {
+      return { events: [], next: null };
+    }
+    const lower = Math.max(bounds.startBlock, upper - CHUNK_BLOCKS + 1);
+
+    // An array topic matches any of the goals
+    const events = (
+      await Promise.all(
+        names.map((name) => this.queryLogs(this.goalManager, this.goalManager.filters[name](goalIds), lower, upper))
+      )
+    ).flat();
+
+    const reachedStart =
+      lower <= bounds.startBlock ||
+      (bounds.createdAt !== null && (await this.getBlockTimestamp(lower)) < bounds.createdAt);
+    return {
+      events,
+      next: reachedStart ? null : { blockNumber: lower, logIndex: 0 },
+    };
+  }
+
+  // Creation time of the oldest goal, null when it cannot be read
+  private async getGoalsCreatedAt(goalIds: string[]): Promise<string | null> {
+    try {
+      const goals = await Promise.all(goalIds.map((goalId) => this.goalManager.goals(goalId)));
+      const earliest = Math.min(...goals.map((goal) => Number(goal.createdAt)));
+      return earliest > 0 ? new Date(earliest * 1000).toISOString() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Principal of a deposit, null when the vault cannot be read
+  private async getDepositPrincipal(asset: VaultAsset, owner: string, depositId: string): Promise<string | null> {
+    try {
+      const vault = new ethers.Contract(VAULTS[asset].address, VAULT_ABI, this.provider);
+      const { principal } = await vault.deposits(owner, depositId);
+      return principal.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private async queryLogs(
+    contract: ethers.Contract,
+    filter: ethers.DeferredTopicFilter,
+    fromBlock: number,
+    toBlock: number,
+    asset?: VaultAsset
+  ): Promise<SourcedEvent[]> {
+    const events = await contract.queryFilter(filter, fromBlock, toBlock);
+    return events
+      .filter((event): event is ethers.EventLog => event instanceof ethers.EventLog)
+      .map((event) => ({ event, asset }));
+  }
+
+  private async getBlockTimestamp(blockNumber: number): Promise<string> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached) {
+      return cached;
+    }
+    const block = await this.provider.getBlock(blockNumber);
+    const timestamp = block
+      ? new Date(block.timestamp * 1000).toISOString()
+      : new Date(0).toISOString();
+    this.blockTimestamps.set(blockNumber, timestamp);
+    return timestamp;
+  }
+
+  private formatUSD = async (asset: VaultAsset, amountWei: string) =>
+    formatUSDForDisplay(await this.prices.toUSD(asset, amountWei));
+
+  private async toGoalActivity(
+    { event, timestamp }: SourcedEvent,
+    goalAssets: Map<string, VaultAsset>
+  ): Promise<Positioned<GoalActivityItem> | null> {
+    if (event.blockNumber === null || event.blockNumber === undefined || !event.transactionHash) {
+      return null;
+    }
+    const args = event.args;
+    const goalId = args.goalId?.toString?.() || "";
+    const asset = goalAssets.get(goalId);
+    const type = GOAL_EVENT_TYPES[event.eventName];
+    if (!asset || !type) {
+      return null;
+    }
+
+    let actor: string | null = null;
+    let depositId: string | undefined;
+    let amountWei: string | null = null;
+    if (event.eventName === "DepositAttached" || event.eventName === "DepositDetached") {
+      const deposit: string = args.depositId?.toString?.() || "";
+      actor = args.owner?.toLowerCase?.() || null;
+      depositId = deposit;
+      amountWei = actor ? await this.getDepositPrincipal(asset, actor, deposit) : null;
+    } else if (event.eventName === "MemberJoined" || event.eventName === "MemberRemoved") {
+      actor = args.member?.toLowerCase?.() || null;
+    } else if (event.eventName === "GoalCompleted") {
+      amountWei = args.totalValue?.toString?.() || "0";
+    }
+
+    const item: GoalActivityItem = {
+      id: `${event.transactionHash}:${event.index}`,
+      type,
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      timestamp: timestamp ?? (await this.getBlockTimestamp(event.blockNumber)),
+      goalId,
+      asset,
+      actor,
+      ...(depositId !== undefined ? { depositId } : {}),
+      amountWei,
+      amountUSD: amountWei === null ? null : await this.formatUSD(asset, amountWei),
+    };
+    return { item, logIndex: event.index };
+  }
+
+  private async toActivity(
+    { event, asset, timestamp }: SourcedEvent,
+    userAddress: string
+  ): Promise<PositionedActivity | null> {
+    if (event.blockNumber === null || event.blockNumber === undefined || !event.transactionHash) {
+      return null;
+    }
+    const logIndex = event.index;
+    const base = {
+      id: `${event.transactionHash}:${logIndex}`,
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      timestamp: timestamp ?? (await this.getBlockTimestamp(event.blockNumber)),
+    };
+    const args = event.args;
+    const goalId = args.goalId?.toString?.() || "";
+
+    switch (event.eventName) {
+      case "GoalCreated": {
+        const vaultMetadata = resolveVaultMetadata(args.vault);
+        const targetAmountWei = args.targetAmount?.toString?.() || "0";
+        const targetDateSeconds = Number(args.targetDate || 0);
+        const item: GoalCreatedActivity = {
+          ...base,
+          type: "goal_created",
+          goalId,
+          vault: args.vault,
+          asset: vaultMetadata?.asset ?? null,
+          targetAmountWei,
+          targetAmountUSD: vaultMetadata
+            ? await this.formatUSD(vaultMetadata.asset, targetAmountWei)
+            : "0",
+          targetDate:
+            Number.isFinite(targetDateSeconds) && targetDateSeconds > 0
+              ? new Date(targetDateSeconds * 1000).toISOString()
+              : "",
+          metadataURI: args.metadataURI || "",
+        };
+        return { item, logIndex };
+      }
+      case "DepositAttached":
+      case "DepositDetached":
+      case "AttachmentPledged": {
+        const item: DepositAttachmentActivity = {
+          ...base,
+          type: EVENT_TYPES[event.eventName] as DepositAttachmentActivity["type"],
+          goalId,
+          depositId: args.depositId?.toString?.() || "",
+          ...(event.eventName === "DepositAttached" ? { attachedAt: toIsoTimestamp(args.attachedAt) } : {}),
+          ...(event.eventName === "DepositDetached" ? { detachedAt: toIsoTimestamp(args.detachedAt) } : {}),
+        };
+        return { item, logIndex };
+      }
+      case "MemberInvited":
+      case "InviteRevoked": {
+        const inviter = (event.eventName === "MemberInvited" ? args.inviter : args.revoker)?.toLowerCase?.() || "";
+        const item: MemberInviteActivity = {
+          ...base,
+          type: EVENT_TYPES[event.eventName] as MemberInviteActivity["type"],
+          goalId,
+          inviter,
+          invitee: args.invitee?.toLowerCase?.() || "",
+          role: inviter === userAddress ? "inviter" : "invitee",
+        };
+        return { item, logIndex };
+      }
+      case "MemberJoined":
+      case "MemberRemoved": {
+        const item: MemberStatusActivity = {
+          ...base,
+          type: EVENT_TYPES[event.eventName] as MemberStatusActivity["type"],
+          goalId,
+          member: args.member?.toLowerCase?.() || "",
+        };
+        return { item, logIndex };
+      }
+      case "OnrampDeposit":
+      case "Deposited": {
+        if (!asset) {
+          return null;
+        }
+        const amountWei = args.amount?.toString?.() || "0";
+        const sharesWei = args.shares?.toString?.() || "0";
+        const item: DepositActivity = {
+          ...base,
+          type: "deposit",
+          vault: VAULTS[asset].address,
+          asset,
+          depositId: args.depositId?.toString?.() || "",
+          amountWei,
+          amountUSD: await this.formatUSD(asset, amountWei),
+          sharesWei,
+          sharesUSD: await this.formatUSD(asset, sharesWei),
+          ...(event.eventName === "OnrampDeposit"
+            ? { source: "onramp" as const, onrampTxHash: args.txHash ? String(args.txHash) : undefined }
+            : { source: "direct" as const, lockTier: args.lockTier?.toString?.() || "0" }),
+        };
+        return { item, logIndex };
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+function toIsoTimestamp(seconds?: bigint | number | null): string | undefined {
+  if (seconds === null || seconds === undefined) {
+    return undefined;
+  }
+  const parsed = typeof seconds === "bigint" ? Number(seconds) : seconds;
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return undefined;
+  }
+  return new Date(parsed * 1000).toISOString();
+}
+
+function resolveVaultMetadata(vaultAddress: string): { asset: VaultAsset; decimals: number } | null {
+  const target = vaultAddress.toLowerCase();
+  for (const [asset, config] of Object.entries(VAULTS)) {
+    if (config.address.toLowerCase() === target) {
+      return { asset: asset as VaultAsset, decimals: config.decimals };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,261 @@
+import { v4 as uuidv4 } from "uuid";
+import { VAULTS } from "../constants";
+import { getAllocationBatchesCollection } from "../database";
+import { isValidAddress } from "../utils";
+import { OnrampPayloadError, parseOnrampPayload, type OnrampProviderAdapter } from "../onramp";
+import { AllocationConflictError, AllocationLedgerService } from "./allocation-ledger.service";
+import { ComplianceError, ComplianceService } from "./compliance.service";
+import { GoalMembershipError, GoalMembershipService } from "./goal-membership.service";
+import { TierLimitError, TierService } from "./tier.service";
+import type {
+  AllocationBatch,
+  AllocationBatchItem,
+  AllocationBatchReport,
+  AllocationRecord,
+  OnrampEvent,
+  VaultAsset,
+} from "../types";
+import type { Collection } from "mongodb";
+
+export const MAX_BATCH_ITEMS = 200;
+
+// Columns of a settlement CSV that are not part of the provider payload
+const CSV_ALLOCATION_COLUMNS = ["asset", "tokenSymbol", "userAddress", "amount", "txHash", "targetGoalId", "metaGoalId"];
+
+export interface AllocationBatchInputItem {
+  asset?: string;
+  tokenSymbol?: string;
+  userAddress?: string;
+  amount?: string;
+  txHash?: string;
+  providerPayload?: unknown;
+  targetGoalId?: string;
+  metaGoalId?: string;
+}
+
+/**
+ * Settlement batches: one ledger job per item, recorded together so the batch
+ * can be reported on as a whole. Items are validated independently and a bad
+ * item never blocks the rest of the batch.
+ */
+export class AllocationBatchService {
+  private collection: Collection<AllocationBatch> | null = null;
+
+  constructor(
+    private ledger = new AllocationLedgerService(),
+    private compliance = new ComplianceService(),
+    private tiers = new TierService(),
+    private membership = new GoalMembershipService()
+  ) {}
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getAllocationBatchesCollection();
+    }
+    return this.collection;
+  }
+
+  /**
+   * Map a settlement CSV row to a batch item. Columns other than the
+   * allocation fields form the provider payload, e.g. transaction_code.
+   */
+  static fromCsvRow(row: Record<string, string>): AllocationBatchInputItem {
+    const providerPayload = Object.fromEntries(
+      Object.entries(row).filter(([column, value]) => !CSV_ALLOCATION_COLUMNS.includes(column) && value !== "")
+    );
+    return {
+      asset: row.asset || row.tokenSymbol,
+      userAddress: row.userAddress,
+      amount: row.amount,
+      txHash: row.txHash,
+      providerPayload,
+      targetGoalId: row.targetGoalId || undefined,
+      metaGoalId: row.metaGoalId || undefined,
+    };
+  }
+
+  /**
+   * Validate the items and open a ledger job for each valid one. Returns the
+   * batch and the jobs that still need processing.
+   */
+  async create(params: {
+    adapter: OnrampProviderAdapter;
+    format: AllocationBatch["format"];
+    items: AllocationBatchInputItem[];
+  }): Promise<{ batch: AllocationBatch; runnable: string[] }> {
+    const batchId = uuidv4();
+    const items: AllocationBatchItem[] = [];
+    const runnable: string[] = [];
+    const seen = new Map<string, number>();
+
+    for (const [index, input] of Array.from(params.items.entries())) {
+      const item = await this.openJob(batchId, index, params.adapter, input, seen);
+      items.push(item.result);
+      if (item.job && !AllocationLedgerService.isFinished(item.job)) {
+        runnable.push(item.job.allocationId);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const batch: AllocationBatch = {
+      batchId,
+      providerId: params.adapter.id,
+      format: params.format,
+      items,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const collection = await this.getCollection();
+    await collection.insertOne({ ...batch });
+    return { batch, runnable };
+  }
+
+  async get(batchId: string): Promise<AllocationBatch | null> {
+    const collection = await this.getCollection();
+    return collection.findOne({ batchId }, { projection: { _id: 0 } });
+  }
+
+  async getReport(batchId: string): Promise<AllocationBatchReport | null> {
+    const batch = await this.get(batchId);
+    return batch ? this.toReport(batch) : null;
+  }
+
+  async toReport(batch: AllocationBatch): Promise<AllocationBatchReport> {
+    const jobIds = batch.items.flatMap((item) => (item.jobId ? [item.jobId] : []));
+    const jobs = new Map(
+      (await this.ledger.getMany(jobIds)).map((job) => [job.allocationId, job])
+    );
+
+    const counts: AllocationBatchReport["counts"] = {
+      accepted: 0,
+      invalid: 0,
+      conflict: 0,
+      queued: 0,
+      in_progress: 0,
+      completed: 0,
+      failed: 0,
+      rejected: 0,
+    };
+    const items = batch.items.map((item) => {
+      counts[item.status]++;
+      const job = item.jobId ? jobs.get(item.jobId) : undefined;
+      if (!job) {
+        return item;
+      }
+      counts[job.status]++;
+      return { ...item, job: AllocationLedgerService.toJobResponse(job) };
+    });
+
+    return {
+      batchId: batch.batchId,
+      status: counts.queued + counts.in_progress > 0 ? "processing" : "finished",
+      total: batch.items.length,
+      counts,
+      items,
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    };
+  }
+
+  private async openJob(
+    batchId: string,
+    index: number,
+    adapter: OnrampProviderAdapter,
+    input: AllocationBatchInputItem,
+    seen: Map<string, number>
+  ): Promise<{ result: AllocationBatchItem; job?: AllocationRecord }> {
+    const invalid = (error: string) => ({
+      result: { index, status: "invalid" as const, ...(input?.txHash ? { txHash: input.txHash } : {}), error },
+    });
+
+    if (!input || typeof input !== "object") {
+      return invalid("Invalid item: expected object");
+    }
+    const asset = input.asset || input.tokenSymbol;
+    const { userAddress, txHash, targetGoalId, metaGoalId } = input;
+    if (!asset || !userAddress || !input.amount || !txHash || !input.providerPayload) {
+      return invalid("Missing required fields: asset/tokenSymbol, userAddress, amount, txHash, providerPayload");
+    }
+    if (!VAULTS[asset as VaultAsset]) {
+      return invalid(`Invalid asset. Supported assets: ${Object.keys(VAULTS).join(", ")}`);
+    }
+    if (!isValidAddress(userAddress)) {
+      return invalid("Invalid userAddress");
+    }
+    if (!/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return invalid("Invalid txHash format");
+    }
+    const amount = String(input.amount).trim();
+    if (!/^\d+$/.test(amount)) {
+      return invalid("Invalid amount. Must be a raw integer string (e.g., '1000000')");
+    }
+
+    let onrampEvent: OnrampEvent;
+    try {
+      onrampEvent = parseOnrampPayload(adapter, input.providerPayload);
+    } catch (error) {
+      if (error instanceof OnrampPayloadError) {
+        return invalid(error.message);
+      }
+      throw error;
+    }
+    const providerTxCode = onrampEvent.providerTxCode;
+    if (onrampEvent.status === "failed" || onrampEvent.status === "reversed") {
+      return invalid(`Onramp transaction ${providerTxCode} is ${onrampEvent.status}`);
+    }
+
+    const key = `${txHash.toLowerCase()}:${providerTxCode}`;
+    const duplicateOf = seen.get(key);
+    if (duplicateOf !== undefined) {
+      return {
+        result: { index, status: "conflict", txHash, providerTxCode, error: `Duplicate of item ${duplicateOf}` },
+      };
+    }
+    seen.set(key, index);
+
+    // Earlier items of the batch are already in the ledger, so they count toward the tier cap.
+    // A replayed item gets its stored job; the gates only apply to new allocations.
+    if (!(await this.ledger.find(txHash, providerTxCode))) {
+      try {
+        await this.compliance.check({ action: "allocate", userAddress, asset: asset as VaultAsset, amountWei: amount });
+        await this.membership.assertCanAllocate({ asset: asset as VaultAsset, metaGoalId, targetGoalId }, userAddress);
+        await this.tiers.assertAllocation(userAddress, { asset: asset as VaultAsset, amount, txHash, providerTxCode });
+      } catch (error) {
+        if (error instanceof ComplianceError || error instanceof TierLimitError || error instanceof GoalMembershipError) {
+          return invalid(error.message);
+        }
+        throw error;
+      }
+    }
+
+    let job: AllocationRecord;
+    try {
+      job = await this.ledger.begin({
+        txHash,
+        providerTxCode,
+        asset: asset as VaultAsset,
+        userAddress,
+        amount,
+        targetGoalId,
+        metaGoalId,
+        onrampEvent,
+        batchId,
+      });
+    } catch (error) {
+      if (error instanceof AllocationConflictError) {
+        return { result: { index, status: "conflict", txHash, providerTxCode, error: error.message } };
+      }
+      throw error;
+    }
+
+    // Resubmitting a failed allocation resumes it from its last completed step
+    if (job.status === "failed") {
+      job = (await this.ledger.requeue(job.allocationId)) ?? job;
+    }
+
+    return {
+      result: { index, status: "accepted", jobId: job.allocationId, txHash, providerTxCode },
+      job,
+    };
+  }
+}
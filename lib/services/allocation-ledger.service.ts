@@ -0,0 +1,364 @@
+import { v4 as uuidv4 } from "uuid";
+import { getAllocationsCollection } from "../database";
+import type {
+  AllocateResponse,
+  AllocationJobResponse,
+  AllocationRecord,
+  AllocationStep,
+  OnrampEvent,
+  TransferRejectionCode,
+  VaultAsset,
+} from "../types";
+import type { Collection } from "mongodb";
+
+const STEP_ORDER: AllocationStep[] = [
+  "received",
+  "verified",
+  "allocated",
+  "attached",
+  "scored",
+];
+
+// How long a request may hold an allocation before another retry can take over. Workers
+// renew it before each chain step, so it must outlast one backend transaction wait (3 min).
+const LOCK_TTL_MS = 5 * 60 * 1000;
+
+export interface BeginAllocationInput {
+  txHash: string;
+  providerTxCode: string;
+  asset: VaultAsset;
+  userAddress: string;
+  amount: string;
+  targetGoalId?: string;
+  metaGoalId?: string;
+  onrampEvent?: OnrampEvent;
+  batchId?: string;
+  callbackUrl?: string;
+}
+
+export class AllocationConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AllocationConflictError";
+  }
+}
+
+export class AllocationLedgerService {
+  private collection: Collection<AllocationRecord> | null = null;
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getAllocationsCollection();
+    }
+    return this.collection;
+  }
+
+  static hasReached(record: AllocationRecord, step: AllocationStep): boolean {
+    return STEP_ORDER.indexOf(record.step) >= STEP_ORDER.indexOf(step);
+  }
+
+  static isFinished(record: AllocationRecord): boolean {
+    return ["completed", "failed", "rejected"].includes(record.status);
+  }
+
+  static toJobResponse(record: AllocationRecord): AllocationJobResponse {
+    return {
+      jobId: record.allocationId,
+      status: record.status,
+      step: record.step,
+      stepCompletedAt: record.stepCompletedAt,
+      attempts: record.attempts,
+      txHash: record.txHash,
+      providerTxCode: record.providerTxCode,
+      ...(record.response ? { response: record.response } : {}),
+      ...(record.status !== "completed" && record.lastError ? { error: record.lastError } : {}),
+      ...(record.rejectionCode ? { code: record.rejectionCode } : {}),
+      ...(record.rejectionId ? { rejectionId: record.rejectionId } : {}),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  async get(allocationId: string): Promise<AllocationRecord | null> {
+    const collection = await this.getCollection();
+    return collection.findOne({ allocationId }, { projection: { _id: 0 } });
+  }
+
+  async getMany(allocationIds: string[]): Promise<AllocationRecord[]> {
+    const collection = await this.getCollection();
+    return collection
+      .find({ allocationId: { $in: allocationIds } }, { projection: { _id: 0 } })
+      .toArray();
+  }
+
+  /**
+   * The allocation record for a txHash + provider transaction code, if one was opened.
+   */
+  async find(txHash: string, providerTxCode: string): Promise<AllocationRecord | null> {
+    const collection = await this.getCollection();
+    return collection.findOne({ txHash: txHash.toLowerCase(), providerTxCode }, { projection: { _id: 0 } });
+  }
+
+  /**
+   * Find or create the allocation record for a txHash + provider transaction code.
+   * Throws AllocationConflictError if a replay does not match the original request.
+   */
+  async begin(input: BeginAllocationInput): Promise<AllocationRecord> {
+    const collection = await this.getCollection();
+    const now = new Date().toISOString();
+    const txHash = input.txHash.toLowerCase();
+    const userAddress = input.userAddress.toLowerCase();
+
+    const record = await collection.findOneAndUpdate(
+      { txHash, providerTxCode: input.providerTxCode },
+      {
+        $setOnInsert: {
+          allocationId: uuidv4(),
+          txHash,
+          providerTxCode: input.providerTxCode,
+          asset: input.asset,
+          userAddress,
+          amount: input.amount,
+          ...(input.targetGoalId ? { targetGoalId: input.targetGoalId } : {}),
+          ...(input.metaGoalId ? { metaGoalId: input.metaGoalId } : {}),
+          ...(input.onrampEvent ? { onrampEvent: input.onrampEvent } : {}),
+          ...(input.batchId ? { batchId: input.batchId } : {}),
+          ...(input.callbackUrl ? { callbackUrl: input.callbackUrl } : {}),
+          status: "queued",
+          step: "received",
+          stepCompletedAt: { received: now },
+          attempts: 0,
+          createdAt: now,
+          updatedAt: now,
+        },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+
+    if (!record) {
+      throw new Error("Failed to create allocation record");
+    }
+
+    if (
+      record.userAddress !== userAddress ||
+      record.amount !== input.amount ||
+      record.asset !== input.asset
+    ) {
+      throw new AllocationConflictError(
+        `Allocation for txHash ${txHash} and transaction code ${input.providerTxCode} was already submitted with different parameters`
+      );
+    }
+
+    return record;
+  }
+
+  /**
+   * Put a failed allocation back in the queue so a worker resumes it from its last completed step.
+   */
+  async requeue(allocationId: string): Promise<AllocationRecord | null> {
+    const collection = await this.getCollection();
+    return collection.findOneAndUpdate(
+      { allocationId, status: "failed" },
+      { $set: { status: "queued", updatedAt: new Date().toISOString() } },
+      { returnDocument: "after" }
+    );
+  }
+
+  /**
+   * Queued jobs, plus in-progress jobs whose worker lease expired (e.g. the process died).
+   */
+  async findRunnable(limit: number): Promise<AllocationRecord[]> {
+    const collection = await this.getCollection();
+    return collection
+      .find({
+        $or: [
+          { status: "queued" },
+          { status: "in_progress", lockedUntil: { $lt: new Date().toISOString() } },
+        ],
+      })
+      .sort({ updatedAt: 1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Take an exclusive lease on an allocation so concurrent workers do not run
+   * the same on-chain step twice. Returns null if another worker holds it or
+   * the job already finished.
+   */
+  async acquire(allocationId: string): Promise<AllocationRecord | null> {
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    return collection.findOneAndUpdate(
+      {
+        allocationId,
+        status: { $in: ["queued", "in_progress"] },
+        $or: [
+          { lockedUntil: { $exists: false } },
+          { lockedUntil: { $lt: now.toISOString() } },
+        ],
+      },
+      {
+        $set: {
+          status: "in_progress",
+          lockedUntil: new Date(now.getTime() + LOCK_TTL_MS).toISOString(),
+          updatedAt: now.toISOString(),
+        },
+        $inc: { attempts: 1 },
+      },
+      { returnDocument: "after" }
+    );
+  }
+
+  /**
+   * Renew the lease of jobs a worker still holds, for batches that run longer
+   * than a single lease.
+   */
+  async extendLease(allocationIds: string[]): Promise<void> {
+    const collection = await this.getCollection();
+    const now = new Date();
+    await collection.updateMany(
+      { allocationId: { $in: allocationIds }, status: "in_progress" },
+      {
+        $set: {
+          lockedUntil: new Date(now.getTime() + LOCK_TTL_MS).toISOString(),
+          updatedAt: now.toISOString(),
+        },
+      }
+    );
+  }
+
+  /**
+   * Persist intermediate data (e.g. a submitted tx hash) without advancing the step.
+   */
+  async recordProgress(
+    allocationId: string,
+    fields: Partial<Pick<AllocationRecord, "allocateTxHash" | "goalId" | "score" | "scoreTxHash">>
+  ): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { allocationId },
+      { $set: { ...fields, updatedAt: new Date().toISOString() } }
+    );
+  }
+
+  /**
+   * Transfer logs of a (possibly batched) transaction already claimed by other allocations.
+   */
+  async getClaimedTransferLogIndexes(
+    txHash: string,
+    excludeAllocationId: string
+  ): Promise<number[]> {
+    const collection = await this.getCollection();
+    const claimed = await collection
+      .find(
+        {
+          txHash: txHash.toLowerCase(),
+          allocationId: { $ne: excludeAllocationId },
+          transferLogIndex: { $exists: true },
+        },
+        { projection: { transferLogIndex: 1 } }
+      )
+      .toArray();
+    return claimed
+      .map((record) => record.transferLogIndex)
+      .filter((logIndex): logIndex is number => logIndex !== undefined);
+  }
+
+  async completeStep(
+    allocationId: string,
+    step: AllocationStep,
+    fields: Partial<
+      Pick<
+        AllocationRecord,
+        | "depositId"
+        | "shares"
+        | "goalId"
+        | "transferLogIndex"
+        | "transferSender"
+        | "verifiedAmount"
+      >
+    > = {}
+  ): Promise<void> {
+    const collection = await this.getCollection();
+    const now = new Date().toISOString();
+    await collection.updateOne(
+      { allocationId },
+      {
+        $set: {
+          ...fields,
+          step,
+          [`stepCompletedAt.${step}`]: now,
+          updatedAt: now,
+        },
+      }
+    );
+  }
+
+  async complete(allocationId: string, response: AllocateResponse): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { allocationId },
+      {
+        $set: {
+          status: "completed",
+          response,
+          updatedAt: new Date().toISOString(),
+        },
+        $unset: { lockedUntil: "", lastError: "" },
+      }
+    );
+  }
+
+  /**
+   * Mark a job failed. A completed or rejected job keeps its outcome.
+   */
+  async fail(allocationId: string, error: string): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { allocationId, status: { $nin: ["completed", "rejected"] } },
+      {
+        $set: {
+          status: "failed",
+          lastError: error,
+          updatedAt: new Date().toISOString(),
+        },
+        $unset: { lockedUntil: "" },
+      }
+    );
+  }
+
+  async reject(
+    allocationId: string,
+    rejectionId: string,
+    code: TransferRejectionCode,
+    reason: string
+  ): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { allocationId },
+      {
+        $set: {
+          status: "rejected",
+          rejectionId,
+          rejectionCode: code,
+          lastError: reason,
+          updatedAt: new Date().toISOString(),
+        },
+        $unset: { lockedUntil: "" },
+      }
+    );
+  }
+
+  async recordCallback(allocationId: string, error?: string): Promise<void> {
+    const collection = await this.getCollection();
+    const now = new Date().toISOString();
+    await collection.updateOne(
+      { allocationId },
+      error
+        ? { $set: { callbackError: error, updatedAt: now } }
+        : { $set: { callbackDeliveredAt: now, updatedAt: now }, $unset: { callbackError: "" } }
+    );
+  }
+}
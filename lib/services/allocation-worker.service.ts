@@ -0,0 +1,526 @@
+import { ethers } from "ethers";
+import { VAULTS } from "../constants";
+import { createProvider, waitForTransactionReceipt } from "../utils";
+import { AllocationLedgerService } from "./allocation-ledger.service";
+import { AllocationService } from "./allocation.service";
+import { TransferVerificationService } from "./transfer-verification.service";
+import { TransactionSubmitter } from "./transaction-submitter.service";
+import { logger } from "../logger";
+import type { AllocationRecord } from "../types";
+
+const CALLBACK_TIMEOUT_MS = 10_000;
+const CALLBACK_ATTEMPTS = 3;
+
+// A verified and allocated deposit moving through the remaining steps
+interface BatchItem {
+  record: AllocationRecord;
+  amount: string;
+  depositId: string;
+  shares: string;
+  goalId: bigint;
+}
+
+/**
+ * Drives allocation jobs through the chain steps recorded in the allocation
+ * ledger: verify the onramp transfer, allocate the deposit, attach it to a
+ * goal and record the leaderboard score. Each step is persisted, so a job can
+ * be resumed by any worker after a crash or failure.
+ */
+export class AllocationWorkerService {
+  constructor(
+    private ledger = new AllocationLedgerService(),
+    private transferVerifier = new TransferVerificationService()
+  ) {}
+
+  /**
+   * Run a job if no other worker holds it. Never throws: failures are recorded
+   * on the job. Returns the job as it stands afterwards, or null if it was not
+   * acquired or could not be read back.
+   */
+  async process(allocationId: string): Promise<AllocationRecord | null> {
+    let record: AllocationRecord | null;
+    try {
+      record = await this.ledger.acquire(allocationId);
+    } catch (error) {
+      logger.error("Failed to acquire allocation job", {
+        allocationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+    if (!record) {
+      return null;
+    }
+
+    logger.info("📒 Allocation job acquired", {
+      allocationId,
+      step: record.step,
+      attempts: record.attempts,
+    });
+
+    try {
+      try {
+        await this.run(record);
+      } catch (error) {
+        await this.recordFailure(allocationId, error);
+      }
+
+      const finished = await this.ledger.get(allocationId);
+      if (finished?.callbackUrl && AllocationLedgerService.isFinished(finished)) {
+        await this.notifyCallback(finished);
+      }
+      return finished;
+    } catch (error) {
+      await this.recordFailure(allocationId, error);
+      return null;
+    }
+  }
+
+  /**
+   * Process queued jobs and jobs abandoned by a dead worker, oldest first.
+   */
+  async processPending(limit = 10): Promise<number> {
+    const runnable = await this.ledger.findRunnable(limit);
+    let processed = 0;
+    for (const job of runnable) {
+      if (await this.process(job.allocationId)) {
+        processed++;
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Run a settlement batch. Each deposit is verified and allocated on its own,
+   * then attachments are grouped into one attachDepositsOnBehalf call per goal
+   * and user, and leaderboard scores into one call per user. A failing item
+   * only fails its own job; jobs not acquired here are left to the worker
+   * holding them. Never throws.
+   */
+  async processBatch(allocationIds: string[], reference?: string): Promise<void> {
+    const acquired: AllocationRecord[] = [];
+    for (const allocationId of allocationIds) {
+      try {
+        const record = await this.ledger.acquire(allocationId);
+        if (record) {
+          acquired.push(record);
+        }
+      } catch (error) {
+        logger.error("Failed to acquire allocation job", {
+          allocationId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    if (acquired.length === 0) {
+      return;
+    }
+    logger.info("📦 Allocation batch acquired", { reference, jobs: acquired.length });
+
+    try {
+      await this.runBatch(acquired, reference);
+    } catch (error) {
+      // Finished jobs keep their state; the rest are failed so they can be requeued
+      for (const record of acquired) {
+        await this.recordFailure(record.allocationId, error);
+      }
+    }
+  }
+
+  private async runBatch(acquired: AllocationRecord[], reference?: string): Promise<void> {
+    const provider = createProvider();
+    const submitter = new TransactionSubmitter(provider);
+    const allocations = new AllocationService("onramp", provider, submitter);
+    // Only jobs still in progress are renewed
+    const jobIds = acquired.map((job) => job.allocationId);
+
+    const prepared: BatchItem[] = [];
+    for (const record of acquired) {
+      await this.ledger.extendLease(jobIds);
+      try {
+        const amount = await this.verifyTransfer(record, provider);
+        if (amount === null) {
+          continue;
+        }
+        const deposit = await this.allocateDeposit(record, amount, allocations);
+        prepared.push({
+          record,
+          amount,
+          ...deposit,
+          goalId: record.goalId ? BigInt(record.goalId) : BigInt(0),
+        });
+      } catch (error) {
+        await this.recordFailure(record.allocationId, error);
+      }
+    }
+
+    // Group attachments per goal and user
+    const attachGroups = new Map<string, BatchItem[]>();
+    const unrouted: BatchItem[] = [];
+    for (const item of prepared) {
+      if (AllocationLedgerService.hasReached(item.record, "attached")) {
+        continue;
+      }
+      await this.ledger.extendLease(jobIds);
+      try {
+        item.goalId = await this.selectGoal(item.record, item.amount, allocations);
+      } catch (error) {
+        // Failed rather than attached to no goal, so a requeued job routes it again
+        await this.recordFailure(item.record.allocationId, error);
+        unrouted.push(item);
+        continue;
+      }
+      if (item.goalId === BigInt(0)) {
+        await this.ledger.completeStep(item.record.allocationId, "attached", { goalId: "0" });
+        continue;
+      }
+      const key = `${item.record.asset}:${item.goalId}:${item.record.userAddress}`;
+      attachGroups.set(key, [...(attachGroups.get(key) ?? []), item]);
+    }
+
+    for (const group of Array.from(attachGroups.values())) {
+      await this.ledger.extendLease(jobIds);
+      const { asset, userAddress } = group[0].record;
+      let goalIds = new Map<string, bigint>();
+      try {
+        goalIds = await allocations.attachDeposits({
+          asset,
+          userAddress,
+          depositIds: group.map((item) => item.depositId),
+          goalId: group[0].goalId,
+          reference,
+        });
+      } catch (error) {
+        logger.warn("Failed to attach batch deposits, skipping", {
+          goalId: group[0].goalId.toString(),
+          userAddress,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      for (const item of group) {
+        item.goalId = goalIds.get(item.depositId) ?? BigInt(0);
+        await this.ledger.completeStep(item.record.allocationId, "attached", {
+          goalId: item.goalId.toString(),
+        });
+      }
+    }
+
+    // Score per user. Jobs with a score tx from an earlier attempt resume it on their own.
+    const scored = prepared.filter((item) => AllocationLedgerService.hasReached(item.record, "scored"));
+    const scoreGroups = new Map<string, BatchItem[]>();
+    for (const item of prepared) {
+      if (scored.includes(item) || unrouted.includes(item)) {
+        continue;
+      }
+      const key = item.record.scoreTxHash ? item.record.allocationId : item.record.userAddress;
+      scoreGroups.set(key, [...(scoreGroups.get(key) ?? []), item]);
+    }
+
+    for (const group of Array.from(scoreGroups.values())) {
+      await this.ledger.extendLease(jobIds);
+      try {
+        let score = BigInt(0);
+        for (const item of group) {
+          score += BigInt(await this.scoreFor(item, allocations));
+        }
+        await allocations.recordScore({
+          userAddress: group[0].record.userAddress,
+          score: score.toString(),
+          reference,
+          resumeHash: group[0].record.scoreTxHash,
+          onSubmitted: (hash) =>
+            Promise.all(
+              group.map((item) =>
+                this.ledger.recordProgress(item.record.allocationId, { scoreTxHash: hash })
+              )
+            ).then(() => undefined),
+        });
+        for (const item of group) {
+          await this.ledger.completeStep(item.record.allocationId, "scored");
+          scored.push(item);
+        }
+      } catch (error) {
+        for (const item of group) {
+          await this.recordFailure(item.record.allocationId, error);
+        }
+      }
+    }
+
+    for (const item of scored) {
+      try {
+        await this.finish(item, allocations);
+      } catch (error) {
+        await this.recordFailure(item.record.allocationId, error);
+      }
+    }
+
+    for (const finished of await this.ledger.getMany(jobIds)) {
+      if (finished.callbackUrl && AllocationLedgerService.isFinished(finished)) {
+        await this.notifyCallback(finished);
+      }
+    }
+    logger.info("📦 Allocation batch processed", { reference, jobs: acquired.length });
+  }
+
+  private async run(record: AllocationRecord): Promise<void> {
+    const provider = createProvider();
+    const submitter = new TransactionSubmitter(provider);
+    // Renewed before each chain step so no other worker takes the job over mid-step
+    const jobIds = [record.allocationId];
+
+    const amount = await this.verifyTransfer(record, provider);
+    if (amount === null) {
+      return;
+    }
+
+    const allocations = new AllocationService("onramp", provider, submitter);
+    await this.ledger.extendLease(jobIds);
+    const deposit = await this.allocateDeposit(record, amount, allocations);
+    const item: BatchItem = {
+      record,
+      amount,
+      ...deposit,
+      goalId: record.goalId ? BigInt(record.goalId) : BigInt(0),
+    };
+
+    // Handle goal attachment
+    if (!AllocationLedgerService.hasReached(record, "attached")) {
+      // A failed goal selection fails the job, so a requeued job routes it again
+      await this.ledger.extendLease(jobIds);
+      const goalId = await this.selectGoal(record, amount, allocations);
+      await this.ledger.extendLease(jobIds);
+      try {
+        item.goalId = await allocations.attachDeposit({
+          asset: record.asset,
+          userAddress: record.userAddress,
+          depositId: item.depositId,
+          goalId,
+          reference: record.allocationId,
+        });
+      } catch (error) {
+        logger.warn("Failed to handle goal attachment, skipping", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        item.goalId = BigInt(0);
+      }
+
+      await this.ledger.completeStep(record.allocationId, "attached", {
+        goalId: item.goalId.toString(),
+      });
+    }
+
+    if (!AllocationLedgerService.hasReached(record, "scored")) {
+      await this.ledger.extendLease(jobIds);
+      await allocations.recordScore({
+        userAddress: record.userAddress,
+        score: await this.scoreFor(item, allocations),
+        reference: record.allocationId,
+        resumeHash: record.scoreTxHash,
+        onSubmitted: (hash) => this.ledger.recordProgress(record.allocationId, { scoreTxHash: hash }),
+      });
+      await this.ledger.completeStep(record.allocationId, "scored");
+    }
+
+    await this.finish(item, allocations);
+  }
+
+  /**
+   * Verify the onramp transfer behind a job. Returns the amount to allocate,
+   * or null when the job was failed or rejected instead.
+   */
+  private async verifyTransfer(
+    record: AllocationRecord,
+    provider: ethers.JsonRpcProvider
+  ): Promise<string | null> {
+    const { allocationId, txHash } = record;
+
+    // Allocate what actually reached the vault, which may differ from the request within tolerance
+    if (AllocationLedgerService.hasReached(record, "verified")) {
+      return record.verifiedAmount ?? record.amount;
+    }
+
+    // Wait for transaction receipt
+    const receipt = await waitForTransactionReceipt(provider, txHash);
+    logger.debug("Transaction receipt", { receipt });
+    if (!receipt || !receipt.status) {
+      await this.ledger.fail(allocationId, "Transaction not found or failed");
+      return null;
+    }
+
+    // Reconcile the decoded Transfer value and sender with the request
+    const claimedLogIndexes = await this.ledger.getClaimedTransferLogIndexes(
+      txHash,
+      allocationId
+    );
+    if (this.transferVerifier.providerWallets.length === 0) {
+      logger.warn("ONRAMP_PROVIDER_WALLETS not configured, skipping sender check");
+    }
+    const verification = this.transferVerifier.verify({
+      logs: receipt.logs,
+      vaultConfig: VAULTS[record.asset],
+      requestedAmount: record.amount,
+      claimedLogIndexes,
+    });
+
+    if (!verification.verified) {
+      const rejection = await this.transferVerifier.recordRejection(record, verification);
+      await this.ledger.reject(
+        allocationId,
+        rejection.rejectionId,
+        verification.code,
+        verification.reason
+      );
+      logger.warn("🚫 Onramp transfer rejected", {
+        allocationId,
+        rejectionId: rejection.rejectionId,
+        code: verification.code,
+        reason: verification.reason,
+      });
+      return null;
+    }
+
+    logger.info("Vault transfer verified", { transfer: verification.transfer });
+    await this.ledger.completeStep(allocationId, "verified", {
+      transferLogIndex: verification.transfer.logIndex,
+      transferSender: verification.transfer.from,
+      verifiedAmount: verification.transfer.value,
+    });
+    return verification.transfer.value;
+  }
+
+  private async allocateDeposit(
+    record: AllocationRecord,
+    amount: string,
+    allocations: AllocationService
+  ): Promise<{ depositId: string; shares: string }> {
+    if (AllocationLedgerService.hasReached(record, "allocated")) {
+      return { depositId: record.depositId ?? "", shares: record.shares ?? "" };
+    }
+
+    const { allocationId } = record;
+    const deposit = await allocations.allocateOnrampDeposit({
+      asset: record.asset,
+      userAddress: record.userAddress,
+      amount,
+      onrampTxHash: record.txHash,
+      reference: allocationId,
+      resumeHash: record.allocateTxHash,
+      onSubmitted: (hash) => this.ledger.recordProgress(allocationId, { allocateTxHash: hash }),
+    });
+    await this.ledger.completeStep(allocationId, "allocated", {
+      depositId: deposit.depositId,
+      shares: deposit.shares,
+    });
+    return { depositId: deposit.depositId, shares: deposit.shares };
+  }
+
+  /**
+   * A resumed allocation keeps the goal chosen on its first attempt.
+   */
+  private async selectGoal(
+    record: AllocationRecord,
+    amount: string,
+    allocations: AllocationService
+  ): Promise<bigint> {
+    if (record.goalId !== undefined) {
+      return BigInt(record.goalId);
+    }
+
+    const goalId = await allocations.selectGoal({
+      asset: record.asset,
+      userAddress: record.userAddress,
+      targetGoalId: record.targetGoalId,
+      metaGoalId: record.metaGoalId,
+      amount,
+    });
+    await this.ledger.recordProgress(record.allocationId, { goalId: goalId.toString() });
+    return goalId;
+  }
+
+  /**
+   * Leaderboard score of a job. It is persisted before the score transaction
+   * is sent, so a resumed job records the same value even if the price moved.
+   */
+  private async scoreFor(item: BatchItem, allocations: AllocationService): Promise<string> {
+    if (item.record.score) {
+      return item.record.score;
+    }
+    const score = await allocations.toScore(item.record.asset, item.amount);
+    await this.ledger.recordProgress(item.record.allocationId, { score });
+    item.record.score = score;
+    return score;
+  }
+
+  private async finish(item: BatchItem, allocations: AllocationService): Promise<void> {
+    const { record } = item;
+    const response = await allocations.buildResponse({
+      asset: record.asset,
+      userAddress: record.userAddress,
+      depositId: item.depositId,
+      shares: item.shares,
+      amount: item.amount,
+      goalId: item.goalId,
+      txHash: record.txHash,
+    });
+
+    await this.ledger.complete(record.allocationId, response);
+    logger.info("📤 Allocation job completed", { allocationId: record.allocationId, response });
+  }
+
+  private async recordFailure(allocationId: string, error: unknown): Promise<void> {
+    logger.error("❌ Allocation job failed", {
+      allocationId,
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    await this.ledger
+      .fail(allocationId, error instanceof Error ? error.message : String(error))
+      .catch((ledgerError) =>
+        logger.error("Failed to record allocation failure", {
+          allocationId,
+          error: ledgerError instanceof Error ? ledgerError.message : String(ledgerError),
+        })
+      );
+  }
+
+  /**
+   * POST the finished job to its callback URL, retrying transient failures.
+   */
+  private async notifyCallback(record: AllocationRecord): Promise<void> {
+    const body = JSON.stringify(AllocationLedgerService.toJobResponse(record));
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= CALLBACK_ATTEMPTS; attempt++) {
+      try {
+        const response = await fetch(record.callbackUrl!, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+          signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        });
+        if (response.ok) {
+          await this.ledger.recordCallback(record.allocationId);
+          logger.info("📣 Allocation callback delivered", {
+            allocationId: record.allocationId,
+            status: record.status,
+          });
+          return;
+        }
+        lastError = `Callback responded with HTTP ${response.status}`;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      if (attempt < CALLBACK_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+      }
+    }
+
+    logger.warn("Allocation callback failed", {
+      allocationId: record.allocationId,
+      callbackUrl: record.callbackUrl,
+      error: lastError,
+    });
+    await this.ledger.recordCallback(record.allocationId, lastError);
+  }
+}
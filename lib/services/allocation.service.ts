@@ -0,0 +1,1054 @@
+import { ethers } from "ethers";
+import {
+  VAULTS,
+  CONTRACTS,
+  VAULT_ABI,
+  GOAL_MANAGER_ABI,
+  LEADERBOARD_ABI,
+} from "../constants";
+import {
+  createProvider,
+  waitForTransactionReceipt,
+  findEventInLogs,
+  formatAmountForDisplay,
+  getContractCompliantTargetDate,
+} from "../utils";
+import { getMetaGoalsCollection } from "../database";
+import { GoalMembershipError, GoalMembershipService } from "./goal-membership.service";
+import { GoalSyncService } from "./goal-sync.service";
+import { RoutingRuleService } from "./routing-rule.service";
+import { PriceService } from "./price.service";
+import { TransactionSubmitter, type TransactionResult } from "./transaction-submitter.service";
+import { XPService } from "./xp.service";
+import { logger } from "../logger";
+import type {
+  AllocateResponse,
+  AllocationPreviewResponse,
+  AllocationPreviewTransaction,
+  GoalRoutingSource,
+  MetaGoal,
+  RoutingRule,
+  VaultAsset,
+} from "../types";
+
+/**
+ * onramp: the backend allocates a provider transfer into the vault for the user.
+ * direct: the user deposited into the vault themselves; the backend only routes it.
+ */
+export type AllocationMode = "onramp" | "direct";
+
+export class AllocationValidationError extends Error {
+  constructor(
+    message: string,
+    public details: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "AllocationValidationError";
+  }
+}
+
+export interface AllocatedDeposit {
+  depositId: string;
+  shares: string;
+  amount: string;
+  txHash: string;
+}
+
+export interface GoalRoutingInput {
+  asset: VaultAsset;
+  userAddress: string;
+  targetGoalId?: string;
+  metaGoalId?: string;
+  amount?: string; // raw token amount, used by routing rule amount conditions
+}
+
+export interface DirectAllocationInput extends GoalRoutingInput {
+  txHash: string;
+}
+
+export interface GoalRoutingPlan {
+  source: GoalRoutingSource;
+  goalId: bigint; // 0 when the goal still has to be created
+  createsGoal: boolean;
+  metaGoalId?: string; // meta-goal routed to or expanded
+  ruleId?: string; // routing rule that selected the goal
+  fallbacks: string[]; // why earlier candidates in the chain were skipped
+}
+
+export interface AllocationPreviewInput extends GoalRoutingInput {
+  amount: string;
+  txHash?: string;
+}
+
+// Why a goal cannot take the deposit; cause is set when membership requirements are unmet
+interface GoalProblem {
+  error: string;
+  details: Record<string, string>;
+  cause?: GoalMembershipError;
+}
+
+interface SubmitHooks {
+  reference?: string;
+  // Hash of an earlier attempt to resume instead of submitting again
+  resumeHash?: string;
+  onSubmitted?: (hash: string) => Promise<void> | void;
+}
+
+/**
+ * Allocation steps shared by the onramp job worker and the direct deposit
+ * endpoint: obtain the vault deposit, route it to a goal, attach it and
+ * record the leaderboard score.
+ *
+ * Direct allocations come from an interactive client, so an explicitly
+ * requested goal that cannot take the deposit is an AllocationValidationError.
+ * Onramp funds are already in the vault and must land somewhere, so the same
+ * problems fall back to the next goal in the routing chain instead.
+ */
+export class AllocationService {
+  private goalManager: ethers.Contract;
+  private leaderboard: ethers.Contract;
+
+  constructor(
+    private mode: AllocationMode,
+    private provider: ethers.JsonRpcProvider = createProvider(),
+    private submitter: TransactionSubmitter = new TransactionSubmitter(provider),
+    private routingRules: RoutingRuleService = new RoutingRuleService(),
+    private prices: PriceService = new PriceService(),
+    private memberships: GoalMembershipService = new GoalMembershipService()
+  ) {
+    this.goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
+    this.leaderboard = new ethers.Contract(CONTRACTS.LEADERBOARD, LEADERBOARD_ABI, provider);
+  }
+
+  private get strict(): boolean {
+    return this.mode === "direct";
+  }
+
+  /**
+   * Full direct-deposit flow: read the user's deposit, route, attach and score it.
+   */
+  async allocateDirect(input: DirectAllocationInput): Promise<AllocateResponse> {
+    const deposit = await this.readDirectDeposit(input);
+    const selectedGoalId = await this.selectGoal({ ...input, amount: deposit.amount });
+    // Nothing new is attached on a retry, and the earlier request already scored the deposit
+    const alreadyAttached =
+      (await this.attachedGoal(input.asset, input.userAddress, deposit.depositId)) === selectedGoalId;
+    const goalId = await this.attachDeposit({
+      asset: input.asset,
+      userAddress: input.userAddress,
+      depositId: deposit.depositId,
+      goalId: selectedGoalId,
+    });
+    if (!alreadyAttached) {
+      await this.recordScore({
+        userAddress: input.userAddress,
+        score: await this.toScore(input.asset, deposit.amount),
+      });
+    }
+
+    return this.buildResponse({
+      asset: input.asset,
+      userAddress: input.userAddress,
+      depositId: deposit.depositId,
+      shares: deposit.shares,
+      amount: deposit.amount,
+      goalId,
+      txHash: input.txHash,
+    });
+  }
+
+  /**
+   * onramp mode: credit a verified provider transfer to the user through the vault.
+   */
+  async allocateOnrampDeposit(
+    params: {
+      asset: VaultAsset;
+      userAddress: string;
+      amount: string;
+      onrampTxHash: string;
+    } & SubmitHooks
+  ): Promise<AllocatedDeposit> {
+    const vault = new ethers.Contract(VAULTS[params.asset].address, VAULT_ABI, this.provider);
+
+    // Resume a previously submitted allocation tx instead of sending a second one
+    let result: TransactionResult | null = params.resumeHash
+      ? await this.submitter.resume(params.resumeHash)
+      : null;
+    if (!result) {
+      result = await this.submitter.send(
+        vault,
+        "allocateOnrampDeposit",
+        [params.userAddress, BigInt(params.amount), params.onrampTxHash],
+        { reference: params.reference, onSubmitted: params.onSubmitted }
+      );
+    }
+
+    const onrampDepositEvent = findEventInLogs(result.receipt.logs, vault, "OnrampDeposit");
+    if (!onrampDepositEvent) {
+      throw new Error("Failed to parse onramp deposit event from allocation tx");
+    }
+
+    return {
+      depositId: onrampDepositEvent.args.depositId.toString(),
+      shares: onrampDepositEvent.args.shares.toString(),
+      amount: params.amount,
+      txHash: result.hash,
+    };
+  }
+
+  /**
+   * direct mode: read the Deposited event of the user's own vault deposit.
+   */
+  async readDirectDeposit(params: {
+    asset: VaultAsset;
+    userAddress: string;
+    txHash: string;
+    amount?: string;
+  }): Promise<AllocatedDeposit> {
+    const vault = new ethers.Contract(VAULTS[params.asset].address, VAULT_ABI, this.provider);
+
+    const receipt = await waitForTransactionReceipt(this.provider, params.txHash);
+    if (!receipt || !receipt.status) {
+      throw new AllocationValidationError("Transaction not found or failed");
+    }
+
+    const depositEvent = findEventInLogs(receipt.logs, vault, "Deposited");
+    if (!depositEvent) {
+      throw new AllocationValidationError("Failed to parse deposit event");
+    }
+
+    const depositId = depositEvent.args.depositId.toString();
+    if (depositEvent.args.user.toLowerCase() !== params.userAddress.toLowerCase()) {
+      throw new AllocationValidationError("User mismatch", {
+        details: `Deposit belongs to ${depositEvent.args.user}, but request is for ${params.userAddress}`,
+        depositId,
+      });
+    }
+
+    const amount = depositEvent.args.amount.toString();
+    if (params.amount !== undefined && BigInt(params.amount) !== BigInt(amount)) {
+      throw new AllocationValidationError("Amount mismatch", {
+        details: `Deposit ${depositId} is for ${amount}, but request is for ${params.amount}`,
+        depositId,
+      });
+    }
+
+    return {
+      depositId,
+      shares: depositEvent.args.shares.toString(),
+      amount,
+      txHash: params.txHash,
+    };
+  }
+
+  /**
+   * Routing chain: metaGoalId, then targetGoalId, then the user's routing
+   * rules, then auto-expand of the first expandable meta-goal, then the user's
+   * quicksave goal. Only reads chain state; goals the plan needs are created
+   * by executeGoalPlan.
+   */
+  async planGoal(input: GoalRoutingInput): Promise<GoalRoutingPlan> {
+    const { asset, userAddress, targetGoalId, metaGoalId } = input;
+    const vaultConfig = VAULTS[asset];
+    const fallbacks: string[] = [];
+
+    logger.debug("🎯 Goal selection logic", {
+      mode: this.mode,
+      hasTargetGoalId: !!targetGoalId,
+      hasMetaGoalId: !!metaGoalId,
+      targetGoalIdValue: targetGoalId,
+    });
+
+    // Handle meta-goal routing first
+    if (metaGoalId && !targetGoalId) {
+      const plan = await this.tryRoute("meta-goal", { metaGoalId }, fallbacks, async () => {
+        const collection = await getMetaGoalsCollection();
+        const metaGoal = await collection.findOne({ metaGoalId });
+        const onChainGoalId = metaGoal?.onChainGoals[asset];
+
+        if (!metaGoal) {
+          this.rejectOrWarn("Meta-goal not found", { metaGoalId }, fallbacks);
+          return null;
+        }
+        if (!onChainGoalId) {
+          this.rejectOrWarn("Meta-goal has no on-chain goal for asset", { metaGoalId, asset }, fallbacks);
+          return null;
+        }
+        const problem =
+          (await this.validateGoal(BigInt(onChainGoalId), vaultConfig.address)) ??
+          (await this.checkGoalAccess({ asset, userAddress, metaGoal }));
+        if (problem) {
+          this.rejectProblem(problem, { metaGoalId, goalId: onChainGoalId }, fallbacks);
+          return null;
+        }
+        return {
+          source: "metaGoal" as const,
+          goalId: BigInt(onChainGoalId),
+          createsGoal: false,
+          metaGoalId,
+          fallbacks,
+        };
+      });
+      if (plan) {
+        return plan;
+      }
+    }
+
+    if (targetGoalId && !/^\d+$/.test(targetGoalId)) {
+      this.rejectOrWarn("Invalid targetGoalId", { goalId: targetGoalId }, fallbacks);
+    } else if (targetGoalId) {
+      const plan = await this.tryRoute("target goal", { goalId: targetGoalId }, fallbacks, async () => {
+        const problem =
+          (await this.validateGoal(BigInt(targetGoalId), vaultConfig.address)) ??
+          (await this.checkGoalAccess({ asset, userAddress, goalId: BigInt(targetGoalId) }));
+        if (problem) {
+          this.rejectProblem(problem, { goalId: targetGoalId }, fallbacks);
+          return null;
+        }
+        return { source: "targetGoal" as const, goalId: BigInt(targetGoalId), createsGoal: false, fallbacks };
+      });
+      if (plan) {
+        return plan;
+      }
+    }
+
+    const rulePlan = await this.tryRoute("routing rules", { userAddress }, fallbacks, () =>
+      this.planFromRules(input, fallbacks)
+    );
+    if (rulePlan) {
+      return rulePlan;
+    }
+
+    const expandableGoal = await this.tryRoute("auto-expand", { userAddress, asset }, fallbacks, async () => {
+      const collection = await getMetaGoalsCollection();
+      const userMetaGoals = await collection.find({ creatorAddress: userAddress.toLowerCase() }).toArray();
+      for (const metaGoal of userMetaGoals.filter((candidate) => !candidate.onChainGoals[asset])) {
+        if (!(await this.checkGoalAccess({ asset, userAddress, metaGoal }))) {
+          return metaGoal;
+        }
+      }
+      return null;
+    });
+    if (expandableGoal) {
+      return {
+        source: "autoExpand",
+        goalId: BigInt(0),
+        createsGoal: true,
+        metaGoalId: expandableGoal.metaGoalId,
+        fallbacks,
+      };
+    }
+
+    const quicksaveGoalId: bigint = await this.goalManager.getQuicksaveGoal(vaultConfig.address, userAddress);
+    return {
+      source: "quicksave",
+      goalId: quicksaveGoalId,
+      createsGoal: quicksaveGoalId === BigInt(0),
+      fallbacks,
+    };
+  }
+
+  /**
+   * Create whatever goal the plan needs. A failed auto-expansion falls back to
+   * the quicksave goal.
+   */
+  async executeGoalPlan(input: GoalRoutingInput, plan: GoalRoutingPlan): Promise<bigint> {
+    const { asset, userAddress } = input;
+
+    if (plan.source === "targetGoal") {
+      logger.info("✅ Using target goal", { targetGoalId: plan.goalId.toString() });
+      // Lazy sync: ensure goal exists in database
+      const syncService = new GoalSyncService(this.provider);
+      await syncService.getGoalWithFallback(plan.goalId.toString());
+      return plan.goalId;
+    }
+    if (plan.source === "metaGoal") {
+      logger.info("✅ Using meta-goal resolved target", {
+        metaGoalId: plan.metaGoalId,
+        onChainGoalId: plan.goalId.toString(),
+      });
+      return plan.goalId;
+    }
+
+    if (plan.source === "rule" && !plan.createsGoal) {
+      logger.info("✅ Using routing rule", { ruleId: plan.ruleId, goalId: plan.goalId.toString() });
+      return plan.goalId;
+    }
+
+    if (plan.source === "autoExpand") {
+      const goalId = await this.expandMetaGoal(asset, userAddress, plan.metaGoalId!);
+      if (goalId !== BigInt(0)) {
+        return goalId;
+      }
+    }
+
+    // A rule targeting a quicksave goal that does not exist yet also ends up here
+    const goalId = plan.source === "quicksave" && !plan.createsGoal
+      ? plan.goalId
+      : await this.getOrCreateQuicksaveGoal(asset, userAddress);
+    logger.info("✅ Using quicksave goal", { goalId: goalId.toString() });
+    return goalId;
+  }
+
+  async selectGoal(input: GoalRoutingInput): Promise<bigint> {
+    const plan = await this.planGoal(input);
+    return this.executeGoalPlan(input, plan);
+  }
+
+  /**
+   * Resolve the routing decision and run the on-chain validations with gas
+   * estimates, without sending any transaction.
+   */
+  async preview(input: AllocationPreviewInput): Promise<AllocationPreviewResponse> {
+    const { asset, userAddress, amount } = input;
+    const vaultConfig = VAULTS[asset];
+    const vault = new ethers.Contract(vaultConfig.address, VAULT_ABI, this.provider);
+    const transactions: AllocationPreviewTransaction[] = [];
+
+    let depositId: string | undefined;
+    if (this.mode === "onramp") {
+      transactions.push(
+        await this.previewTransaction(vault, "allocateOnrampDeposit", [
+          userAddress,
+          BigInt(amount),
+          input.txHash ?? ethers.ZeroHash,
+        ])
+      );
+    } else if (input.txHash) {
+      depositId = (await this.readDirectDeposit({ asset, userAddress, txHash: input.txHash, amount })).depositId;
+    }
+
+    const plan = await this.planGoal(input);
+    if (plan.source === "autoExpand") {
+      const args = await this.expansionArgs(asset, userAddress, plan.metaGoalId!);
+      transactions.push(
+        args
+          ? await this.previewTransaction(this.goalManager, "createGoalFor", args)
+          : { method: "createGoalFor", estimatedGas: null, error: "Meta-goal not found" }
+      );
+    } else if (plan.createsGoal) {
+      transactions.push(
+        await this.previewTransaction(this.goalManager, "createQuicksaveGoalFor", [
+          userAddress,
+          vaultConfig.address,
+        ])
+      );
+    }
+
+    if (depositId !== undefined && !plan.createsGoal) {
+      const attachment = await this.prepareAttachment({ asset, userAddress, depositId, goalId: plan.goalId });
+      if (attachment.attach) {
+        transactions.push(
+          await this.previewTransaction(this.goalManager, "attachDepositsOnBehalf", [
+            plan.goalId,
+            userAddress,
+            [depositId],
+          ])
+        );
+      }
+    } else {
+      // The deposit or goal does not exist yet, so attaching cannot be simulated
+      transactions.push({ method: "attachDepositsOnBehalf", estimatedGas: null });
+    }
+
+    transactions.push(
+      await this.previewTransaction(this.leaderboard, "recordDepositOnBehalf", [
+        userAddress,
+        BigInt(await this.toScore(asset, amount)),
+      ])
+    );
+
+    const estimatedGas = transactions.reduce(
+      (total, transaction) => total + BigInt(transaction.estimatedGas ?? "0"),
+      BigInt(0)
+    );
+    const gasPrice = await this.submitter.getMaxGasPrice();
+
+    return {
+      mode: this.mode,
+      asset,
+      userAddress,
+      amount,
+      goal: {
+        goalId: plan.createsGoal ? null : plan.goalId.toString(),
+        source: plan.source,
+        createsGoal: plan.createsGoal,
+        ...(plan.metaGoalId ? { metaGoalId: plan.metaGoalId } : {}),
+        ...(plan.ruleId ? { ruleId: plan.ruleId } : {}),
+      },
+      fallbacks: plan.fallbacks,
+      transactions,
+      estimatedGas: estimatedGas.toString(),
+      estimatedCostWei: (estimatedGas * gasPrice).toString(),
+    };
+  }
+
+  /**
+   * Attach a deposit to the selected goal. Returns the goal the deposit ends
+   * up in, or 0 when an onramp deposit could not be attached.
+   */
+  async attachDeposit(params: {
+    asset: VaultAsset;
+    userAddress: string;
+    depositId: string;
+    goalId: bigint;
+    reference?: string;
+  }): Promise<bigint> {
+    const goalIds = await this.attachDeposits({ ...params, depositIds: [params.depositId] });
+    return goalIds.get(params.depositId) ?? BigInt(0);
+  }
+
+  /**
+   * Attach several deposits of one user to the same goal in a single
+   * transaction. Returns the goal each deposit ends up in.
+   */
+  async attachDeposits(params: {
+    asset: VaultAsset;
+    userAddress: string;
+    depositIds: string[];
+    goalId: bigint;
+    reference?: string;
+  }): Promise<Map<string, bigint>> {
+    const { userAddress, goalId } = params;
+    const goalIds = new Map<string, bigint>();
+    const pending: string[] = [];
+
+    for (const depositId of params.depositIds) {
+      const attachment = await this.prepareAttachment({ ...params, depositId });
+      goalIds.set(depositId, attachment.goalId);
+      if (attachment.attach) {
+        pending.push(depositId);
+      }
+    }
+    if (pending.length === 0) {
+      return goalIds;
+    }
+
+    try {
+      await this.submitter.send(
+        this.goalManager,
+        "attachDepositsOnBehalf",
+        [goalId, userAddress, pending],
+        { reference: params.reference }
+      );
+      logger.info("✅ Successfully attached deposits to goal", {
+        depositIds: pending,
+        goalId: goalId.toString(),
+        userAddress,
+      });
+    } catch (error) {
+      this.rejectOrWarn("Attachment failed", {
+        details: error instanceof Error ? error.message : "Attachment failed",
+        depositId: pending.join(","),
+        goalId: goalId.toString(),
+      });
+      pending.forEach((depositId) => goalIds.set(depositId, BigInt(0)));
+    }
+    return goalIds;
+  }
+
+  /**
+   * Leaderboard score for a raw token amount: its USD value in LEADERBOARD_DECIMALS units.
+   */
+  async toScore(asset: VaultAsset, amount: string): Promise<string> {
+    return (await this.prices.toScoreUnits(asset, amount)).toString();
+  }
+
+  /**
+   * Record a score already normalized with toScore. The leaderboard sums what
+   * it is given, so raw token amounts must never be passed here.
+   */
+  async recordScore(params: { userAddress: string; score: string } & SubmitHooks): Promise<void> {
+    const resumed = params.resumeHash ? await this.submitter.resume(params.resumeHash) : null;
+    if (resumed) {
+      return;
+    }
+    await this.submitter.send(
+      this.leaderboard,
+      "recordDepositOnBehalf",
+      [params.userAddress, BigInt(params.score)],
+      { reference: params.reference, onSubmitted: params.onSubmitted }
+    );
+  }
+
+  /**
+   * Build the response, checking whether the deposit completed a meta-goal and
+   * adding the user to its participants. Deposit XP is awarded here as well.
+   */
+  async buildResponse(params: {
+    asset: VaultAsset;
+    userAddress: string;
+    depositId: string;
+    shares: string;
+    amount: string;
+    goalId: bigint;
+    txHash: string;
+  }): Promise<AllocateResponse> {
+    const { asset, goalId } = params;
+    let goalCompleted = false;
+    let metaGoalId: string | undefined;
+
+    try {
+      await new XPService(this.provider, this.prices).awardDepositXP({
+        userAddress: params.userAddress,
+        asset,
+        depositId: params.depositId,
+        amountUSD: await this.prices.toUSD(asset, params.amount),
+      });
+    } catch (error) {
+      logger.warn("Failed to award deposit XP", {
+        depositId: params.depositId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (goalId !== BigInt(0)) {
+      try {
+        const collection = await getMetaGoalsCollection();
+        const metaGoal = await collection.findOne({ [`onChainGoals.${asset}`]: goalId.toString() });
+
+        if (metaGoal) {
+          metaGoalId = metaGoal.metaGoalId;
+          goalCompleted = await this.isMetaGoalCompleted(metaGoal);
+
+          if (
+            metaGoal.participants &&
+            !metaGoal.participants.includes(params.userAddress.toLowerCase()) &&
+            !(await this.memberships.addParticipant(metaGoal.metaGoalId, params.userAddress))
+          ) {
+            logger.warn("Group is full, depositor not added as a participant", {
+              metaGoalId: metaGoal.metaGoalId,
+              userAddress: params.userAddress,
+            });
+          }
+        }
+      } catch (error) {
+        logger.warn("Failed to check goal completion", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return {
+      success: true,
+      depositId: params.depositId,
+      goalId: goalId.toString(),
+      shares: params.shares,
+      formattedShares: formatAmountForDisplay(params.shares, VAULTS[asset].decimals, 4),
+      allocationTxHash: params.txHash,
+      goalCompleted,
+      metaGoalId,
+    };
+  }
+
+  /**
+   * Run one routing step. In onramp mode a step that throws, e.g. on an RPC or
+   * database error, is skipped like any other goal that cannot be used, so the
+   * deposit still reaches the quicksave goal.
+   */
+  private async tryRoute<T>(
+    step: string,
+    details: Record<string, string>,
+    fallbacks: string[],
+    route: () => Promise<T | null>
+  ): Promise<T | null> {
+    try {
+      return await route();
+    } catch (error) {
+      if (this.strict) {
+        throw error;
+      }
+      this.rejectOrWarn(
+        `Error resolving ${step}`,
+        { ...details, error: error instanceof Error ? error.message : String(error) },
+        fallbacks
+      );
+      return null;
+    }
+  }
+
+  private rejectProblem(problem: GoalProblem, details: Record<string, string>, fallbacks: string[]): void {
+    // Unmet membership requirements keep their own error, mapped to 403 by the routes
+    if (this.strict && problem.cause) {
+      throw problem.cause;
+    }
+    this.rejectOrWarn(problem.error, { ...details, ...problem.details }, fallbacks);
+  }
+
+  private rejectOrWarn(error: string, details: Record<string, string>, fallbacks?: string[]): void {
+    if (this.strict) {
+      throw new AllocationValidationError(error, details);
+    }
+    logger.warn(`${error}, falling back`, details);
+    fallbacks?.push(error);
+  }
+
+  private async validateGoal(
+    goalId: bigint,
+    vaultAddress: string
+  ): Promise<{ error: string; details: Record<string, string> } | null> {
+    const goal = await this.goalManager.goals(goalId);
+    if (goal.id.toString() === "0") {
+      return { error: "Goal not found", details: {} };
+    }
+    if (goal.vault.toLowerCase() !== vaultAddress.toLowerCase()) {
+      return {
+        error: "Vault mismatch",
+        details: { details: `Goal ${goalId} is for vault ${goal.vault}, but deposit is in vault ${vaultAddress}` },
+      };
+    }
+    if (goal.cancelled) {
+      return { error: "Goal is cancelled", details: {} };
+    }
+    if (goal.completed) {
+      return { error: "Goal is already completed", details: {} };
+    }
+    return null;
+  }
+
+  /**
+   * Whether the user may put deposits into a goal: the invite list and
+   * membership requirements of its meta-goal and, with requireMember, on-chain
+   * membership of the goal itself. Attaching makes the user a member, so
+   * every goal the router picks goes through here.
+   */
+  private async checkGoalAccess(params: {
+    asset: VaultAsset;
+    userAddress: string;
+    goalId?: bigint;
+    metaGoal?: MetaGoal;
+    requireMember?: boolean;
+  }): Promise<GoalProblem | null> {
+    const { asset, goalId } = params;
+    const userAddress = params.userAddress.toLowerCase();
+
+    if (params.requireMember && goalId !== undefined) {
+      const goal = await this.goalManager.goals(goalId);
+      const isMember =
+        goal.creator.toLowerCase() === userAddress || (await this.goalManager.isMember(goalId, userAddress));
+      if (!isMember) {
+        return {
+          error: "Not a member of the goal",
+          details: { details: `${userAddress} is not a member of goal ${goalId}` },
+        };
+      }
+    }
+
+    const metaGoal =
+      params.metaGoal ??
+      (goalId !== undefined
+        ? await (await getMetaGoalsCollection()).findOne({ [`onChainGoals.${asset}`]: goalId.toString() })
+        : null);
+    if (!metaGoal) {
+      return null;
+    }
+
+    const members = [metaGoal.creatorAddress, ...(metaGoal.participants ?? []), ...(metaGoal.invitedUsers ?? [])];
+    if (metaGoal.isPublic === false && !members.some((member) => member.toLowerCase() === userAddress)) {
+      return { error: "Goal is private", details: { metaGoalId: metaGoal.metaGoalId } };
+    }
+    if (metaGoal.participants && GoalMembershipService.isFull(metaGoal, userAddress)) {
+      return {
+        error: "Group is full",
+        details: { metaGoalId: metaGoal.metaGoalId, memberLimit: String(metaGoal.memberLimit) },
+      };
+    }
+
+    try {
+      await this.memberships.assertEligible(metaGoal, userAddress);
+    } catch (error) {
+      if (error instanceof GoalMembershipError) {
+        return {
+          error: error.message,
+          details: { metaGoalId: metaGoal.metaGoalId, requirement: error.requirement },
+          cause: error,
+        };
+      }
+      throw error;
+    }
+    return null;
+  }
+
+  private async validateDeposit(
+    vaultAddress: string,
+    userAddress: string,
+    depositId: string
+  ): Promise<{ error: string; details: Record<string, string> } | null> {
+    const vault = new ethers.Contract(
+      vaultAddress,
+      [
+        "function getUserDeposit(address,uint256) view returns (uint256,uint256,uint256,uint256,bool)",
+        "function depositCount(address) view returns (uint256)",
+      ],
+      this.provider
+    );
+
+    const depositCount: bigint = await vault.depositCount(userAddress);
+    if (BigInt(depositId) >= depositCount) {
+      return {
+        error: "Invalid deposit ID",
+        details: {
+          details: `Deposit ID ${depositId} is out of range. User has ${depositCount} deposits`,
+        },
+      };
+    }
+
+    const [principal] = await vault.getUserDeposit(userAddress, depositId);
+    if (principal === BigInt(0)) {
+      return {
+        error: "Deposit not found in vault",
+        details: {
+          details: `Deposit ${depositId} does not exist for user ${userAddress} in vault ${vaultAddress}`,
+        },
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Static checks before attaching: goal state, existing attachment and the
+   * deposit itself. attach is false when there is nothing to send.
+   */
+  private async prepareAttachment(params: {
+    asset: VaultAsset;
+    userAddress: string;
+    depositId: string;
+    goalId: bigint;
+  }): Promise<{ attach: boolean; goalId: bigint }> {
+    const { asset, userAddress, depositId, goalId } = params;
+    const vaultConfig = VAULTS[asset];
+    if (goalId === BigInt(0)) {
+      return { attach: false, goalId };
+    }
+
+    const problem = await this.validateGoal(goalId, vaultConfig.address);
+    if (problem) {
+      this.rejectOrWarn(problem.error, { depositId, goalId: goalId.toString(), ...problem.details });
+      return { attach: false, goalId: BigInt(0) };
+    }
+
+    const existingGoalId = await this.attachedGoal(asset, userAddress, depositId);
+    if (existingGoalId === goalId) {
+      // Attached by an earlier attempt that was interrupted before recording it
+      logger.info("Deposit already attached, skipping attachment", {
+        depositId,
+        goalId: goalId.toString(),
+      });
+      return { attach: false, goalId };
+    }
+    if (existingGoalId !== BigInt(0)) {
+      this.rejectOrWarn("Deposit already attached to another goal", {
+        details: `Deposit ${depositId} is already attached to goal ${existingGoalId}`,
+        depositId,
+        goalId: goalId.toString(),
+        existingGoalId: existingGoalId.toString(),
+      });
+      return { attach: false, goalId: existingGoalId };
+    }
+
+    const depositProblem = await this.validateDeposit(vaultConfig.address, userAddress, depositId);
+    if (depositProblem) {
+      this.rejectOrWarn(depositProblem.error, {
+        depositId,
+        goalId: goalId.toString(),
+        ...depositProblem.details,
+      });
+      return { attach: false, goalId: BigInt(0) };
+    }
+
+    return { attach: true, goalId };
+  }
+
+  // Goal a vault deposit is attached to, 0 when none
+  private async attachedGoal(asset: VaultAsset, userAddress: string, depositId: string): Promise<bigint> {
+    return this.goalManager.depositToGoal(
+      ethers.solidityPackedKeccak256(
+        ["address", "address", "uint256"],
+        [VAULTS[asset].address, userAddress, depositId]
+      )
+    );
+  }
+
+  private async previewTransaction(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<AllocationPreviewTransaction> {
+    try {
+      const estimatedGas = await this.submitter.estimateGas(contract, method, args);
+      return { method, estimatedGas: estimatedGas.toString() };
+    } catch (error) {
+      return {
+        method,
+        estimatedGas: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * First enabled rule of the user that matches the deposit and whose target
+   * can take it. Rules are preferences, so a rule that cannot be applied is
+   * skipped even in direct mode.
+   */
+  private async planFromRules(
+    input: GoalRoutingInput,
+    fallbacks: string[]
+  ): Promise<GoalRoutingPlan | null> {
+    const { asset, userAddress, amount } = input;
+    const rules = await this.routingRules.findMatching({ userAddress, asset, amount });
+
+    for (const rule of rules) {
+      const plan = await this.planFromRule(rule, asset, userAddress);
+      if (typeof plan === "string") {
+        logger.info("Routing rule skipped", { ruleId: rule.ruleId, reason: plan });
+        fallbacks.push(`Routing rule ${rule.ruleId}: ${plan}`);
+        continue;
+      }
+      return { ...plan, fallbacks };
+    }
+    return null;
+  }
+
+  /**
+   * Plan for a single rule, or the reason it cannot be applied.
+   */
+  private async planFromRule(
+    rule: RoutingRule,
+    asset: VaultAsset,
+    userAddress: string
+  ): Promise<Omit<GoalRoutingPlan, "fallbacks"> | string> {
+    const vaultAddress = VAULTS[asset].address;
+    const { target } = rule;
+
+    if (target.type === "quicksave") {
+      const quicksaveGoalId: bigint = await this.goalManager.getQuicksaveGoal(vaultAddress, userAddress);
+      return {
+        source: "rule",
+        ruleId: rule.ruleId,
+        goalId: quicksaveGoalId,
+        createsGoal: quicksaveGoalId === BigInt(0),
+      };
+    }
+
+    let goalId: string;
+    let metaGoalId: string | undefined;
+    let metaGoal: MetaGoal | null = null;
+    if (target.type === "metaGoal") {
+      metaGoal = await this.findMetaGoal(target.metaGoalId);
+      if (!metaGoal) {
+        return "Meta-goal not found";
+      }
+      const onChainGoalId = metaGoal.onChainGoals[asset];
+      if (!onChainGoalId) {
+        return "Meta-goal has no on-chain goal for asset";
+      }
+      if (rule.untilCompleted && (await this.isMetaGoalCompleted(metaGoal))) {
+        return "Meta-goal is completed";
+      }
+      goalId = onChainGoalId;
+      metaGoalId = metaGoal.metaGoalId;
+    } else {
+      goalId = target.goalId;
+    }
+
+    const problem =
+      (await this.validateGoal(BigInt(goalId), vaultAddress)) ??
+      (await this.checkGoalAccess({
+        asset,
+        userAddress,
+        goalId: BigInt(goalId),
+        // A goal named directly must be one the user already belongs to
+        requireMember: target.type === "goal",
+        ...(metaGoal ? { metaGoal } : {}),
+      }));
+    if (problem) {
+      return problem.error;
+    }
+    return {
+      source: "rule",
+      ruleId: rule.ruleId,
+      goalId: BigInt(goalId),
+      createsGoal: false,
+      ...(metaGoalId ? { metaGoalId } : {}),
+    };
+  }
+
+  private async isMetaGoalCompleted(metaGoal: MetaGoal): Promise<boolean> {
+    let totalProgressUSD = 0;
+    for (const [goalAsset, onChainGoalId] of Object.entries(metaGoal.onChainGoals)) {
+      const [totalValue] = await this.goalManager.getGoalProgressFull(onChainGoalId);
+      totalProgressUSD += await this.prices.toUSD(goalAsset as VaultAsset, totalValue);
+    }
+
+    const progressPercent = metaGoal.targetAmountUSD > 0 ? (totalProgressUSD / metaGoal.targetAmountUSD) * 100 : 0;
+    return progressPercent >= 100;
+  }
+
+  private async findMetaGoal(metaGoalId: string) {
+    const collection = await getMetaGoalsCollection();
+    return collection.findOne({ metaGoalId });
+  }
+
+  private async expansionArgs(asset: VaultAsset, userAddress: string, metaGoalId: string) {
+    const metaGoal = await this.findMetaGoal(metaGoalId);
+    if (!metaGoal) {
+      return null;
+    }
+    const vaultConfig = VAULTS[asset];
+    return [
+      userAddress,
+      vaultConfig.address,
+      await this.prices.fromUSD(asset, metaGoal.targetAmountUSD),
+      getContractCompliantTargetDate(),
+      metaGoal.name,
+    ];
+  }
+
+  /**
+   * Add this asset to one of the user's meta-goals that does not have it yet.
+   */
+  private async expandMetaGoal(asset: VaultAsset, userAddress: string, metaGoalId: string): Promise<bigint> {
+    try {
+      const args = await this.expansionArgs(asset, userAddress, metaGoalId);
+      if (!args) {
+        return BigInt(0);
+      }
+
+      const { receipt } = await this.submitter.send(this.goalManager, "createGoalFor", args);
+      const goalEvent = findEventInLogs(receipt.logs, this.goalManager, "GoalCreated");
+      if (!goalEvent) {
+        return BigInt(0);
+      }
+
+      const goalId: bigint = goalEvent.args.goalId;
+      const collection = await getMetaGoalsCollection();
+      await collection.updateOne(
+        { metaGoalId },
+        { $set: { [`onChainGoals.${asset}`]: goalId.toString(), updatedAt: new Date().toISOString() } }
+      );
+      logger.info("✅ Auto-expanded meta-goal to include asset", { metaGoalId, asset });
+      return goalId;
+    } catch (error) {
+      logger.warn("Auto-expansion failed, falling back to quicksave", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return BigInt(0);
+    }
+  }
+
+  private async getOrCreateQuicksaveGoal(asset: VaultAsset, userAddress: string): Promise<bigint> {
+    const vaultAddress = VAULTS[asset].address;
+    const quicksaveGoalId: bigint = await this.goalManager.getQuicksaveGoal(vaultAddress, userAddress);
+    if (quicksaveGoalId !== BigInt(0)) {
+      return quicksaveGoalId;
+    }
+
+    const { receipt } = await this.submitter.send(this.goalManager, "createQuicksaveGoalFor", [
+      userAddress,
+      vaultAddress,
+    ]);
+    const goalEvent = findEventInLogs(receipt.logs, this.goalManager, "GoalCreated");
+    return goalEvent ? goalEvent.args.goalId : BigInt(0);
+  }
+}
@@ -1,6 +1,7 @@
 import { ethers } from "ethers";
 import { CONTRACTS, VAULT_ABI, GOAL_MANAGER_ABI, LEADERBOARD_ABI } from "../constants";
 import { findEventInLogs } from "../utils";
+import type { TransactionSubmitter } from "./transaction-submitter.service";
 
 export class BlockchainService {
   constructor(private provider: ethers.JsonRpcProvider) {}
@@ -53,17 +54,18 @@ export class BlockchainService {
   async getOrCreateQuicksaveGoal(
     vaultAddress: string,
     userAddress: string,
-    signer: ethers.Wallet
+    submitter: TransactionSubmitter
   ): Promise<string> {
     const goalManager = this.getGoalManager();
     let quicksaveId = await goalManager.getQuicksaveGoal(vaultAddress, userAddress);
 
     if (quicksaveId.toString() === "0") {
-      const goalManagerWithSigner = this.getGoalManager(signer);
-      const tx = await goalManagerWithSigner.createQuicksaveGoalFor(userAddress, vaultAddress);
-      const receipt = await tx.wait();
+      const { receipt } = await submitter.send(goalManager, "createQuicksaveGoalFor", [
+        userAddress,
+        vaultAddress,
+      ]);
 
-      const goalEvent = findEventInLogs(receipt.logs, goalManagerWithSigner, "GoalCreated");
+      const goalEvent = findEventInLogs(receipt.logs, goalManager, "GoalCreated");
       
       if (goalEvent) {
         quicksaveId = goalEvent.args.goalId;
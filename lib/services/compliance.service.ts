@@ -0,0 +1,184 @@
+import { PriceService } from "./price.service";
+import { VerificationStatusService } from "./verification-status.service";
+import type {
+  ComplianceAction,
+  ComplianceErrorResponse,
+  CompliancePolicy,
+  ComplianceRequirement,
+  ComplianceRequirements,
+  VaultAsset,
+  VerificationStatus,
+} from "../types";
+
+const COMPLIANCE_ACTIONS: ComplianceAction[] = ["allocate", "create_goal", "invite"];
+
+export interface ComplianceContext {
+  action: ComplianceAction;
+  userAddress: string;
+  // Allocated amount, priced only when a policy has an amount condition
+  asset?: VaultAsset;
+  amountWei?: string;
+  isPublic?: boolean;
+}
+
+export class ComplianceError extends Error {
+  constructor(
+    public policyId: string,
+    public requirement: ComplianceRequirement,
+    message: string
+  ) {
+    super(message);
+    this.name = "ComplianceError";
+  }
+
+  toResponse(): ComplianceErrorResponse {
+    return { error: this.message, policyId: this.policyId, requirement: this.requirement };
+  }
+}
+
+/**
+ * Policies from COMPLIANCE_POLICIES, a JSON array, e.g.
+ * [{"id":"large-allocations","action":"allocate","when":{"minAmountUSD":1000},
+ *   "require":{"verified":true,"ofacClear":true,"minimumAge":18}},
+ *  {"id":"public-goals","action":"create_goal","when":{"isPublic":true},"require":{"verified":true}}]
+ * A malformed policy throws, so a typo cannot silently disable a control.
+ */
+export function loadCompliancePolicies(raw: string | undefined = process.env.COMPLIANCE_POLICIES): CompliancePolicy[] {
+  if (!raw) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("COMPLIANCE_POLICIES must be a JSON array of policies");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("COMPLIANCE_POLICIES must be a JSON array of policies");
+  }
+
+  return parsed.map((policy: CompliancePolicy, index) => {
+    if (!policy || typeof policy.id !== "string" || !policy.id) {
+      throw new Error(`Compliance policy ${index} needs an id`);
+    }
+    if (!COMPLIANCE_ACTIONS.includes(policy.action)) {
+      throw new Error(`Compliance policy ${policy.id}: action must be one of ${COMPLIANCE_ACTIONS.join(", ")}`);
+    }
+    if (!policy.require || typeof policy.require !== "object" || Object.keys(policy.require).length === 0) {
+      throw new Error(`Compliance policy ${policy.id}: require must list at least one requirement`);
+    }
+    return policy;
+  });
+}
+
+/**
+ * Evaluates compliance policies against the Self disclosures of the wallet
+ * performing an action. Every applicable policy must be met; the first unmet
+ * requirement is reported.
+ */
+export class ComplianceService {
+  constructor(
+    private policies: CompliancePolicy[] = loadCompliancePolicies(),
+    private prices: PriceService = new PriceService(),
+    private statuses: VerificationStatusService = new VerificationStatusService()
+  ) {}
+
+  /**
+   * Throws ComplianceError when the wallet does not meet a policy that
+   * applies to the action.
+   */
+  async check(context: ComplianceContext): Promise<void> {
+    const applicable: CompliancePolicy[] = [];
+    let amountUSD: Promise<number> | null = null;
+    const getAmountUSD = () => {
+      if (!context.asset || !context.amountWei) {
+        return Promise.resolve(null);
+      }
+      amountUSD = amountUSD ?? this.prices.toUSD(context.asset, context.amountWei);
+      return amountUSD;
+    };
+
+    for (const policy of this.policies.filter((candidate) => candidate.action === context.action)) {
+      if (await this.applies(policy, context, getAmountUSD)) {
+        applicable.push(policy);
+      }
+    }
+    if (applicable.length === 0) {
+      return;
+    }
+
+    const status = await this.statuses.getStatus(context.userAddress);
+    for (const policy of applicable) {
+      const unmet = findUnmetRequirement(policy.require, status);
+      if (unmet) {
+        const reason = policy.description ? `${policy.description}: ${unmet.message}` : unmet.message;
+        throw new ComplianceError(policy.id, unmet.requirement, reason);
+      }
+    }
+  }
+
+  private async applies(
+    policy: CompliancePolicy,
+    context: ComplianceContext,
+    getAmountUSD: () => Promise<number | null>
+  ): Promise<boolean> {
+    const when = policy.when ?? {};
+    if (when.isPublic !== undefined && when.isPublic !== context.isPublic) {
+      return false;
+    }
+    if (when.minAmountUSD !== undefined) {
+      const amountUSD = await getAmountUSD();
+      if (amountUSD === null || amountUSD < when.minAmountUSD) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * The first requirement a wallet's verification status does not meet, null
+ * when all are met.
+ */
+export function findUnmetRequirement(
+  require: ComplianceRequirements,
+  status: VerificationStatus
+): { requirement: ComplianceRequirement; message: string } | null {
+  // Disclosures of an expired verification no longer count
+  const verification = status.status === "verified" ? status.verification : null;
+  const nationality = verification?.nationality?.toUpperCase();
+
+  if (require.verified && !verification) {
+    return {
+      requirement: "verified",
+      message:
+        status.status === "expired"
+          ? "The wallet's Self verification has expired; verify again"
+          : "A Self-verified wallet is required",
+    };
+  }
+  if (require.ofacClear && !(verification?.ofac?.length && verification.ofac.every(Boolean))) {
+    return { requirement: "ofacClear", message: "The wallet must be verified as clear of OFAC sanctions lists" };
+  }
+  if (require.minimumAge !== undefined && !((verification?.olderThan ?? 0) >= require.minimumAge)) {
+    return {
+      requirement: "minimumAge",
+      message: `The wallet owner must be verified as at least ${require.minimumAge} years old`,
+    };
+  }
+  if (
+    require.allowedNationalities &&
+    !(nationality && require.allowedNationalities.map((code) => code.toUpperCase()).includes(nationality))
+  ) {
+    return { requirement: "allowedNationalities", message: "The verified nationality is not permitted" };
+  }
+  // An undisclosed nationality cannot be shown to be outside the blocked list
+  if (
+    require.blockedNationalities &&
+    (!nationality || require.blockedNationalities.map((code) => code.toUpperCase()).includes(nationality))
+  ) {
+    return { requirement: "blockedNationalities", message: "The verified nationality is not permitted" };
+  }
+  return null;
+}
@@ -1,11 +1,15 @@
 import { ethers } from "ethers";
 import { VAULTS } from "../constants";
 import { BlockchainService } from "./blockchain.service";
-import { formatAmountForDisplay } from "../utils";
-import type { UserDeposit, AssetBalance } from "../types";
+import { PriceService } from "./price.service";
+import { formatUSDForDisplay } from "../utils";
+import type { UserDeposit, AssetBalance, VaultAsset } from "../types";
 
 export class DepositService {
-  constructor(private blockchainService: BlockchainService) {}
+  constructor(
+    private blockchainService: BlockchainService,
+    private prices: PriceService = new PriceService()
+  ) {}
 
   async processVaultDeposits(
     vaultAddress: string,
@@ -30,6 +34,9 @@ export class DepositService {
     const depositResults = await Promise.all(depositPromises);
     const deposits: UserDeposit[] = [];
     const assetBalance = this.createEmptyAssetBalance(assetName, vaultAddress);
+    const { usd: priceUSD } = await this.prices.getQuote(assetName as VaultAsset);
+    const toUSD = (amountWei: string) =>
+      formatUSDForDisplay(parseFloat(ethers.formatUnits(amountWei, vaultConfig.decimals)) * priceUSD);
 
     depositResults.forEach((deposit, i) => {
       if (!deposit || (deposit.principal.toString() === "0" && deposit.shares.toString() === "0")) {
@@ -45,9 +52,9 @@ export class DepositService {
         vault: vaultAddress,
         asset: assetName,
         amountWei: deposit.principal.toString(),
-        amountUSD: formatAmountForDisplay(deposit.principal.toString(), vaultConfig.decimals),
+        amountUSD: toUSD(deposit.principal.toString()),
         sharesWei: deposit.shares.toString(),
-        sharesUSD: formatAmountForDisplay(deposit.shares.toString(), vaultConfig.decimals),
+        sharesUSD: toUSD(deposit.shares.toString()),
         lockTier: "0",
         lockedUntil: deposit.lockEnd.toString(),
         unlocked: Number(deposit.lockEnd) <= currentTime,
@@ -63,14 +70,8 @@ export class DepositService {
       assetBalance.depositCount++;
     });
 
-    assetBalance.totalAmountUSD = formatAmountForDisplay(
-      assetBalance.totalAmountWei,
-      vaultConfig.decimals
-    );
-    assetBalance.totalSharesUSD = formatAmountForDisplay(
-      assetBalance.totalSharesWei,
-      vaultConfig.decimals
-    );
+    assetBalance.totalAmountUSD = toUSD(assetBalance.totalAmountWei);
+    assetBalance.totalSharesUSD = toUSD(assetBalance.totalSharesWei);
 
     return { deposits, assetBalance };
   }
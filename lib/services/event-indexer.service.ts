@@ -0,0 +1,343 @@
+import { ethers } from "ethers";
+import { createProvider } from "../utils";
+import { getChainEventsCollection, getIndexerCheckpointsCollection } from "../database";
+import { getIndexedContracts, type IndexedContract } from "../indexer";
+import { logger } from "../logger";
+import type { IndexedChainEvent, IndexerCheckpoint } from "../types";
+import type { Collection, Filter } from "mongodb";
+
+const START_BLOCK = parseInt(process.env.INDEXER_START_BLOCK || "0");
+const CHUNK_SIZE = parseInt(process.env.INDEXER_CHUNK_SIZE || "5000");
+// Blocks behind the head that are left for the next run, so most reorgs never reach the index
+const CONFIRMATIONS = parseInt(process.env.INDEXER_CONFIRMATIONS || "5");
+// Bounds a single run while backfilling
+const MAX_CHUNKS_PER_RUN = parseInt(process.env.INDEXER_MAX_CHUNKS_PER_RUN || "50");
+// Readers fall back to the RPC when the index is further behind the head than this
+const MAX_LAG_BLOCKS = parseInt(process.env.INDEXER_MAX_LAG_BLOCKS || "200");
+const RECENT_BLOCKS_KEPT = 64;
+
+export interface ChainEventFilter {
+  contractIds?: string[];
+  names?: string[];
+  user?: string;
+  goalIds?: string[];
+  fromBlock?: number;
+  toBlock?: number;
+  before?: { blockNumber: number; logIndex: number }; // exclusive, for paging back
+}
+
+/**
+ * Ingests logs of the GoalManager, the vaults and the Self verification
+ * contract into Mongo, so read endpoints are not limited to the few thousand
+ * blocks an RPC lookback can cover. Each contract is paged in chunks from a
+ * checkpoint. The hash of each chunk's last block is kept, and when the chain
+ * no longer has it the events past the common ancestor are deleted and
+ * re-indexed.
+ */
+export class EventIndexerService {
+  private collection: Collection<IndexedChainEvent> | null = null;
+  private checkpoints: Collection<IndexerCheckpoint> | null = null;
+  private contracts: Map<string, IndexedContract>;
+
+  constructor(
+    private provider: ethers.Provider = createProvider(),
+    contracts: IndexedContract[] = getIndexedContracts()
+  ) {
+    this.contracts = new Map(contracts.map((contract) => [contract.id, contract]));
+  }
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getChainEventsCollection();
+    }
+    return this.collection;
+  }
+
+  private async getCheckpoints() {
+    if (!this.checkpoints) {
+      this.checkpoints = await getIndexerCheckpointsCollection();
+    }
+    return this.checkpoints;
+  }
+
+  /**
+   * Index every contract up to the confirmed head. Returns the number of events stored.
+   */
+  async syncAll(): Promise<number> {
+    const head = (await this.provider.getBlockNumber()) - CONFIRMATIONS;
+    let stored = 0;
+    for (const contract of Array.from(this.contracts.values())) {
+      try {
+        stored += await this.sync(contract, head);
+      } catch (error) {
+        logger.error("Event indexer failed", {
+          contractId: contract.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return stored;
+  }
+
+  async sync(contract: IndexedContract, head: number): Promise<number> {
+    let checkpoint = await this.getCheckpoint(contract);
+    checkpoint = await this.rollBackReorg(checkpoint);
+
+    let stored = 0;
+    for (let chunk = 0; chunk < MAX_CHUNKS_PER_RUN && checkpoint.lastBlock < head; chunk++) {
+      const fromBlock = checkpoint.lastBlock + 1;
+      const toBlock = Math.min(fromBlock + CHUNK_SIZE - 1, head);
+
+      const logs = await this.provider.getLogs({
+        address: contract.address,
+        topics: contract.topics,
+        fromBlock,
+        toBlock,
+      });
+      stored += await this.store(contract, logs);
+
+      const block = await this.provider.getBlock(toBlock);
+      if (!block?.hash) {
+        throw new Error(`Block ${toBlock} not available`);
+      }
+      checkpoint = await this.saveCheckpoint(contract.id, {
+        lastBlock: toBlock,
+        recentBlocks: [...checkpoint.recentBlocks, { number: toBlock, hash: block.hash }].slice(
+          -RECENT_BLOCKS_KEPT
+        ),
+      });
+    }
+
+    if (stored > 0) {
+      logger.info("🗂️ Indexed chain events", { contractId: contract.id, stored, lastBlock: checkpoint.lastBlock });
+    }
+    return stored;
+  }
+
+  /**
+   * Block range indexed for all of the given contracts, or null when any of
+   * them is missing or lags the chain head too far to serve reads.
+   */
+  async getCoverage(
+    contractIds: string[],
+    latestBlock: number
+  ): Promise<{ fromBlock: number; toBlock: number } | null> {
+    const checkpoints = await (await this.getCheckpoints())
+      .find({ contractId: { $in: contractIds } })
+      .toArray();
+    if (checkpoints.length < contractIds.length) {
+      return null;
+    }
+
+    const fromBlock = Math.max(...checkpoints.map((checkpoint) => checkpoint.startBlock));
+    const toBlock = Math.min(...checkpoints.map((checkpoint) => checkpoint.lastBlock));
+    if (toBlock < fromBlock || latestBlock - toBlock > MAX_LAG_BLOCKS) {
+      return null;
+    }
+    return { fromBlock, toBlock };
+  }
+
+  /**
+   * Indexed events, newest first.
+   */
+  async find(filter: ChainEventFilter, limit?: number): Promise<IndexedChainEvent[]> {
+    const collection = await this.getCollection();
+    const query: Filter<IndexedChainEvent> = {};
+    if (filter.contractIds) {
+      query.contractId = { $in: filter.contractIds };
+    }
+    if (filter.names) {
+      query.name = { $in: filter.names };
+    }
+    if (filter.user) {
+      query.users = filter.user.toLowerCase();
+    }
+    if (filter.goalIds) {
+      query.goalId = { $in: filter.goalIds };
+    }
+    if (filter.fromBlock !== undefined || filter.toBlock !== undefined) {
+      query.blockNumber = {
+        ...(filter.fromBlock !== undefined ? { $gte: filter.fromBlock } : {}),
+        ...(filter.toBlock !== undefined ? { $lte: filter.toBlock } : {}),
+      };
+    }
+    if (filter.before) {
+      query.$or = [
+        { blockNumber: { $lt: filter.before.blockNumber } },
+        { blockNumber: filter.before.blockNumber, logIndex: { $lt: filter.before.logIndex } },
+      ];
+    }
+
+    const cursor = collection
+      .find(query, { projection: { _id: 0 } })
+      .sort({ blockNumber: -1, logIndex: -1 });
+    return (limit ? cursor.limit(limit) : cursor).toArray();
+  }
+
+  /**
+   * Rebuild an ethers EventLog from an indexed event, so code written against
+   * queryFilter results can read from the index. Null for contracts without an ABI.
+   */
+  toEventLog(event: IndexedChainEvent): ethers.EventLog | null {
+    const iface = this.contracts.get(event.contractId)?.iface;
+    const fragment = iface?.getEvent(event.name);
+    if (!iface || !fragment) {
+      return null;
+    }
+    const params: ethers.LogParams = {
+      transactionHash: event.transactionHash,
+      blockHash: event.blockHash,
+      blockNumber: event.blockNumber,
+      removed: false,
+      address: event.address,
+      data: event.data,
+      topics: event.topics,
+      index: event.logIndex,
+      transactionIndex: event.transactionIndex,
+    };
+    const log = new ethers.Log(params, this.provider);
+    return new ethers.EventLog(log, iface, fragment);
+  }
+
+  private async store(contract: IndexedContract, logs: ethers.Log[]): Promise<number> {
+    const timestamps = new Map<number, string>();
+    const events: IndexedChainEvent[] = [];
+    const indexedAt = new Date().toISOString();
+
+    for (const log of logs) {
+      let decoded;
+      try {
+        decoded = contract.decode(log);
+      } catch (error) {
+        logger.warn("Skipping undecodable log", {
+          contractId: contract.id,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+      if (!decoded) {
+        continue;
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(
+          log.blockNumber,
+          new Date((block?.timestamp ?? 0) * 1000).toISOString()
+        );
+      }
+
+      events.push({
+        eventId: `${contract.id}:${log.transactionHash}:${log.index}`,
+        contractId: contract.id,
+        address: log.address.toLowerCase(),
+        ...decoded,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        transactionIndex: log.transactionIndex,
+        logIndex: log.index,
+        topics: [...log.topics],
+        data: log.data,
+        timestamp: timestamps.get(log.blockNumber)!,
+        indexedAt,
+      });
+    }
+
+    if (events.length === 0) {
+      return 0;
+    }
+    const collection = await this.getCollection();
+    await collection.bulkWrite(
+      events.map((event) => ({
+        replaceOne: { filter: { eventId: event.eventId }, replacement: event, upsert: true },
+      }))
+    );
+    return events.length;
+  }
+
+  private async getCheckpoint(contract: IndexedContract): Promise<IndexerCheckpoint> {
+    const checkpoints = await this.getCheckpoints();
+    const checkpoint = await checkpoints.findOneAndUpdate(
+      { contractId: contract.id },
+      {
+        $setOnInsert: {
+          contractId: contract.id,
+          address: contract.address.toLowerCase(),
+          startBlock: START_BLOCK,
+          lastBlock: START_BLOCK - 1,
+          recentBlocks: [],
+          reorgs: 0,
+          updatedAt: new Date().toISOString(),
+        },
+      },
+      { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+    );
+    return checkpoint!;
+  }
+
+  private async saveCheckpoint(
+    contractId: string,
+    fields: Partial<IndexerCheckpoint>
+  ): Promise<IndexerCheckpoint> {
+    const checkpoints = await this.getCheckpoints();
+    const checkpoint = await checkpoints.findOneAndUpdate(
+      { contractId },
+      { $set: { ...fields, updatedAt: new Date().toISOString() } },
+      { returnDocument: "after", projection: { _id: 0 } }
+    );
+    return checkpoint!;
+  }
+
+  /**
+   * A reorg below the last indexed block changes that block's hash. Walk the
+   * recorded chunk ends back to the newest one still on chain and drop
+   * everything indexed after it.
+   */
+  private async rollBackReorg(checkpoint: IndexerCheckpoint): Promise<IndexerCheckpoint> {
+    const recent = checkpoint.recentBlocks;
+    if (recent.length === 0) {
+      return checkpoint;
+    }
+
+    let kept = recent.length;
+    while (kept > 0) {
+      const { number, hash } = recent[kept - 1];
+      const block = await this.provider.getBlock(number);
+      if (block?.hash === hash) {
+        break;
+      }
+      kept--;
+    }
+    if (kept === recent.length) {
+      return checkpoint;
+    }
+
+    // Nothing recorded survived: re-index a full history window before the oldest record
+    const ancestor =
+      kept > 0
+        ? recent[kept - 1].number
+        : Math.max(checkpoint.startBlock - 1, recent[0].number - CHUNK_SIZE);
+    const collection = await this.getCollection();
+    const removed = await collection.deleteMany({
+      contractId: checkpoint.contractId,
+      blockNumber: { $gt: ancestor },
+    });
+    logger.warn("⛓️ Chain reorg detected, rolling back index", {
+      contractId: checkpoint.contractId,
+      from: checkpoint.lastBlock,
+      to: ancestor,
+      removed: removed.deletedCount,
+    });
+
+    const now = new Date().toISOString();
+    return this.saveCheckpoint(checkpoint.contractId, {
+      lastBlock: ancestor,
+      recentBlocks: recent.slice(0, kept),
+      reorgs: checkpoint.reorgs + 1,
+      lastReorgAt: now,
+    });
+  }
+}
@@ -0,0 +1,288 @@
+import { ethers } from "ethers";
+import { CONTRACTS, GOAL_MANAGER_ABI, VAULTS, VAULT_ABI } from "../constants";
+import { createProvider, formatUSDForDisplay } from "../utils";
+import { OFF_CHAIN_ACTIVITY_TYPES } from "./activity-log.service";
+import { ACTIVITY_TYPES, ActivityService } from "./activity.service";
+import { PriceService } from "./price.service";
+import type {
+  ActivityExportRow,
+  ChainActivityItem,
+  GoalActivityItem,
+  MetaGoal,
+  PriceQuote,
+  VaultAsset,
+} from "../types";
+
+const PAGE_SIZE = 200;
+
+const CHAIN_ACTIVITY_TYPES = ACTIVITY_TYPES.filter(
+  (type) => !(OFF_CHAIN_ACTIVITY_TYPES as string[]).includes(type)
+);
+
+export interface ExportBlockRange {
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+type RowBase = Omit<
+  ActivityExportRow,
+  "asset" | "amountWei" | "tokenAmount" | "fiatCurrency" | "fiatAmount" | "rate" | "rateSource" | "rateAsOf"
+>;
+
+/**
+ * Activity exports of a user or a group goal as rows with token and USD
+ * amounts. Rows are produced page by page from ActivityService so large
+ * exports can be streamed. Every row of one export uses the same USD rate per
+ * asset, read when the asset is first seen.
+ */
+export class ExportService {
+  private goalManager: ethers.Contract;
+  private quotes = new Map<VaultAsset, PriceQuote | null>();
+  private goalAssets = new Map<string, VaultAsset | null>();
+
+  constructor(
+    private provider: ethers.JsonRpcProvider = createProvider(),
+    private prices: PriceService = new PriceService(),
+    private activity: ActivityService = new ActivityService(provider, prices)
+  ) {
+    this.goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, provider);
+  }
+
+  /**
+   * Blocks mined within a date range, null when no block falls in it.
+   */
+  async resolveBlockRange(from?: Date, to?: Date): Promise<ExportBlockRange | null> {
+    const latest = await this.provider.getBlock("latest");
+    if (!latest) {
+      throw new Error("Could not read the latest block");
+    }
+    const fromBlock = from ? await this.firstBlockAtOrAfter(Math.ceil(from.getTime() / 1000), latest) : undefined;
+    const toBlock = to ? (await this.firstBlockAtOrAfter(Math.floor(to.getTime() / 1000) + 1, latest)) - 1 : undefined;
+
+    if ((fromBlock !== undefined && fromBlock > latest.number) || (toBlock !== undefined && toBlock < 0)) {
+      return null;
+    }
+    if (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock) {
+      return null;
+    }
+    return { fromBlock, toBlock };
+  }
+
+  async *userRows(userAddress: string, range: ExportBlockRange): AsyncGenerator<ActivityExportRow> {
+    const normalizedUser = userAddress.toLowerCase();
+    let cursor: string | undefined;
+    do {
+      const page = await this.activity.getPage({
+        userAddress: normalizedUser,
+        types: CHAIN_ACTIVITY_TYPES,
+        fromBlock: range.fromBlock,
+        toBlock: range.toBlock,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+      for (const item of page.activities) {
+        if (!("offChain" in item)) {
+          yield await this.fromUserActivity(item, normalizedUser);
+        }
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  async *metaGoalRows(metaGoal: MetaGoal, range: ExportBlockRange): AsyncGenerator<ActivityExportRow> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.activity.getGoalPage({
+        goals: metaGoal.onChainGoals,
+        fromBlock: range.fromBlock,
+        toBlock: range.toBlock,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+      for (const item of page.activities) {
+        yield await this.fromGoalActivity(item);
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  private async fromUserActivity(item: ChainActivityItem, userAddress: string): Promise<ActivityExportRow> {
+    const base = {
+      id: item.id,
+      date: item.timestamp,
+      type: item.type,
+      txHash: item.txHash,
+      blockNumber: item.blockNumber,
+      goalId: "goalId" in item ? item.goalId : null,
+      depositId: null,
+      counterparty: null,
+      direction: null,
+    };
+
+    switch (item.type) {
+      case "deposit":
+        return this.withAmount(
+          {
+            ...base,
+            depositId: item.depositId,
+            direction: "in",
+            description: item.source === "onramp" ? "Onramp deposit" : "Deposit",
+          },
+          item.asset as VaultAsset,
+          item.amountWei
+        );
+      case "goal_created":
+        return this.withAmount(
+          { ...base, description: `Goal ${item.goalId} created, target ${item.targetAmountUSD} USD` },
+          (item.asset as VaultAsset | null) ?? null,
+          null
+        );
+      case "deposit_attached":
+      case "deposit_detached":
+      case "attachment_pledged": {
+        const asset = await this.getGoalAsset(item.goalId);
+        const verb = { deposit_attached: "attached to", deposit_detached: "detached from", attachment_pledged: "pledged to" }[
+          item.type
+        ];
+        return this.withAmount(
+          { ...base, depositId: item.depositId, description: `Deposit ${item.depositId} ${verb} goal ${item.goalId}` },
+          asset,
+          asset ? await this.getDepositPrincipal(asset, userAddress, item.depositId) : null
+        );
+      }
+      case "member_invited":
+      case "invite_revoked": {
+        const counterparty = item.role === "inviter" ? item.invitee : item.inviter;
+        const action = item.type === "member_invited" ? "Invite" : "Invite revoked";
+        return this.withAmount(
+          {
+            ...base,
+            counterparty,
+            description: `${action} ${item.role === "inviter" ? "for" : "from"} ${counterparty} on goal ${item.goalId}`,
+          },
+          await this.getGoalAsset(item.goalId),
+          null
+        );
+      }
+      case "member_joined":
+      case "member_removed":
+        return this.withAmount(
+          {
+            ...base,
+            counterparty: item.member,
+            description: `${item.type === "member_joined" ? "Joined" : "Removed from"} goal ${item.goalId}`,
+          },
+          await this.getGoalAsset(item.goalId),
+          null
+        );
+    }
+  }
+
+  /**
+   * In a group goal's export, attached deposits are money in and detached
+   * deposits money out.
+   */
+  private async fromGoalActivity(item: GoalActivityItem): Promise<ActivityExportRow> {
+    const descriptions: Record<GoalActivityItem["type"], string> = {
+      deposit_attached: `Deposit ${item.depositId} attached`,
+      deposit_detached: `Deposit ${item.depositId} detached`,
+      member_joined: "Member joined",
+      member_removed: "Member removed",
+      goal_completed: "Goal completed",
+      goal_cancelled: "Goal cancelled",
+    };
+    return this.withAmount(
+      {
+        id: item.id,
+        date: item.timestamp,
+        type: item.type,
+        description: `${descriptions[item.type]} (goal ${item.goalId})`,
+        direction: item.type === "deposit_attached" ? "in" : item.type === "deposit_detached" ? "out" : null,
+        goalId: item.goalId,
+        depositId: item.depositId ?? null,
+        counterparty: item.actor,
+        txHash: item.txHash,
+        blockNumber: item.blockNumber,
+      },
+      item.asset,
+      item.amountWei
+    );
+  }
+
+  private async withAmount(
+    base: RowBase,
+    asset: VaultAsset | null,
+    amountWei: string | null
+  ): Promise<ActivityExportRow> {
+    const quote = asset ? await this.getQuote(asset) : null;
+    const tokenAmount = asset && amountWei !== null ? ethers.formatUnits(amountWei, VAULTS[asset].decimals) : null;
+    return {
+      ...base,
+      asset,
+      amountWei,
+      tokenAmount,
+      fiatCurrency: "USD",
+      fiatAmount: tokenAmount !== null && quote ? formatUSDForDisplay(parseFloat(tokenAmount) * quote.usd) : null,
+      rate: quote?.usd ?? null,
+      rateSource: quote?.source ?? null,
+      rateAsOf: quote?.asOf ?? null,
+    };
+  }
+
+  private async getQuote(asset: VaultAsset): Promise<PriceQuote | null> {
+    if (!this.quotes.has(asset)) {
+      try {
+        this.quotes.set(asset, await this.prices.getQuote(asset));
+      } catch {
+        this.quotes.set(asset, null);
+      }
+    }
+    return this.quotes.get(asset) ?? null;
+  }
+
+  private async getGoalAsset(goalId: string): Promise<VaultAsset | null> {
+    if (!this.goalAssets.has(goalId)) {
+      let asset: VaultAsset | null = null;
+      try {
+        const goal = await this.goalManager.goals(goalId);
+        const vault = String(goal.vault).toLowerCase();
+        asset =
+          (Object.keys(VAULTS) as VaultAsset[]).find((candidate) => VAULTS[candidate].address.toLowerCase() === vault) ??
+          null;
+      } catch {
+        // Exported without an asset
+      }
+      this.goalAssets.set(goalId, asset);
+    }
+    return this.goalAssets.get(goalId) ?? null;
+  }
+
+  private async getDepositPrincipal(asset: VaultAsset, owner: string, depositId: string): Promise<string | null> {
+    try {
+      const vault = new ethers.Contract(VAULTS[asset].address, VAULT_ABI, this.provider);
+      const { principal } = await vault.deposits(owner, depositId);
+      return principal.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  // First block mined at or after a unix time, latest + 1 when there is none yet
+  private async firstBlockAtOrAfter(seconds: number, latest: ethers.Block): Promise<number> {
+    if (latest.timestamp < seconds) {
+      return latest.number + 1;
+    }
+    let low = 0;
+    let high = latest.number;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const block = await this.provider.getBlock(mid);
+      if (!block || block.timestamp < seconds) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,141 @@
+import { getMetaGoalsCollection } from "../database";
+import { findUnmetRequirement } from "./compliance.service";
+import { VerificationStatusService } from "./verification-status.service";
+import type {
+  ComplianceRequirement,
+  GoalMembershipErrorResponse,
+  MetaGoal,
+  VaultAsset,
+} from "../types";
+
+export class GoalMembershipError extends Error {
+  constructor(
+    public metaGoalId: string,
+    public walletAddress: string,
+    public requirement: ComplianceRequirement,
+    message: string
+  ) {
+    super(message);
+    this.name = "GoalMembershipError";
+  }
+
+  toResponse(): GoalMembershipErrorResponse {
+    return {
+      error: this.message,
+      metaGoalId: this.metaGoalId,
+      walletAddress: this.walletAddress,
+      requirement: this.requirement,
+    };
+  }
+}
+
+/**
+ * Enforces a group goal's membership requirements against the Self
+ * verification of the wallet joining, being invited to or allocating into
+ * it. The creator set the requirements and is always a member.
+ */
+export class GoalMembershipService {
+  constructor(private statuses: VerificationStatusService = new VerificationStatusService()) {}
+
+  /**
+   * Throws GoalMembershipError when the wallet does not meet the meta-goal's
+   * membership requirements.
+   */
+  async assertEligible(
+    metaGoal: Pick<MetaGoal, "metaGoalId" | "creatorAddress" | "membershipRequirements">,
+    walletAddress: string
+  ): Promise<void> {
+    const requirements = metaGoal.membershipRequirements;
+    if (!requirements || Object.keys(requirements).length === 0) {
+      return;
+    }
+    if (metaGoal.creatorAddress.toLowerCase() === walletAddress.toLowerCase()) {
+      return;
+    }
+
+    const unmet = findUnmetRequirement(requirements, await this.statuses.getStatus(walletAddress));
+    if (unmet) {
+      throw new GoalMembershipError(
+        metaGoal.metaGoalId,
+        walletAddress.toLowerCase(),
+        unmet.requirement,
+        `${walletAddress} does not meet the membership requirements of this goal: ${unmet.message}`
+      );
+    }
+  }
+
+  /**
+   * Whether the wallet would take a group over its memberLimit by joining. The
+   * creator and current participants never do.
+   */
+  static isFull(
+    metaGoal: Pick<MetaGoal, "creatorAddress" | "participants" | "memberLimit">,
+    walletAddress: string
+  ): boolean {
+    const wallet = walletAddress.toLowerCase();
+    const participants = metaGoal.participants ?? [];
+    return (
+      !!metaGoal.memberLimit &&
+      metaGoal.creatorAddress.toLowerCase() !== wallet &&
+      !participants.includes(wallet) &&
+      participants.length >= metaGoal.memberLimit
+    );
+  }
+
+  /**
+   * Add the wallet to a group's participants. The memberLimit is checked in
+   * the same update, so concurrent joins cannot take the group over it.
+   * Returns false when the group is full.
+   */
+  async addParticipant(metaGoalId: string, walletAddress: string): Promise<boolean> {
+    const wallet = walletAddress.toLowerCase();
+    const collection = await getMetaGoalsCollection();
+    const result = await collection.updateOne(
+      {
+        metaGoalId,
+        $or: [
+          { creatorAddress: wallet },
+          { participants: wallet },
+          { memberLimit: { $exists: false } },
+          { memberLimit: 0 },
+          { $expr: { $lt: [{ $size: { $ifNull: ["$participants", []] } }, "$memberLimit"] } },
+        ],
+      },
+      {
+        $addToSet: { participants: wallet },
+        $set: { updatedAt: new Date().toISOString() },
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Check an allocation into a meta-goal, named directly or through one of its
+   * on-chain goals.
+   */
+  async assertCanAllocate(
+    target: { asset: VaultAsset; metaGoalId?: string; targetGoalId?: string },
+    walletAddress: string
+  ): Promise<void> {
+    if (!target.metaGoalId && !target.targetGoalId) {
+      return;
+    }
+
+    const collection = await getMetaGoalsCollection();
+    const metaGoals = await collection
+      .find(
+        {
+          $or: [
+            ...(target.metaGoalId ? [{ metaGoalId: target.metaGoalId }] : []),
+            ...(target.targetGoalId ? [{ [`onChainGoals.${target.asset}`]: String(target.targetGoalId) }] : []),
+          ],
+        },
+        { projection: { _id: 0, metaGoalId: 1, creatorAddress: 1, membershipRequirements: 1 } }
+      )
+      .toArray();
+
+    for (const metaGoal of metaGoals) {
+      await this.assertEligible(metaGoal, walletAddress);
+    }
+  }
+}
@@ -1,8 +1,11 @@
 import { ethers } from "ethers";
 import { v4 as uuidv4 } from "uuid";
 import { VAULTS, CONTRACTS, GOAL_MANAGER_ABI } from "../constants";
-import { createProvider, formatAmountForDisplay } from "../utils";
+import { createProvider } from "../utils";
 import { getMetaGoalsCollection } from "../database";
+import { GOAL_MANAGER_CONTRACT_ID } from "../indexer";
+import { EventIndexerService } from "./event-indexer.service";
+import { PriceService } from "./price.service";
 import type { VaultAsset, MetaGoal } from "../types";
 import type { Collection } from "mongodb";
 
@@ -10,10 +13,13 @@ export class GoalSyncService {
   private provider: ethers.Provider;
   private goalManager: ethers.Contract;
   private collection: Collection<MetaGoal> | null = null;
+  private prices = new PriceService();
+  private indexer: EventIndexerService;
 
   constructor(provider?: ethers.Provider) {
     this.provider = provider || createProvider();
     this.goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, this.provider);
+    this.indexer = new EventIndexerService(this.provider);
   }
 
   private async getCollection() {
@@ -43,12 +49,10 @@ export class GoalSyncService {
 
       if (!asset) return null;
 
-      const vaultConfig = VAULTS[asset];
-      const formattedAmount = formatAmountForDisplay(onChainGoal.targetAmount.toString(), vaultConfig.decimals);
-      const targetAmountUSD = parseFloat(formattedAmount);
-      
+      const targetAmountUSD = parseFloat((await this.prices.toUSD(asset, onChainGoal.targetAmount)).toFixed(2));
+
       if (!Number.isFinite(targetAmountUSD) || targetAmountUSD < 0) {
-        console.error(`Invalid targetAmountUSD for goal ${goalId}: ${formattedAmount}`);
+        console.error(`Invalid targetAmountUSD for goal ${goalId}: ${targetAmountUSD}`);
         return null;
       }
 
@@ -92,13 +96,27 @@ export class GoalSyncService {
     const discoveredGoalIds: string[] = [];
     
     try {
-      let startBlock: number;
-      if (fromBlock < 0) {
-        const latestBlock = await this.provider.getBlockNumber();
-        startBlock = Math.max(0, latestBlock + fromBlock);
-      } else {
-        startBlock = Math.floor(fromBlock);
+      const latestBlock = await this.provider.getBlockNumber();
+      const coverage = await this.indexer.getCoverage([GOAL_MANAGER_CONTRACT_ID], latestBlock);
+
+      if (coverage) {
+        // The index holds the full history, so a relative lookback only applies to the RPC
+        const events = await this.indexer.find({
+          contractIds: [GOAL_MANAGER_CONTRACT_ID],
+          names: ["GoalCreated"],
+          user: userAddress,
+          fromBlock: fromBlock >= 0 ? Math.floor(fromBlock) : undefined,
+        });
+        console.log(`📊 Found ${events.length} indexed GoalCreated events for ${userAddress}`);
+
+        for (const event of events) {
+          discoveredGoalIds.push(event.goalId!);
+          await this.syncGoalFromChain(event.goalId!);
+        }
+        return discoveredGoalIds;
       }
+
+      const startBlock = fromBlock < 0 ? Math.max(0, latestBlock + fromBlock) : Math.floor(fromBlock);
       
       console.log(`🔍 Discovering goals for ${userAddress} from block ${startBlock}`);
       const filter = this.goalManager.filters.GoalCreated(null, userAddress, null);
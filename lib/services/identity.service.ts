@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from "uuid";
+import { getIdentitiesCollection } from "../database";
+import type { Identity } from "../types";
+import type { Collection, Filter } from "mongodb";
+
+// Wallets one person may link by verifying with the same identity document
+const MAX_WALLETS_PER_HUMAN = parseInt(process.env.MAX_WALLETS_PER_HUMAN || "5");
+
+export class IdentityLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdentityLimitError";
+  }
+}
+
+/**
+ * Links wallets to people through their Self nullifier, which is the same for
+ * every proof of one identity document in this app's scope. Per-person rules
+ * (verification XP, leaderboard eligibility, limits) are enforced here rather
+ * than per wallet.
+ */
+export class IdentityService {
+  private collection: Collection<Identity> | null = null;
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getIdentitiesCollection();
+    }
+    return this.collection;
+  }
+
+  /**
+   * Add a wallet to the person behind a nullifier, creating the person on the
+   * first verification. Throws IdentityLimitError once they already have
+   * MAX_WALLETS_PER_HUMAN other wallets.
+   */
+  async link(nullifier: string, walletAddress: string): Promise<Identity> {
+    const collection = await this.getCollection();
+    const wallet = walletAddress.toLowerCase();
+    const now = new Date().toISOString();
+
+    try {
+      const identity = await collection.findOneAndUpdate(
+        {
+          nullifier,
+          $or: [{ wallets: wallet }, { [`wallets.${MAX_WALLETS_PER_HUMAN - 1}`]: { $exists: false } }],
+        },
+        {
+          $addToSet: { wallets: wallet },
+          $set: { updatedAt: now },
+          $setOnInsert: { humanId: uuidv4(), nullifier, primaryWallet: wallet, createdAt: now },
+        },
+        { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+      );
+      if (!identity) {
+        throw new Error("Failed to link wallet to identity");
+      }
+      return identity;
+    } catch (error) {
+      // The filter misses a person who is at the limit, so the upsert collides with them
+      if ((error as { code?: number }).code === 11000) {
+        throw new IdentityLimitError(
+          `This identity is already linked to ${MAX_WALLETS_PER_HUMAN} wallets, the maximum per person`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim the person's one-off verification XP for a wallet. True when the
+   * wallet may receive it: nobody claimed it yet, or this wallet did.
+   */
+  async claimVerificationXP(nullifier: string, walletAddress: string): Promise<boolean> {
+    const collection = await this.getCollection();
+    const wallet = walletAddress.toLowerCase();
+    const claimed = await collection.findOneAndUpdate(
+      {
+        nullifier,
+        $or: [{ verificationXPAwardedTo: { $exists: false } }, { verificationXPAwardedTo: wallet }],
+      },
+      { $set: { verificationXPAwardedTo: wallet, updatedAt: new Date().toISOString() } }
+    );
+    return claimed !== null;
+  }
+
+  async findByWallet(walletAddress: string): Promise<Identity | null> {
+    const collection = await this.getCollection();
+    return collection.findOne(
+      { wallets: walletAddress.toLowerCase() },
+      { sort: { createdAt: 1 }, projection: { _id: 0 } }
+    );
+  }
+
+  /**
+   * Every wallet of the person owning this wallet, or just the wallet when it
+   * is not linked to a verified identity.
+   */
+  async getLinkedWallets(walletAddress: string): Promise<string[]> {
+    const identity = await this.findByWallet(walletAddress);
+    return identity ? identity.wallets : [walletAddress.toLowerCase()];
+  }
+
+  /**
+   * Linked wallets other than their person's primary one. They share the
+   * primary wallet's leaderboard spot and are left off the leaderboard.
+   */
+  async getSecondaryWallets(walletAddresses?: string[]): Promise<Set<string>> {
+    const collection = await this.getCollection();
+    const filter: Filter<Identity> = { "wallets.1": { $exists: true } };
+    if (walletAddresses) {
+      filter.wallets = { $in: walletAddresses.map((address) => address.toLowerCase()) };
+    }
+    const identities = await collection.find(filter, { projection: { primaryWallet: 1, wallets: 1 } }).toArray();
+    return new Set(
+      identities.flatMap((identity) => identity.wallets.filter((wallet) => wallet !== identity.primaryWallet))
+    );
+  }
+
+  /**
+   * People with at least minWallets wallets, most wallets first.
+   */
+  async listClusters(options: { minWallets?: number; skip?: number; limit?: number } = {}): Promise<{
+    total: number;
+    clusters: Array<Identity & { walletCount: number }>;
+  }> {
+    const collection = await this.getCollection();
+    const minWallets = Math.max(1, options.minWallets ?? 2);
+    const filter: Filter<Identity> = { [`wallets.${minWallets - 1}`]: { $exists: true } };
+
+    const [total, clusters] = await Promise.all([
+      collection.countDocuments(filter),
+      collection
+        .aggregate<Identity & { walletCount: number }>([
+          { $match: filter },
+          { $addFields: { walletCount: { $size: "$wallets" } } },
+          { $sort: { walletCount: -1, createdAt: 1 } },
+          { $skip: options.skip ?? 0 },
+          { $limit: options.limit ?? 50 },
+          { $project: { _id: 0 } },
+        ])
+        .toArray(),
+    ]);
+    return { total, clusters };
+  }
+}
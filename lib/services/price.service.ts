@@ -0,0 +1,164 @@
+import { ethers } from "ethers";
+import { LEADERBOARD_DECIMALS, VAULTS } from "../constants";
+import { getPriceOverridesCollection } from "../database";
+import { createDefaultPriceSources, PriceUnavailableError, type PriceSource } from "../pricing";
+import { logger } from "../logger";
+import type { PriceOverride, PriceQuote, VaultAsset } from "../types";
+import type { Collection } from "mongodb";
+
+const CACHE_TTL_MS = Number(process.env.PRICE_CACHE_TTL_MS) || 5 * 60 * 1000;
+
+// Fixed-point precision of the USD price when converting to leaderboard units
+const PRICE_SCALE = ethers.parseUnits("1", 8);
+
+// Shared by every PriceService in the process so request handlers do not refetch
+const quoteCache = new Map<VaultAsset, { quote: PriceQuote; expiresAt: number }>();
+
+/**
+ * USD valuation of vault assets. Sources are tried in order and the first
+ * price found is cached for PRICE_CACHE_TTL_MS. When every source fails, the
+ * last known quote is served rather than valuing the asset at zero.
+ */
+export class PriceService {
+  private collection: Collection<PriceOverride> | null = null;
+
+  constructor(private sources: PriceSource[] = createDefaultPriceSources()) {}
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getPriceOverridesCollection();
+    }
+    return this.collection;
+  }
+
+  static clearCache(asset?: VaultAsset): void {
+    if (asset) {
+      quoteCache.delete(asset);
+    } else {
+      quoteCache.clear();
+    }
+  }
+
+  async getQuote(asset: VaultAsset): Promise<PriceQuote> {
+    const cached = quoteCache.get(asset);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.quote;
+    }
+
+    for (const source of this.sources) {
+      try {
+        const price = await source.getPrice(asset);
+        if (!price) {
+          continue;
+        }
+        const quote: PriceQuote = {
+          asset,
+          usd: price.usd,
+          source: source.id,
+          asOf: price.asOf,
+          fetchedAt: new Date().toISOString(),
+        };
+        quoteCache.set(asset, { quote, expiresAt: Date.now() + CACHE_TTL_MS });
+        return quote;
+      } catch (error) {
+        logger.warn("Price source failed", {
+          asset,
+          source: source.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (cached) {
+      logger.warn("Serving expired price quote", { asset, quote: cached.quote });
+      return cached.quote;
+    }
+    throw new PriceUnavailableError(asset);
+  }
+
+  async getQuotes(): Promise<PriceQuote[]> {
+    return Promise.all((Object.keys(VAULTS) as VaultAsset[]).map((asset) => this.getQuote(asset)));
+  }
+
+  /**
+   * USD value of a raw token amount.
+   */
+  async toUSD(asset: VaultAsset, amountWei: bigint | string): Promise<number> {
+    const quote = await this.getQuote(asset);
+    return parseFloat(ethers.formatUnits(amountWei, VAULTS[asset].decimals)) * quote.usd;
+  }
+
+  /**
+   * USD value of a raw token amount in leaderboard score units (USD with
+   * LEADERBOARD_DECIMALS decimals), whatever the vault's own decimals are.
+   */
+  async toScoreUnits(asset: VaultAsset, amountWei: bigint | string): Promise<bigint> {
+    const quote = await this.getQuote(asset);
+    return PriceService.scoreUnits(asset, amountWei, quote.usd);
+  }
+
+  /**
+   * Integer conversion behind toScoreUnits, for callers that already hold a price.
+   */
+  static scoreUnits(asset: VaultAsset, amountWei: bigint | string, usd: number): bigint {
+    const price = BigInt(Math.round(usd * Number(PRICE_SCALE)));
+    const tokenScale = ethers.parseUnits("1", VAULTS[asset].decimals);
+    const scoreScale = ethers.parseUnits("1", LEADERBOARD_DECIMALS);
+    return (BigInt(amountWei) * price * scoreScale) / (tokenScale * PRICE_SCALE);
+  }
+
+  /**
+   * Raw token amount worth a USD value, e.g. the per-vault target of a meta-goal.
+   */
+  async fromUSD(asset: VaultAsset, usd: number): Promise<bigint> {
+    const quote = await this.getQuote(asset);
+    const decimals = VAULTS[asset].decimals;
+    return ethers.parseUnits((usd / quote.usd).toFixed(decimals), decimals);
+  }
+
+  async listOverrides(): Promise<PriceOverride[]> {
+    const collection = await this.getCollection();
+    return collection.find({}, { projection: { _id: 0 } }).sort({ asset: 1 }).toArray();
+  }
+
+  /**
+   * Other processes pick up the override when their cached quote expires.
+   */
+  async setOverride(
+    asset: VaultAsset,
+    usd: number,
+    options: { reason?: string; expiresAt?: string } = {}
+  ): Promise<PriceOverride> {
+    const collection = await this.getCollection();
+    const now = new Date().toISOString();
+    // Fields left out of a new override are cleared rather than kept from the old one
+    const cleared = {
+      ...(options.reason ? {} : { reason: "" as const }),
+      ...(options.expiresAt ? {} : { expiresAt: "" as const }),
+    };
+    const override = await collection.findOneAndUpdate(
+      { asset },
+      {
+        $set: {
+          usd,
+          updatedAt: now,
+          ...(options.reason ? { reason: options.reason } : {}),
+          ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+        },
+        ...(Object.keys(cleared).length > 0 ? { $unset: cleared } : {}),
+        $setOnInsert: { asset, createdAt: now },
+      },
+      { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+    );
+    PriceService.clearCache(asset);
+    logger.info("💱 Price override set", { asset, usd, ...options });
+    return override!;
+  }
+
+  async removeOverride(asset: VaultAsset): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteOne({ asset });
+    PriceService.clearCache(asset);
+    return result.deletedCount > 0;
+  }
+}
@@ -0,0 +1,352 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { CONTRACTS, GOAL_MANAGER_ABI, VAULTS } from "../constants";
+import {
+  getMetaGoalsCollection,
+  getRoutingRuleAuditCollection,
+  getRoutingRulesCollection,
+} from "../database";
+import { createProvider } from "../utils";
+import type {
+  RoutingRule,
+  RoutingRuleAuditAction,
+  RoutingRuleAuditEntry,
+  RoutingRuleConditions,
+  RoutingRuleTarget,
+  VaultAsset,
+} from "../types";
+import type { Collection } from "mongodb";
+
+const MAX_RULES_PER_USER = 20;
+const MAX_RULE_NAME_LENGTH = 100;
+
+// Wallet-auth scope the routing rule routes sign requests under
+export const ROUTING_RULES_SCOPE = "routing rules";
+
+export interface RoutingRuleInput {
+  name?: string;
+  priority?: number;
+  conditions?: RoutingRuleConditions;
+  target?: RoutingRuleTarget;
+  untilCompleted?: boolean;
+  enabled?: boolean;
+}
+
+export class RoutingRuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoutingRuleValidationError";
+  }
+}
+
+export class RoutingRuleNotFoundError extends Error {
+  constructor(ruleId: string) {
+    super(`Routing rule ${ruleId} not found`);
+    this.name = "RoutingRuleNotFoundError";
+  }
+}
+
+/**
+ * Ordered deposit routing rules owned by a user. Every change is written to an
+ * append-only audit collection with the rule before and after the change.
+ */
+export class RoutingRuleService {
+  private collection: Collection<RoutingRule> | null = null;
+  private auditCollection: Collection<RoutingRuleAuditEntry> | null = null;
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getRoutingRulesCollection();
+    }
+    return this.collection;
+  }
+
+  private async getAuditCollection() {
+    if (!this.auditCollection) {
+      this.auditCollection = await getRoutingRuleAuditCollection();
+    }
+    return this.auditCollection;
+  }
+
+  /**
+   * Whether a rule's conditions accept a deposit of a raw token amount.
+   */
+  static matches(rule: RoutingRule, asset: VaultAsset, amount?: string): boolean {
+    const { conditions } = rule;
+    if (conditions.asset && conditions.asset !== asset) {
+      return false;
+    }
+    if (conditions.minAmount === undefined && conditions.maxAmount === undefined) {
+      return true;
+    }
+    // Amount conditions cannot be checked without an amount
+    if (amount === undefined) {
+      return false;
+    }
+
+    const decimals = VAULTS[asset].decimals;
+    const value = BigInt(amount);
+    if (conditions.minAmount !== undefined && value < ethers.parseUnits(conditions.minAmount, decimals)) {
+      return false;
+    }
+    if (conditions.maxAmount !== undefined && value >= ethers.parseUnits(conditions.maxAmount, decimals)) {
+      return false;
+    }
+    return true;
+  }
+
+  async list(userAddress: string): Promise<RoutingRule[]> {
+    const collection = await this.getCollection();
+    return collection
+      .find({ userAddress: userAddress.toLowerCase() }, { projection: { _id: 0 } })
+      .sort({ priority: 1, createdAt: 1 })
+      .toArray();
+  }
+
+  async get(userAddress: string, ruleId: string): Promise<RoutingRule | null> {
+    const collection = await this.getCollection();
+    return collection.findOne(
+      { ruleId, userAddress: userAddress.toLowerCase() },
+      { projection: { _id: 0 } }
+    );
+  }
+
+  /**
+   * Enabled rules of a user that accept this deposit, in evaluation order.
+   */
+  async findMatching(params: {
+    userAddress: string;
+    asset: VaultAsset;
+    amount?: string;
+  }): Promise<RoutingRule[]> {
+    const rules = await this.list(params.userAddress);
+    return rules.filter(
+      (rule) => rule.enabled && RoutingRuleService.matches(rule, params.asset, params.amount)
+    );
+  }
+
+  async create(userAddress: string, input: RoutingRuleInput): Promise<RoutingRule> {
+    const collection = await this.getCollection();
+    const owner = userAddress.toLowerCase();
+
+    const existing = await this.list(owner);
+    if (existing.length >= MAX_RULES_PER_USER) {
+      throw new RoutingRuleValidationError(`A user can have at most ${MAX_RULES_PER_USER} routing rules`);
+    }
+    if (!input.target) {
+      throw new RoutingRuleValidationError("Missing required field: target");
+    }
+
+    const now = new Date().toISOString();
+    const rule: RoutingRule = {
+      ruleId: uuidv4(),
+      userAddress: owner,
+      // New rules go last unless a priority is given
+      priority: existing.length > 0 ? existing[existing.length - 1].priority + 1 : 0,
+      conditions: {},
+      target: input.target,
+      untilCompleted: true,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.applyInput(rule, input);
+
+    await collection.insertOne({ ...rule });
+    await this.audit("created", rule.ruleId, owner, undefined, rule);
+    return rule;
+  }
+
+  async update(userAddress: string, ruleId: string, input: RoutingRuleInput): Promise<RoutingRule> {
+    const collection = await this.getCollection();
+    const before = await this.get(userAddress, ruleId);
+    if (!before) {
+      throw new RoutingRuleNotFoundError(ruleId);
+    }
+
+    const after: RoutingRule = { ...before, updatedAt: new Date().toISOString() };
+    await this.applyInput(after, input);
+
+    await collection.updateOne(
+      { ruleId, userAddress: before.userAddress },
+      {
+        $set: {
+          priority: after.priority,
+          conditions: after.conditions,
+          target: after.target,
+          untilCompleted: after.untilCompleted,
+          enabled: after.enabled,
+          updatedAt: after.updatedAt,
+          ...(after.name !== undefined ? { name: after.name } : {}),
+        },
+        ...(after.name === undefined && before.name !== undefined ? { $unset: { name: "" } } : {}),
+      }
+    );
+    await this.audit("updated", ruleId, before.userAddress, before, after);
+    return after;
+  }
+
+  async delete(userAddress: string, ruleId: string): Promise<RoutingRule> {
+    const collection = await this.getCollection();
+    const before = await collection.findOneAndDelete(
+      { ruleId, userAddress: userAddress.toLowerCase() },
+      { projection: { _id: 0 } }
+    );
+    if (!before) {
+      throw new RoutingRuleNotFoundError(ruleId);
+    }
+
+    await this.audit("deleted", ruleId, before.userAddress, before, undefined);
+    return before;
+  }
+
+  async getAuditTrail(
+    userAddress: string,
+    options: { ruleId?: string; limit?: number } = {}
+  ): Promise<RoutingRuleAuditEntry[]> {
+    const collection = await this.getAuditCollection();
+    return collection
+      .find(
+        {
+          userAddress: userAddress.toLowerCase(),
+          ...(options.ruleId ? { ruleId: options.ruleId } : {}),
+        },
+        { projection: { _id: 0 } }
+      )
+      .sort({ createdAt: -1 })
+      .limit(options.limit ?? 50)
+      .toArray();
+  }
+
+  /**
+   * Validate the fields present in input and copy them onto rule.
+   */
+  private async applyInput(rule: RoutingRule, input: RoutingRuleInput): Promise<void> {
+    if (input.name !== undefined) {
+      if (typeof input.name !== "string" || input.name.length > MAX_RULE_NAME_LENGTH) {
+        throw new RoutingRuleValidationError(`Invalid name. Must be a string of at most ${MAX_RULE_NAME_LENGTH} characters`);
+      }
+      rule.name = input.name.trim() || undefined;
+    }
+
+    if (input.priority !== undefined) {
+      if (!Number.isInteger(input.priority) || input.priority < 0) {
+        throw new RoutingRuleValidationError("Invalid priority. Must be a non-negative integer");
+      }
+      rule.priority = input.priority;
+    }
+
+    for (const flag of ["untilCompleted", "enabled"] as const) {
+      if (input[flag] !== undefined) {
+        if (typeof input[flag] !== "boolean") {
+          throw new RoutingRuleValidationError(`Invalid ${flag}. Must be a boolean`);
+        }
+        rule[flag] = input[flag];
+      }
+    }
+
+    if (input.conditions !== undefined) {
+      rule.conditions = this.validateConditions(input.conditions);
+    }
+
+    if (input.target !== undefined) {
+      rule.target = await this.validateTarget(rule.userAddress, input.target);
+    }
+  }
+
+  private validateConditions(conditions: RoutingRuleConditions): RoutingRuleConditions {
+    if (!conditions || typeof conditions !== "object") {
+      throw new RoutingRuleValidationError("Invalid conditions. Must be an object");
+    }
+
+    const { asset, minAmount, maxAmount } = conditions;
+    if (asset !== undefined && !VAULTS[asset]) {
+      throw new RoutingRuleValidationError(
+        `Invalid conditions.asset. Supported assets: ${Object.keys(VAULTS).join(", ")}`
+      );
+    }
+    for (const [field, value] of Object.entries({ minAmount, maxAmount })) {
+      if (value !== undefined && (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value))) {
+        throw new RoutingRuleValidationError(
+          `Invalid conditions.${field}. Must be a decimal string in token units (e.g., '5' or '2.5')`
+        );
+      }
+    }
+    if (minAmount !== undefined && maxAmount !== undefined && parseFloat(minAmount) >= parseFloat(maxAmount)) {
+      throw new RoutingRuleValidationError("Invalid conditions. minAmount must be less than maxAmount");
+    }
+
+    return {
+      ...(asset !== undefined ? { asset } : {}),
+      ...(minAmount !== undefined ? { minAmount } : {}),
+      ...(maxAmount !== undefined ? { maxAmount } : {}),
+    };
+  }
+
+  private async validateTarget(userAddress: string, target: RoutingRuleTarget): Promise<RoutingRuleTarget> {
+    if (!target || typeof target !== "object") {
+      throw new RoutingRuleValidationError("Invalid target. Must be an object");
+    }
+
+    switch (target.type) {
+      case "quicksave":
+        return { type: "quicksave" };
+      case "goal":
+        if (typeof target.goalId !== "string" || !/^\d+$/.test(target.goalId)) {
+          throw new RoutingRuleValidationError("Invalid target.goalId. Must be an on-chain goal id");
+        }
+        if (!(await this.isGoalMember(userAddress, target.goalId))) {
+          throw new RoutingRuleValidationError("Goal is not owned or joined by this user");
+        }
+        return { type: "goal", goalId: target.goalId };
+      case "metaGoal": {
+        if (typeof target.metaGoalId !== "string" || target.metaGoalId.length > 100) {
+          throw new RoutingRuleValidationError("Invalid target.metaGoalId");
+        }
+        const metaGoals = await getMetaGoalsCollection();
+        const metaGoal = await metaGoals.findOne({ metaGoalId: target.metaGoalId });
+        if (!metaGoal) {
+          throw new RoutingRuleValidationError("Meta-goal not found");
+        }
+        const isMember =
+          metaGoal.creatorAddress.toLowerCase() === userAddress ||
+          metaGoal.participants?.includes(userAddress);
+        if (!isMember) {
+          throw new RoutingRuleValidationError("Meta-goal is not owned or joined by this user");
+        }
+        return { type: "metaGoal", metaGoalId: target.metaGoalId };
+      }
+      default:
+        throw new RoutingRuleValidationError("Invalid target.type. Must be 'metaGoal', 'goal' or 'quicksave'");
+    }
+  }
+
+  // Attaching to a goal makes the owner a member, so rules may only name goals they are in already
+  private async isGoalMember(userAddress: string, goalId: string): Promise<boolean> {
+    const goalManager = new ethers.Contract(CONTRACTS.GOAL_MANAGER, GOAL_MANAGER_ABI, createProvider());
+    const goal = await goalManager.goals(goalId);
+    if (goal.id.toString() === "0") {
+      return false;
+    }
+    return goal.creator.toLowerCase() === userAddress || (await goalManager.isMember(goalId, userAddress));
+  }
+
+  private async audit(
+    action: RoutingRuleAuditAction,
+    ruleId: string,
+    userAddress: string,
+    before: RoutingRule | undefined,
+    after: RoutingRule | undefined
+  ): Promise<void> {
+    const collection = await this.getAuditCollection();
+    await collection.insertOne({
+      auditId: uuidv4(),
+      ruleId,
+      userAddress,
+      action,
+      ...(before ? { before } : {}),
+      ...(after ? { after } : {}),
+      createdAt: new Date().toISOString(),
+    });
+  }
+}
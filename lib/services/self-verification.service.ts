@@ -0,0 +1,99 @@
+import { v4 as uuidv4 } from "uuid";
+import { getSelfVerificationsCollection } from "../database";
+import { getSelfVerifier, type SelfProofVerifier, type SelfVerifyPayload } from "../self";
+import { createProvider } from "../utils";
+import { ActivityLogService } from "./activity-log.service";
+import { IdentityService } from "./identity.service";
+import { XPService } from "./xp.service";
+import type { Identity, SelfVerification } from "../types";
+import type { Collection } from "mongodb";
+
+export interface SelfVerificationResult {
+  verification: SelfVerification;
+  identity: Identity;
+  xp: { awarded: boolean; totalXP: number };
+}
+
+/**
+ * Validates Self proofs, keeps one SelfVerification record per wallet and
+ * attestation type, links the wallet to its person by nullifier and awards
+ * verification XP.
+ */
+export class SelfVerificationService {
+  private collection: Collection<SelfVerification> | null = null;
+
+  constructor(
+    private verifier: SelfProofVerifier = getSelfVerifier(),
+    private xp: XPService = new XPService(createProvider()),
+    private activityLog: ActivityLogService = new ActivityLogService(),
+    private identities: IdentityService = new IdentityService()
+  ) {}
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getSelfVerificationsCollection();
+    }
+    return this.collection;
+  }
+
+  /**
+   * Verify a proof payload, store the verification and award XP. Verifying
+   * again refreshes the stored disclosures; XP is only awarded once per
+   * person. Throws IdentityLimitError when the person has too many wallets.
+   */
+  async verify(payload: SelfVerifyPayload, endpoint: string): Promise<SelfVerificationResult> {
+    const proof = await this.verifier.verify(payload);
+    const identity = await this.identities.link(proof.nullifier, proof.walletAddress);
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    const verification = await collection.findOneAndUpdate(
+      { walletAddress: proof.walletAddress, attestationId: proof.attestationId },
+      {
+        $set: {
+          userIdentifier: proof.userIdentifier,
+          nullifier: proof.nullifier,
+          nationality: proof.nationality,
+          olderThan: proof.olderThan,
+          ofac: proof.ofac,
+          forbiddenCountriesListPacked: proof.forbiddenCountriesListPacked,
+          userData: proof.userData,
+          chainId: proof.chainId,
+          endpoint,
+          documentExpiresAt: proof.documentExpiresAt,
+          transactionHash: proof.transactionHash,
+          blockNumber: proof.blockNumber,
+          source: "self_app",
+          verifiedAt: now,
+          updatedAt: now,
+        },
+        $setOnInsert: {
+          selfId: uuidv4(),
+          sessionId: uuidv4(),
+          createdAt: now,
+        },
+      },
+      { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+    );
+    if (!verification) {
+      throw new Error("Failed to store Self verification");
+    }
+
+    await this.activityLog.recordIdentityVerified(proof.walletAddress, {
+      attestationId: proof.attestationId,
+      nationality: proof.nationality,
+      timestamp: now.toISOString(),
+    });
+    const xp = await this.xp.awardSelfVerificationXP(proof.walletAddress, proof.nullifier);
+
+    return { verification, identity, xp };
+  }
+
+  async findByWallet(walletAddress: string, attestationId?: string): Promise<SelfVerification | null> {
+    const collection = await this.getCollection();
+    return collection.findOne(
+      { walletAddress: walletAddress.toLowerCase(), ...(attestationId ? { attestationId } : {}) },
+      { sort: { verifiedAt: -1 }, projection: { _id: 0 } }
+    );
+  }
+}
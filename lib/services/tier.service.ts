@@ -0,0 +1,193 @@
+import { getAllocationsCollection, getMetaGoalsCollection } from "../database";
+import { IdentityService } from "./identity.service";
+import { PriceService } from "./price.service";
+import { VerificationStatusService } from "./verification-status.service";
+import type {
+  TierHeadroom,
+  TierLimitErrorResponse,
+  TierLimits,
+  VaultAsset,
+  VerificationStatus,
+  VerificationTier,
+} from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_TIER_LIMITS: Record<VerificationTier, TierLimits> = {
+  unverified: { dailyAllocationUSD: 100, maxGoals: 3, maxGroupSize: 5 },
+  self_verified: { dailyAllocationUSD: 1000, maxGoals: 10, maxGroupSize: 25 },
+  self_verified_nationality: { dailyAllocationUSD: 10000, maxGoals: 50, maxGroupSize: 100 },
+};
+
+export class TierLimitError extends Error {
+  constructor(
+    public limit: keyof TierLimits,
+    public headroom: TierHeadroom,
+    message: string
+  ) {
+    super(message);
+    this.name = "TierLimitError";
+  }
+
+  toResponse(): TierLimitErrorResponse {
+    return { error: this.message, tier: this.headroom.tier, limit: this.limit, headroom: this.headroom };
+  }
+}
+
+/**
+ * Tier caps, with per-tier overrides from VERIFICATION_TIER_LIMITS, e.g.
+ * {"unverified":{"dailyAllocationUSD":50},"self_verified":{"maxGoals":20}}
+ */
+export function loadTierLimits(
+  raw: string | undefined = process.env.VERIFICATION_TIER_LIMITS
+): Record<VerificationTier, TierLimits> {
+  if (!raw) {
+    return DEFAULT_TIER_LIMITS;
+  }
+
+  let overrides: Partial<Record<VerificationTier, Partial<TierLimits>>>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    throw new Error("VERIFICATION_TIER_LIMITS must be a JSON object keyed by tier");
+  }
+
+  const limits = { ...DEFAULT_TIER_LIMITS };
+  for (const tier of Object.keys(overrides) as VerificationTier[]) {
+    if (!DEFAULT_TIER_LIMITS[tier]) {
+      throw new Error(`VERIFICATION_TIER_LIMITS: unknown tier ${tier}`);
+    }
+    limits[tier] = { ...DEFAULT_TIER_LIMITS[tier], ...overrides[tier] };
+  }
+  return limits;
+}
+
+/**
+ * Derives a wallet's verification tier from its stored Self verification and
+ * enforces the tier's caps. Usage is counted for the person, across every
+ * wallet linked to the same identity.
+ */
+export class TierService {
+  constructor(
+    private limits: Record<VerificationTier, TierLimits> = loadTierLimits(),
+    private statuses: VerificationStatusService = new VerificationStatusService(),
+    private identities: IdentityService = new IdentityService(),
+    private prices: PriceService = new PriceService()
+  ) {}
+
+  static tierOf(status: VerificationStatus): VerificationTier {
+    if (status.status !== "verified") {
+      return "unverified";
+    }
+    return status.verification?.nationality ? "self_verified_nationality" : "self_verified";
+  }
+
+  async getTier(walletAddress: string): Promise<VerificationTier> {
+    return TierService.tierOf(await this.statuses.getStatus(walletAddress));
+  }
+
+  /**
+   * What the wallet's person may still do under their tier. exclude leaves an
+   * allocation out of the usage, so replaying it is not counted twice.
+   */
+  async getHeadroom(
+    walletAddress: string,
+    exclude?: { txHash: string; providerTxCode: string }
+  ): Promise<TierHeadroom> {
+    const [tier, wallets] = await Promise.all([
+      this.getTier(walletAddress),
+      this.identities.getLinkedWallets(walletAddress),
+    ]);
+    const limits = this.limits[tier];
+    const [allocatedUSD, goalsCreated] = await Promise.all([
+      this.getAllocatedUSD(wallets, exclude),
+      this.countGoals(wallets),
+    ]);
+
+    return {
+      tier,
+      limits,
+      allocationUSDRemaining: Math.max(0, limits.dailyAllocationUSD - allocatedUSD),
+      goalsRemaining: Math.max(0, limits.maxGoals - goalsCreated),
+    };
+  }
+
+  /**
+   * Throws TierLimitError when the allocation would exceed the daily cap.
+   * Returns the headroom left once it is made.
+   */
+  async assertAllocation(
+    walletAddress: string,
+    allocation: { asset: VaultAsset; amount: string; txHash: string; providerTxCode: string }
+  ): Promise<TierHeadroom> {
+    const [headroom, amountUSD] = await Promise.all([
+      this.getHeadroom(walletAddress, allocation),
+      this.prices.toUSD(allocation.asset, allocation.amount),
+    ]);
+    if (amountUSD > headroom.allocationUSDRemaining) {
+      throw new TierLimitError(
+        "dailyAllocationUSD",
+        headroom,
+        `Allocation of $${amountUSD.toFixed(2)} exceeds the remaining daily limit of $${headroom.allocationUSDRemaining.toFixed(2)} for the ${headroom.tier} tier`
+      );
+    }
+    return { ...headroom, allocationUSDRemaining: headroom.allocationUSDRemaining - amountUSD };
+  }
+
+  /**
+   * Throws TierLimitError when the wallet's person has created as many goals
+   * as their tier allows. Returns the headroom left once the goal is created.
+   */
+  async assertGoalCreation(walletAddress: string): Promise<TierHeadroom> {
+    const headroom = await this.getHeadroom(walletAddress);
+    if (headroom.goalsRemaining < 1) {
+      throw new TierLimitError(
+        "maxGoals",
+        headroom,
+        `The ${headroom.tier} tier allows ${headroom.limits.maxGoals} goals`
+      );
+    }
+    return { ...headroom, goalsRemaining: headroom.goalsRemaining - 1 };
+  }
+
+  // Onramp allocations of the last 24 hours; rejected ones never reached the vault
+  private async getAllocatedUSD(
+    wallets: string[],
+    exclude?: { txHash: string; providerTxCode: string }
+  ): Promise<number> {
+    const collection = await getAllocationsCollection();
+    const allocations = await collection
+      .find(
+        {
+          userAddress: { $in: wallets },
+          createdAt: { $gte: new Date(Date.now() - DAY_MS).toISOString() },
+          status: { $ne: "rejected" },
+        },
+        { projection: { _id: 0, asset: 1, amount: 1, verifiedAmount: 1, txHash: 1, providerTxCode: 1 } }
+      )
+      .toArray();
+
+    const totals = new Map<VaultAsset, bigint>();
+    allocations
+      .filter(
+        (allocation) =>
+          !exclude ||
+          allocation.txHash !== exclude.txHash.toLowerCase() ||
+          allocation.providerTxCode !== exclude.providerTxCode
+      )
+      .forEach((allocation) => {
+        const amount = BigInt(allocation.verifiedAmount ?? allocation.amount);
+        totals.set(allocation.asset, (totals.get(allocation.asset) ?? BigInt(0)) + amount);
+      });
+
+    const values = await Promise.all(
+      Array.from(totals).map(([asset, amount]) => this.prices.toUSD(asset, amount))
+    );
+    return values.reduce((sum, value) => sum + value, 0);
+  }
+
+  private async countGoals(wallets: string[]): Promise<number> {
+    const collection = await getMetaGoalsCollection();
+    return collection.countDocuments({ creatorAddress: { $in: wallets }, name: { $ne: "quicksave" } });
+  }
+}
@@ -0,0 +1,631 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { createProvider, createBackendWallet } from "../utils";
+import {
+  getBackendTransactionsCollection,
+  getNonceCountersCollection,
+} from "../database";
+import { logger } from "../logger";
+import type { BackendTransaction } from "../types";
+import type { Collection } from "mongodb";
+
+const POLL_INTERVAL_MS = 3000;
+const DEFAULT_TIMEOUT_MS = 3 * 60 * 1000;
+// A pending transaction is re-priced when it has not been mined this long after its last broadcast
+const STUCK_AFTER_MS = 45 * 1000;
+const MAX_GAS_BUMPS = 5;
+// Replacement transactions must pay at least 10% more; bump by 12.5% to be safe
+const GAS_BUMP_NUMERATOR = BigInt(1125);
+const GAS_BUMP_DENOMINATOR = BigInt(1000);
+const GAS_LIMIT_BUFFER_PERCENT = BigInt(120);
+
+export type TransactionSubmitErrorCode =
+  | "REVERTED"
+  | "REPLACED"
+  | "TIMEOUT"
+  | "BROADCAST_FAILED";
+
+export class TransactionSubmitError extends Error {
+  constructor(
+    message: string,
+    public code: TransactionSubmitErrorCode,
+    public hash?: string,
+    public receipt?: ethers.TransactionReceipt
+  ) {
+    super(message);
+    this.name = "TransactionSubmitError";
+  }
+}
+
+export interface TransactionResult {
+  txId: string | null; // null for transactions not sent through the submitter
+  hash: string; // hash that was mined, which differs from the first broadcast after a gas bump
+  nonce: number;
+  receipt: ethers.TransactionReceipt;
+  bumps: number;
+}
+
+export interface SubmitOptions {
+  label?: string;
+  reference?: string;
+  // Called once the transaction is persisted and broadcast, before waiting for it
+  onSubmitted?: (hash: string) => Promise<void> | void;
+  timeoutMs?: number;
+}
+
+type FeeFields = Pick<BackendTransaction, "maxFeePerGas" | "maxPriorityFeePerGas" | "gasPrice">;
+
+/**
+ * Single path for every transaction signed by the backend wallet. Nonces are
+ * assigned from a Mongo counter shared by all processes, each transaction is
+ * persisted before it is broadcast, stuck or dropped transactions are
+ * re-priced, and nonces consumed by a foreign transaction are reported as
+ * replaced.
+ */
+export class TransactionSubmitter {
+  private collection: Collection<BackendTransaction> | null = null;
+
+  constructor(
+    private provider: ethers.JsonRpcProvider = createProvider(),
+    private wallet: ethers.Wallet = createBackendWallet(provider)
+  ) {}
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getBackendTransactionsCollection();
+    }
+    return this.collection;
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  /**
+   * Submit a contract call and wait until it is mined. Throws
+   * TransactionSubmitError if it reverts, is replaced or times out.
+   */
+  async send(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[],
+    options: SubmitOptions = {}
+  ): Promise<TransactionResult> {
+    const transaction = await this.submit(contract, method, args, options);
+    return this.wait(transaction.txId, options.timeoutMs);
+  }
+
+  /**
+   * Estimate a contract call as sent from the backend wallet. Going through the
+   * contract keeps revert reasons decoded against its ABI.
+   */
+  async estimateGas(contract: ethers.Contract, method: string, args: unknown[]): Promise<bigint> {
+    return contract.getFunction(method).estimateGas(...args, { from: this.wallet.address });
+  }
+
+  /**
+   * Highest price per gas a transaction sent now would pay.
+   */
+  async getMaxGasPrice(): Promise<bigint> {
+    const fees = await this.currentFees();
+    return BigInt(fees.maxFeePerGas ?? fees.gasPrice ?? "0");
+  }
+
+  /**
+   * Persist and broadcast a contract call without waiting for it.
+   */
+  async submit(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[],
+    options: SubmitOptions = {}
+  ): Promise<BackendTransaction> {
+    const collection = await this.getCollection();
+    const from = this.wallet.address.toLowerCase();
+    const to = (await contract.getAddress()).toLowerCase();
+    const data = contract.interface.encodeFunctionData(method, args);
+
+    // Estimate before reserving a nonce so a reverting call never leaves a nonce gap
+    const estimate = await this.estimateGas(contract, method, args);
+    const gasLimit = (estimate * GAS_LIMIT_BUFFER_PERCENT) / BigInt(100);
+    const fees = await this.currentFees();
+    const nonce = await this.reserveNonce();
+
+    // Nothing is broadcast before the transaction is stored, so any failure until then gives the nonce back
+    let signed: { hash: string; serialized: string };
+    let transaction: BackendTransaction;
+    try {
+      signed = await this.sign({ to, data, nonce, gasLimit: gasLimit.toString(), ...fees });
+      const now = new Date().toISOString();
+      transaction = {
+        txId: uuidv4(),
+        from,
+        nonce,
+        to,
+        data,
+        label: options.label || method,
+        ...(options.reference ? { reference: options.reference } : {}),
+        gasLimit: gasLimit.toString(),
+        ...fees,
+        hashes: [signed.hash],
+        currentHash: signed.hash,
+        bumps: 0,
+        status: "pending",
+        lastBroadcastAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await collection.insertOne({ ...transaction });
+    } catch (error) {
+      await this.releaseNonce(nonce).catch((releaseError) =>
+        logger.error("❌ Failed to release nonce", {
+          nonce,
+          error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+        })
+      );
+      throw error;
+    }
+
+    try {
+      await this.broadcast(signed.serialized);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // A timeout or server error may still have reached the mempool: the record stays
+      // pending with its hash, and wait() or reconcilePending() re-broadcast it when stuck
+      if (await this.mayHaveBroadcast(signed.hash, nonce, error)) {
+        logger.warn("⚠️ Backend transaction broadcast unclear, keeping it pending", {
+          txId: transaction.txId,
+          label: transaction.label,
+          hash: signed.hash,
+          nonce,
+          error: message,
+        });
+      } else {
+        await collection.updateOne(
+          { txId: transaction.txId },
+          { $set: { status: "failed", error: message, updatedAt: new Date().toISOString() } }
+        );
+        await this.releaseNonce(nonce).catch((releaseError) =>
+          logger.error("❌ Failed to release nonce", {
+            nonce,
+            error: releaseError instanceof Error ? releaseError.message : String(releaseError),
+          })
+        );
+        throw new TransactionSubmitError(
+          `Failed to broadcast ${transaction.label}: ${message}`,
+          "BROADCAST_FAILED",
+          signed.hash
+        );
+      }
+    }
+
+    logger.info("📤 Backend transaction submitted", {
+      txId: transaction.txId,
+      label: transaction.label,
+      hash: signed.hash,
+      nonce,
+    });
+
+    if (options.onSubmitted) {
+      await options.onSubmitted(signed.hash);
+    }
+    return transaction;
+  }
+
+  /**
+   * Wait for a submitted transaction, re-pricing it while it is stuck.
+   */
+  async wait(txId: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<TransactionResult> {
+    const collection = await this.getCollection();
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      const transaction = await collection.findOne({ txId });
+      if (!transaction) {
+        throw new Error(`Unknown backend transaction ${txId}`);
+      }
+
+      const result = await this.poll(transaction);
+      if (result) {
+        return result;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new TransactionSubmitError(
+          `${transaction.label} transaction ${transaction.currentHash} is still pending`,
+          "TIMEOUT",
+          transaction.currentHash
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Wait for a transaction by any hash it was broadcast under. Returns null if
+   * it reverted or was replaced, so the caller can submit it again. Hashes not
+   * sent through the submitter are looked up directly on chain.
+   */
+  async resume(hash: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<TransactionResult | null> {
+    const collection = await this.getCollection();
+    const transaction = await collection.findOne({ hashes: hash });
+
+    if (!transaction) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (!receipt) {
+        const pending = await this.provider.getTransaction(hash);
+        if (pending) {
+          throw new TransactionSubmitError(`Transaction ${hash} is still pending`, "TIMEOUT", hash);
+        }
+        return null;
+      }
+      if (receipt.status !== 1) {
+        return null;
+      }
+      const tx = await receipt.getTransaction();
+      return { txId: null, hash, nonce: tx.nonce, receipt, bumps: 0 };
+    }
+
+    try {
+      return await this.wait(transaction.txId, timeoutMs);
+    } catch (error) {
+      if (
+        error instanceof TransactionSubmitError &&
+        (error.code === "REVERTED" || error.code === "REPLACED")
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Single pass over pending transactions whose callers are gone (e.g. the
+   * process restarted): record outcomes and re-price stuck ones.
+   */
+  async reconcilePending(limit = 50): Promise<number> {
+    const collection = await this.getCollection();
+    const stale = await collection
+      .find({
+        from: this.wallet.address.toLowerCase(),
+        status: "pending",
+        lastBroadcastAt: { $lt: new Date(Date.now() - STUCK_AFTER_MS).toISOString() },
+      })
+      .sort({ nonce: 1 })
+      .limit(limit)
+      .toArray();
+
+    for (const transaction of stale) {
+      try {
+        await this.poll(transaction);
+      } catch (error) {
+        logger.warn("Backend transaction did not confirm", {
+          txId: transaction.txId,
+          label: transaction.label,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return stale.length;
+  }
+
+  /**
+   * Check a transaction once. Returns the result when mined, null while still
+   * pending, and throws when it reverted or its nonce was taken by another tx.
+   */
+  private async poll(transaction: BackendTransaction): Promise<TransactionResult | null> {
+    if (transaction.status === "confirmed" || transaction.status === "reverted") {
+      const receipt = await this.provider.getTransactionReceipt(transaction.minedHash!);
+      if (receipt) {
+        return this.toResult(transaction, receipt);
+      }
+    }
+    if (transaction.status === "replaced" || transaction.status === "failed") {
+      throw new TransactionSubmitError(
+        transaction.error || `${transaction.label} transaction was ${transaction.status}`,
+        transaction.status === "replaced" ? "REPLACED" : "BROADCAST_FAILED",
+        transaction.currentHash
+      );
+    }
+
+    const receipt = await this.findReceipt(transaction);
+    if (receipt) {
+      return this.toResult(transaction, receipt);
+    }
+
+    const minedNonce = await this.provider.getTransactionCount(transaction.from, "latest");
+    if (minedNonce > transaction.nonce) {
+      // The nonce may have been mined by one of our hashes since the first check
+      const lateReceipt = await this.findReceipt(transaction);
+      if (lateReceipt) {
+        return this.toResult(transaction, lateReceipt);
+      }
+      const error = `Nonce ${transaction.nonce} was used by a transaction the submitter did not send`;
+      await this.markFinished(transaction, { status: "replaced", error });
+      logger.error("❌ Backend transaction replaced", {
+        txId: transaction.txId,
+        label: transaction.label,
+        nonce: transaction.nonce,
+      });
+      throw new TransactionSubmitError(error, "REPLACED", transaction.currentHash);
+    }
+
+    const sinceBroadcast = Date.now() - new Date(transaction.lastBroadcastAt).getTime();
+    if (sinceBroadcast >= STUCK_AFTER_MS) {
+      const inMempool = await this.provider.getTransaction(transaction.currentHash);
+      if (!inMempool) {
+        logger.warn("⚠️ Backend transaction dropped from mempool, rebroadcasting", {
+          txId: transaction.txId,
+          hash: transaction.currentHash,
+        });
+      }
+      if (transaction.bumps < MAX_GAS_BUMPS) {
+        await this.bump(transaction);
+      } else if (!inMempool) {
+        // Out of bumps: resend at the last price so the nonce does not stay empty
+        await this.bump(transaction, false);
+      }
+    }
+    return null;
+  }
+
+  private async findReceipt(
+    transaction: BackendTransaction
+  ): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of [...transaction.hashes].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        await this.markFinished(transaction, {
+          status: receipt.status === 1 ? "confirmed" : "reverted",
+          minedHash: hash,
+          blockNumber: receipt.blockNumber,
+        });
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private toResult(
+    transaction: BackendTransaction,
+    receipt: ethers.TransactionReceipt
+  ): TransactionResult {
+    if (receipt.status !== 1) {
+      throw new TransactionSubmitError(
+        `${transaction.label} transaction ${receipt.hash} reverted`,
+        "REVERTED",
+        receipt.hash,
+        receipt
+      );
+    }
+    return {
+      txId: transaction.txId,
+      hash: receipt.hash,
+      nonce: transaction.nonce,
+      receipt,
+      bumps: transaction.bumps,
+    };
+  }
+
+  /**
+   * Re-sign the same nonce with higher fees (or the same fees when reprice is
+   * false) and broadcast it as a replacement.
+   */
+  private async bump(transaction: BackendTransaction, reprice = true): Promise<void> {
+    const collection = await this.getCollection();
+    const fees = reprice ? await this.bumpedFees(transaction) : this.storedFees(transaction);
+    const signed = await this.sign({
+      to: transaction.to,
+      data: transaction.data,
+      nonce: transaction.nonce,
+      gasLimit: transaction.gasLimit,
+      ...fees,
+    });
+
+    // Only one process may replace a given broadcast
+    const now = new Date().toISOString();
+    const claimed = await collection.updateOne(
+      { txId: transaction.txId, status: "pending", currentHash: transaction.currentHash },
+      {
+        $set: { ...fees, currentHash: signed.hash, lastBroadcastAt: now, updatedAt: now },
+        $addToSet: { hashes: signed.hash },
+        $inc: { bumps: reprice ? 1 : 0 },
+      }
+    );
+    if (claimed.modifiedCount === 0) {
+      return;
+    }
+
+    try {
+      await this.broadcast(signed.serialized);
+      logger.info("⛽ Backend transaction re-priced", {
+        txId: transaction.txId,
+        label: transaction.label,
+        previousHash: transaction.currentHash,
+        hash: signed.hash,
+        ...fees,
+      });
+    } catch (error) {
+      // The previous broadcast may just have been mined; the next poll will tell
+      logger.warn("Failed to broadcast replacement transaction", {
+        txId: transaction.txId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async markFinished(
+    transaction: BackendTransaction,
+    fields: Pick<BackendTransaction, "status"> &
+      Partial<Pick<BackendTransaction, "minedHash" | "blockNumber" | "error">>
+  ): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { txId: transaction.txId },
+      { $set: { ...fields, updatedAt: new Date().toISOString() } }
+    );
+  }
+
+  private async reserveNonce(): Promise<number> {
+    const counters = await getNonceCountersCollection();
+    const address = this.wallet.address.toLowerCase();
+    const now = new Date().toISOString();
+
+    // Catch up with transactions sent outside the submitter
+    const chainNonce = await this.provider.getTransactionCount(address, "pending");
+    await counters.updateOne(
+      { address },
+      { $max: { nextNonce: chainNonce }, $set: { updatedAt: now } },
+      { upsert: true }
+    );
+
+    const counter = await counters.findOneAndUpdate(
+      { address },
+      { $inc: { nextNonce: 1 }, $set: { updatedAt: now } },
+      { returnDocument: "before" }
+    );
+    if (!counter) {
+      throw new Error(`Failed to reserve nonce for ${address}`);
+    }
+    return counter.nextNonce;
+  }
+
+  /**
+   * Give back a nonce that never reached the mempool. If later nonces were
+   * already handed out, fill the gap with a no-op self transfer instead so
+   * they are not blocked behind it.
+   */
+  private async releaseNonce(nonce: number): Promise<void> {
+    const counters = await getNonceCountersCollection();
+    const address = this.wallet.address.toLowerCase();
+    const released = await counters.updateOne(
+      { address, nextNonce: nonce + 1 },
+      { $set: { nextNonce: nonce, updatedAt: new Date().toISOString() } }
+    );
+    if (released.modifiedCount > 0) {
+      return;
+    }
+
+    const chainNonce = await this.provider.getTransactionCount(address, "pending");
+    if (chainNonce > nonce) {
+      return;
+    }
+
+    try {
+      const fees = await this.currentFees();
+      const signed = await this.sign({
+        to: address,
+        data: "0x",
+        nonce,
+        gasLimit: "21000",
+        ...fees,
+      });
+      await this.broadcast(signed.serialized);
+      logger.warn("⚠️ Filled nonce gap with a no-op transaction", { nonce, hash: signed.hash });
+    } catch (error) {
+      logger.error("❌ Failed to fill nonce gap", {
+        nonce,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async currentFees(): Promise<FeeFields> {
+    const feeData = await this.provider.getFeeData();
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: feeData.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas.toString(),
+      };
+    }
+    if (feeData.gasPrice === null) {
+      throw new Error("RPC did not return fee data");
+    }
+    return { gasPrice: feeData.gasPrice.toString() };
+  }
+
+  private storedFees(transaction: BackendTransaction): FeeFields {
+    return transaction.gasPrice
+      ? { gasPrice: transaction.gasPrice }
+      : {
+          maxFeePerGas: transaction.maxFeePerGas,
+          maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+        };
+  }
+
+  private async bumpedFees(transaction: BackendTransaction): Promise<FeeFields> {
+    const current = await this.currentFees();
+    const bump = (previous?: string, market?: string): string => {
+      const raised = (BigInt(previous || "0") * GAS_BUMP_NUMERATOR) / GAS_BUMP_DENOMINATOR + BigInt(1);
+      const latest = BigInt(market || "0");
+      return (raised > latest ? raised : latest).toString();
+    };
+
+    if (transaction.gasPrice) {
+      return { gasPrice: bump(transaction.gasPrice, current.gasPrice ?? current.maxFeePerGas) };
+    }
+    return {
+      maxFeePerGas: bump(transaction.maxFeePerGas, current.maxFeePerGas ?? current.gasPrice),
+      maxPriorityFeePerGas: bump(
+        transaction.maxPriorityFeePerGas,
+        current.maxPriorityFeePerGas ?? current.gasPrice
+      ),
+    };
+  }
+
+  private async sign(
+    fields: { to: string; data: string; nonce: number; gasLimit: string } & FeeFields
+  ): Promise<{ hash: string; serialized: string }> {
+    const populated = await this.wallet.populateTransaction({
+      to: fields.to,
+      data: fields.data,
+      nonce: fields.nonce,
+      gasLimit: BigInt(fields.gasLimit),
+      ...(fields.gasPrice
+        ? { gasPrice: BigInt(fields.gasPrice) }
+        : {
+            maxFeePerGas: BigInt(fields.maxFeePerGas!),
+            maxPriorityFeePerGas: BigInt(fields.maxPriorityFeePerGas!),
+          }),
+    });
+    const serialized = await this.wallet.signTransaction(populated);
+    return { hash: ethers.keccak256(serialized), serialized };
+  }
+
+  /**
+   * Whether a transaction whose broadcast threw may still be mined: the node
+   * knows its hash or its nonce is taken, the error was a network or server
+   * failure rather than a rejection, or the chain cannot be asked.
+   */
+  private async mayHaveBroadcast(hash: string, nonce: number, error: unknown): Promise<boolean> {
+    try {
+      if (await this.provider.getTransaction(hash)) {
+        return true;
+      }
+      const pendingNonce = await this.provider.getTransactionCount(this.wallet.address, "pending");
+      if (pendingNonce > nonce) {
+        return true;
+      }
+    } catch {
+      return true;
+    }
+    return (
+      ethers.isError(error, "NETWORK_ERROR") ||
+      ethers.isError(error, "SERVER_ERROR") ||
+      ethers.isError(error, "TIMEOUT") ||
+      ethers.isError(error, "UNKNOWN_ERROR")
+    );
+  }
+
+  private async broadcast(serialized: string): Promise<void> {
+    try {
+      await this.provider.broadcastTransaction(serialized);
+    } catch (error) {
+      // A retried broadcast of the same signed transaction is fine
+      const message = error instanceof Error ? error.message : String(error);
+      if (!/already known|known transaction/i.test(message)) {
+        throw error;
+      }
+    }
+  }
+}
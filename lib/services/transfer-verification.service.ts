@@ -0,0 +1,185 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { VAULTS } from "../constants";
+import { getAllocationRejectionsCollection } from "../database";
+import type {
+  AllocationRecord,
+  AllocationRejection,
+  OnrampTransfer,
+  TransferRejectionCode,
+} from "../types";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+export interface TransferVerificationConfig {
+  providerWallets: string[]; // lowercased; empty disables the sender check outside production
+  toleranceBps: number;
+}
+
+export type TransferVerificationResult =
+  | { verified: true; transfer: OnrampTransfer }
+  | {
+      verified: false;
+      code: TransferRejectionCode;
+      reason: string;
+      transfers: OnrampTransfer[];
+    };
+
+export class TransferVerificationService {
+  constructor(
+    private config: TransferVerificationConfig = TransferVerificationService.configFromEnv()
+  ) {}
+
+  /**
+   * ONRAMP_PROVIDER_WALLETS: comma-separated hot wallet addresses of the onramp provider
+   * ONRAMP_AMOUNT_TOLERANCE_BPS: allowed difference between requested and transferred amount
+   */
+  static configFromEnv(): TransferVerificationConfig {
+    const providerWallets = (process.env.ONRAMP_PROVIDER_WALLETS || "")
+      .split(",")
+      .map((address) => address.trim().toLowerCase())
+      .filter((address) => ethers.isAddress(address));
+    const toleranceBps = Number.parseInt(process.env.ONRAMP_AMOUNT_TOLERANCE_BPS || "0", 10);
+
+    return {
+      providerWallets,
+      toleranceBps: Number.isFinite(toleranceBps) && toleranceBps > 0 ? toleranceBps : 0,
+    };
+  }
+
+  get toleranceBps(): number {
+    return this.config.toleranceBps;
+  }
+
+  get providerWallets(): string[] {
+    return this.config.providerWallets;
+  }
+
+  /**
+   * Decode every ERC-20 Transfer of the vault asset into the vault. Batched
+   * settlement receipts can contain several of them.
+   */
+  extractVaultTransfers(
+    logs: readonly ethers.Log[],
+    vaultConfig: (typeof VAULTS)[keyof typeof VAULTS]
+  ): OnrampTransfer[] {
+    return logs
+      .filter(
+        (log) =>
+          log.topics[0] === TRANSFER_TOPIC &&
+          log.topics.length === 3 &&
+          log.address.toLowerCase() === vaultConfig.asset.toLowerCase()
+      )
+      .map((log) => ({
+        logIndex: log.index,
+        from: ethers.getAddress("0x" + log.topics[1].slice(26)).toLowerCase(),
+        to: ethers.getAddress("0x" + log.topics[2].slice(26)).toLowerCase(),
+        value: BigInt(log.data).toString(),
+      }))
+      .filter((transfer) => transfer.to === vaultConfig.address.toLowerCase());
+  }
+
+  isWithinTolerance(requested: bigint, transferred: bigint): boolean {
+    const difference = requested > transferred ? requested - transferred : transferred - requested;
+    return difference * BigInt(10000) <= transferred * BigInt(this.config.toleranceBps);
+  }
+
+  /**
+   * Pick the vault transfer that funds this allocation: it must come from a
+   * provider wallet, match the requested amount within tolerance and not be
+   * claimed by another allocation of the same transaction. Throws in
+   * production when no provider wallets are configured, so the job fails and
+   * can be requeued once they are.
+   */
+  verify(params: {
+    logs: readonly ethers.Log[];
+    vaultConfig: (typeof VAULTS)[keyof typeof VAULTS];
+    requestedAmount: string;
+    claimedLogIndexes: number[];
+  }): TransferVerificationResult {
+    if (this.config.providerWallets.length === 0 && process.env.NODE_ENV === "production") {
+      throw new Error("ONRAMP_PROVIDER_WALLETS must be configured in production");
+    }
+    const transfers = this.extractVaultTransfers(params.logs, params.vaultConfig);
+    const requested = BigInt(params.requestedAmount);
+
+    if (transfers.length === 0) {
+      return {
+        verified: false,
+        code: "NO_VAULT_TRANSFER",
+        reason: "No transfer to vault found in transaction",
+        transfers,
+      };
+    }
+
+    const fromProvider =
+      this.config.providerWallets.length > 0
+        ? transfers.filter((transfer) => this.config.providerWallets.includes(transfer.from))
+        : transfers;
+    if (fromProvider.length === 0) {
+      return {
+        verified: false,
+        code: "SENDER_MISMATCH",
+        reason: `Vault transfer sender ${transfers.map((t) => t.from).join(", ")} is not an onramp provider wallet`,
+        transfers,
+      };
+    }
+
+    const matching = fromProvider
+      .filter((transfer) => this.isWithinTolerance(requested, BigInt(transfer.value)))
+      .sort((a, b) => {
+        const diffA = BigInt(a.value) > requested ? BigInt(a.value) - requested : requested - BigInt(a.value);
+        const diffB = BigInt(b.value) > requested ? BigInt(b.value) - requested : requested - BigInt(b.value);
+        return diffA === diffB ? a.logIndex - b.logIndex : diffA < diffB ? -1 : 1;
+      });
+    if (matching.length === 0) {
+      return {
+        verified: false,
+        code: "AMOUNT_MISMATCH",
+        reason: `Requested amount ${params.requestedAmount} does not match transferred amount ${fromProvider
+          .map((t) => t.value)
+          .join(", ")} (tolerance ${this.config.toleranceBps} bps)`,
+        transfers,
+      };
+    }
+
+    const unclaimed = matching.find(
+      (transfer) => !params.claimedLogIndexes.includes(transfer.logIndex)
+    );
+    if (!unclaimed) {
+      return {
+        verified: false,
+        code: "TRANSFER_ALREADY_CLAIMED",
+        reason: "Every matching vault transfer in this transaction is already claimed by another allocation",
+        transfers,
+      };
+    }
+
+    return { verified: true, transfer: unclaimed };
+  }
+
+  async recordRejection(
+    record: AllocationRecord,
+    result: Extract<TransferVerificationResult, { verified: false }>
+  ): Promise<AllocationRejection> {
+    const collection = await getAllocationRejectionsCollection();
+    const rejection: AllocationRejection = {
+      rejectionId: uuidv4(),
+      allocationId: record.allocationId,
+      txHash: record.txHash,
+      providerTxCode: record.providerTxCode,
+      userAddress: record.userAddress,
+      asset: record.asset,
+      code: result.code,
+      reason: result.reason,
+      requestedAmount: record.amount,
+      toleranceBps: this.config.toleranceBps,
+      expectedSenders: this.config.providerWallets,
+      transfers: result.transfers,
+      createdAt: new Date().toISOString(),
+    };
+
+    await collection.insertOne(rejection);
+    return rejection;
+  }
+}
@@ -0,0 +1,220 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { CONTRACTS } from "../constants";
+import { getSelfVerificationsCollection } from "../database";
+import { findLatestDisclosure, parseDocumentExpiry } from "../self";
+import { createProvider } from "../utils";
+import { logger } from "../logger";
+import { IdentityLimitError, IdentityService } from "./identity.service";
+import type { SelfVerification, VerificationStatus } from "../types";
+import type { Collection } from "mongodb";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A verification must be renewed this long after it was made, even if the document is still valid
+const REVERIFY_AFTER_DAYS = parseInt(process.env.SELF_REVERIFY_AFTER_DAYS || "365");
+// Users are asked to re-verify this long before their verification expires
+const REVERIFY_NOTICE_DAYS = parseInt(process.env.SELF_REVERIFY_NOTICE_DAYS || "30");
+// How long a wallet's hub lookup is not repeated, unless a refresh is asked for
+const BACKFILL_RETRY_MS = Number(process.env.SELF_BACKFILL_RETRY_MS) || 10 * 60 * 1000;
+
+// Shared by every VerificationStatusService in the process: wallet -> when the hub may be searched again
+const nextBackfillAt = new Map<string, number>();
+
+/**
+ * Derives a wallet's verification status from its stored SelfVerification
+ * records. When there is no valid record, the latest disclosure on the Self
+ * hub is looked up and stored, so verifications made without the callback
+ * reaching us are recovered on demand. A wallet's hub lookup runs at most
+ * once per SELF_BACKFILL_RETRY_MS.
+ */
+export class VerificationStatusService {
+  private collection: Collection<SelfVerification> | null = null;
+
+  constructor(
+    private provider: ethers.Provider = createProvider(),
+    private identities: IdentityService = new IdentityService()
+  ) {}
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getSelfVerificationsCollection();
+    }
+    return this.collection;
+  }
+
+  /**
+   * The wallet's status: the most recent unexpired verification wins, then the
+   * most recent expired one. Pass refresh to check the chain even when a
+   * valid record is stored or the wallet was looked up recently. A failed
+   * lookup leaves the stored status.
+   */
+  async getStatus(
+    walletAddress: string,
+    options: { attestationId?: string; refresh?: boolean } = {}
+  ): Promise<VerificationStatus> {
+    const wallet = walletAddress.toLowerCase();
+    const now = new Date();
+
+    let status = this.pickStatus(wallet, await this.findRecords(wallet, options.attestationId), now);
+    if (status.status !== "verified" || options.refresh) {
+      if (await this.tryBackfill(wallet, options.refresh)) {
+        status = this.pickStatus(wallet, await this.findRecords(wallet, options.attestationId), now);
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Store the wallet's latest hub disclosure as a SelfVerification, unless a
+   * record of the same attestation made at or after it is already stored.
+   * The wallet is linked to the person behind the disclosure first, as
+   * /api/verify does. Returns the stored record, null when the hub has none for
+   * the wallet or the person already has the maximum number of wallets.
+   */
+  async backfill(walletAddress: string): Promise<SelfVerification | null> {
+    const wallet = walletAddress.toLowerCase();
+    const disclosure = await findLatestDisclosure(this.provider, wallet);
+    if (!disclosure) {
+      return null;
+    }
+
+    const { verification, transactionHash, blockNumber } = disclosure;
+    try {
+      await this.identities.link(verification.nullifier, wallet);
+    } catch (error) {
+      if (!(error instanceof IdentityLimitError)) {
+        throw error;
+      }
+      logger.warn("Self hub disclosure not stored, the person has too many wallets", {
+        walletAddress: wallet,
+        error: error.message,
+      });
+      return null;
+    }
+
+    const [block, network] = await Promise.all([
+      this.provider.getBlock(blockNumber),
+      this.provider.getNetwork(),
+    ]);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    const collection = await this.getCollection();
+    const attestationId = BigInt(verification.attestationId).toString();
+    const verifiedAt = new Date(block.timestamp * 1000);
+    const now = new Date();
+
+    try {
+      const record = await collection.findOneAndUpdate(
+        { walletAddress: wallet, attestationId, verifiedAt: { $lt: verifiedAt } },
+        {
+          $set: {
+            userIdentifier: ethers.zeroPadValue(wallet, 32),
+            nullifier: verification.nullifier,
+            nationality: verification.nationality || undefined,
+            olderThan: verification.olderThan || undefined,
+            ofac: verification.ofac,
+            forbiddenCountriesListPacked: verification.forbiddenCountriesListPacked.map(String),
+            chainId: Number(network.chainId),
+            endpoint: CONTRACTS.SELF_VERIFICATION,
+            documentExpiresAt: parseDocumentExpiry(verification.expiryDate),
+            transactionHash,
+            blockNumber,
+            source: "chain_backfill",
+            verifiedAt,
+            updatedAt: now,
+          },
+          $setOnInsert: {
+            selfId: uuidv4(),
+            sessionId: uuidv4(),
+            createdAt: now,
+          },
+        },
+        { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+      );
+      if (record) {
+        return record;
+      }
+    } catch (error) {
+      // A record at least as recent exists, so the upsert collided with it
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+    return collection.findOne({ walletAddress: wallet, attestationId }, { projection: { _id: 0 } });
+  }
+
+  /**
+   * When a verification stops counting: the document expiry date or the
+   * re-verification deadline, whichever comes first.
+   */
+  describe(walletAddress: string, verification: SelfVerification | null, now = new Date()): VerificationStatus {
+    if (!verification) {
+      return {
+        walletAddress,
+        status: "unverified",
+        verification: null,
+        expiresAt: null,
+        reverifyBy: null,
+        reverificationDue: false,
+      };
+    }
+
+    const reverifyBy = new Date(new Date(verification.verifiedAt).getTime() + REVERIFY_AFTER_DAYS * DAY_MS);
+    const documentExpiresAt = verification.documentExpiresAt ? new Date(verification.documentExpiresAt) : null;
+    const expiresAt = documentExpiresAt && documentExpiresAt < reverifyBy ? documentExpiresAt : reverifyBy;
+    const expired = expiresAt.getTime() <= now.getTime();
+
+    return {
+      walletAddress,
+      status: expired ? "expired" : "verified",
+      verification,
+      expiresAt,
+      reverifyBy,
+      reverificationDue: expired || expiresAt.getTime() - now.getTime() <= REVERIFY_NOTICE_DAYS * DAY_MS,
+    };
+  }
+
+  private async tryBackfill(walletAddress: string, force = false): Promise<boolean> {
+    const now = Date.now();
+    if (!force && (nextBackfillAt.get(walletAddress) ?? 0) > now) {
+      return false;
+    }
+    Array.from(nextBackfillAt.entries())
+      .filter(([, retryAt]) => retryAt <= now)
+      .forEach(([wallet]) => nextBackfillAt.delete(wallet));
+    nextBackfillAt.set(walletAddress, now + BACKFILL_RETRY_MS);
+
+    try {
+      return (await this.backfill(walletAddress)) !== null;
+    } catch (error) {
+      logger.warn("Self hub backfill failed, serving stored verification status", {
+        walletAddress,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private pickStatus(walletAddress: string, records: SelfVerification[], now: Date): VerificationStatus {
+    const statuses = records.map((record) => this.describe(walletAddress, record, now));
+    return (
+      statuses.find((status) => status.status === "verified") ??
+      statuses[0] ??
+      this.describe(walletAddress, null, now)
+    );
+  }
+
+  // Newest first
+  private async findRecords(walletAddress: string, attestationId?: string): Promise<SelfVerification[]> {
+    const collection = await this.getCollection();
+    return collection
+      .find(
+        { walletAddress, ...(attestationId ? { attestationId } : {}) },
+        { sort: { verifiedAt: -1 }, projection: { _id: 0 } }
+      )
+      .toArray();
+  }
+}
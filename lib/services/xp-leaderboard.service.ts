@@ -0,0 +1,254 @@
+import {
+  getUserXPCollection,
+  getXPLedgerCollection,
+  getXPSeasonSnapshotsCollection,
+  getXPSeasonStandingsCollection,
+} from "../database";
+import { activeXPSeason, loadXPSeasons } from "../xp";
+import { IdentityService } from "./identity.service";
+import type {
+  XPLeaderboardPeriod,
+  XPLeaderboardResponse,
+  XPLeaderboardWindow,
+  XPRankResponse,
+  XPSeason,
+  XPSeasonSnapshot,
+  XPSeasonStanding,
+  XPSeasonSummary,
+} from "../types";
+import type { Document } from "mongodb";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_BATCH_SIZE = 1000;
+
+export const XP_LEADERBOARD_PERIODS: XPLeaderboardPeriod[] = ["all_time", "weekly", "monthly", "season"];
+
+export class XPLeaderboardQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XPLeaderboardQueryError";
+  }
+}
+
+interface Standing {
+  userAddress: string;
+  xp: number;
+}
+
+// Every ranked wallet of a window with its XP, as an aggregation to build on
+interface Standings {
+  source: "live" | "snapshot";
+  aggregate<T extends Document>(stages: Document[]): Promise<T[]>;
+}
+
+const RANK_ORDER = { $sort: { xp: -1, userAddress: 1 } };
+
+/**
+ * XP leaderboards over all time, a calendar week or month (UTC, weeks start on
+ * Monday) or a season from XP_SEASONS. Windowed XP is the sum of the ledger
+ * entries that occurred in the window; a reversal for a detached deposit
+ * counts in the window of the detach. Closed seasons are read from their
+ * snapshot once one is taken. Secondary wallets of a person are not ranked.
+ */
+export class XPLeaderboardService {
+  constructor(
+    private seasons: XPSeason[] = loadXPSeasons(),
+    private identities: IdentityService = new IdentityService()
+  ) {}
+
+  /**
+   * The window a period covers at a moment. A season period without seasonId
+   * is the season running at that moment.
+   */
+  resolveWindow(period: XPLeaderboardPeriod, options: { seasonId?: string; at?: Date } = {}): XPLeaderboardWindow {
+    const at = options.at ?? new Date();
+    if (period === "all_time") {
+      return { period, startsAt: null, endsAt: null };
+    }
+    if (period === "weekly") {
+      const daysSinceMonday = (at.getUTCDay() + 6) % 7;
+      const start = Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() - daysSinceMonday);
+      return { period, startsAt: new Date(start).toISOString(), endsAt: new Date(start + 7 * DAY_MS).toISOString() };
+    }
+    if (period === "monthly") {
+      return {
+        period,
+        startsAt: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1)).toISOString(),
+        endsAt: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1)).toISOString(),
+      };
+    }
+
+    const season = options.seasonId ? this.getSeason(options.seasonId) : activeXPSeason(this.seasons, at);
+    if (!season) {
+      throw new XPLeaderboardQueryError("No XP season is running; pass seasonId");
+    }
+    return { period, seasonId: season.id, startsAt: season.startsAt, endsAt: season.endsAt };
+  }
+
+  async getRange(window: XPLeaderboardWindow, start: number, limit: number): Promise<XPLeaderboardResponse> {
+    const standings = await this.getStandings(window);
+    const [result] = await standings.aggregate<{ total: Array<{ count: number }>; data: Standing[] }>([
+      RANK_ORDER,
+      { $facet: { total: [{ $count: "count" }], data: [{ $skip: start }, { $limit: limit }] } },
+    ]);
+
+    return {
+      window,
+      source: standings.source,
+      total: result?.total[0]?.count ?? 0,
+      start,
+      limit,
+      data: (result?.data ?? []).map((standing, index) => ({ ...standing, rank: start + index + 1 })),
+    };
+  }
+
+  /**
+   * A wallet's rank in the window with up to `neighbours` ranked wallets on
+   * each side of it. Wallets with equal XP are ordered by address, as in
+   * getRange.
+   */
+  async getRank(window: XPLeaderboardWindow, userAddress: string, neighbours: number): Promise<XPRankResponse> {
+    const user = userAddress.toLowerCase();
+    const standings = await this.getStandings(window);
+    const [own] = await standings.aggregate<Standing>([{ $match: { userAddress: user } }]);
+    const [total] = await standings.aggregate<{ count: number }>([{ $count: "count" }]);
+
+    const response: XPRankResponse = {
+      window,
+      source: standings.source,
+      userAddress: user,
+      xp: own?.xp ?? 0,
+      rank: null,
+      total: total?.count ?? 0,
+      neighbours: [],
+    };
+    if (!own) {
+      return response;
+    }
+
+    const [ahead] = await standings.aggregate<{ count: number }>([
+      { $match: { $or: [{ xp: { $gt: own.xp } }, { xp: own.xp, userAddress: { $lt: user } }] } },
+      { $count: "count" },
+    ]);
+    const position = ahead?.count ?? 0;
+    const from = Math.max(0, position - neighbours);
+    const page = await this.getRange(window, from, position - from + neighbours + 1);
+    return { ...response, rank: position + 1, neighbours: page.data };
+  }
+
+  async listSeasons(now: Date = new Date()): Promise<XPSeasonSummary[]> {
+    const moment = now.toISOString();
+    const snapshots = await (await getXPSeasonSnapshotsCollection())
+      .find({ seasonId: { $in: this.seasons.map((season) => season.id) } }, { projection: { _id: 0 } })
+      .toArray();
+
+    return this.seasons.map((season) => ({
+      ...season,
+      status: moment < season.startsAt ? "upcoming" : moment < season.endsAt ? "active" : "ended",
+      snapshot: snapshots.find((snapshot) => snapshot.seasonId === season.id) ?? null,
+    }));
+  }
+
+  /**
+   * Freeze the standings of an ended season. An existing snapshot is kept
+   * unless force is set, in which case it is taken again from the ledger.
+   */
+  async snapshotSeason(seasonId: string, options: { force?: boolean } = {}): Promise<XPSeasonSnapshot> {
+    const season = this.getSeason(seasonId);
+    if (season.endsAt > new Date().toISOString()) {
+      throw new XPLeaderboardQueryError(`XP season ${seasonId} has not ended`);
+    }
+
+    const snapshots = await getXPSeasonSnapshotsCollection();
+    const existing = await snapshots.findOne({ seasonId }, { projection: { _id: 0 } });
+    if (existing && !options.force) {
+      return existing;
+    }
+
+    const window = this.resolveWindow("season", { seasonId });
+    const live = await this.getLiveStandings(window);
+    const ranked = await live.aggregate<Standing>([RANK_ORDER]);
+
+    // The snapshot record is written last, so a partial snapshot is never read
+    await snapshots.deleteOne({ seasonId });
+    const standings = await getXPSeasonStandingsCollection();
+    await standings.deleteMany({ seasonId });
+    for (let offset = 0; offset < ranked.length; offset += SNAPSHOT_BATCH_SIZE) {
+      const batch: XPSeasonStanding[] = ranked
+        .slice(offset, offset + SNAPSHOT_BATCH_SIZE)
+        .map((standing, index) => ({ seasonId, rank: offset + index + 1, ...standing }));
+      await standings.insertMany(batch);
+    }
+
+    const snapshot: XPSeasonSnapshot = {
+      seasonId,
+      name: season.name,
+      startsAt: season.startsAt,
+      endsAt: season.endsAt,
+      totalUsers: ranked.length,
+      takenAt: new Date().toISOString(),
+    };
+    await snapshots.insertOne({ ...snapshot });
+    return snapshot;
+  }
+
+  private getSeason(seasonId: string): XPSeason {
+    const season = this.seasons.find((candidate) => candidate.id === seasonId);
+    if (!season) {
+      throw new XPLeaderboardQueryError(`Unknown XP season: ${seasonId}`);
+    }
+    return season;
+  }
+
+  private async getStandings(window: XPLeaderboardWindow): Promise<Standings> {
+    if (window.period === "season" && window.seasonId) {
+      const seasonId = window.seasonId;
+      if (await (await getXPSeasonSnapshotsCollection()).findOne({ seasonId })) {
+        const collection = await getXPSeasonStandingsCollection();
+        return {
+          source: "snapshot",
+          aggregate: <T extends Document>(stages: Document[]) =>
+            collection
+              .aggregate<T>([{ $match: { seasonId } }, { $project: { _id: 0, userAddress: 1, xp: 1 } }, ...stages])
+              .toArray(),
+        };
+      }
+    }
+    return this.getLiveStandings(window);
+  }
+
+  private async getLiveStandings(window: XPLeaderboardWindow): Promise<Standings> {
+    const secondary = Array.from(await this.identities.getSecondaryWallets());
+
+    if (!window.startsAt || !window.endsAt) {
+      const collection = await getUserXPCollection();
+      return {
+        source: "live",
+        aggregate: <T extends Document>(stages: Document[]) =>
+          collection
+            .aggregate<T>([
+              { $match: { userAddress: { $nin: secondary }, totalXP: { $gt: 0 } } },
+              { $project: { _id: 0, userAddress: 1, xp: "$totalXP" } },
+              ...stages,
+            ])
+            .toArray(),
+      };
+    }
+
+    const collection = await getXPLedgerCollection();
+    const range = { $gte: window.startsAt, $lt: window.endsAt };
+    return {
+      source: "live",
+      aggregate: <T extends Document>(stages: Document[]) =>
+        collection
+          .aggregate<T>([
+            { $match: { occurredAt: range, userAddress: { $nin: secondary } } },
+            { $group: { _id: "$userAddress", xp: { $sum: "$delta" } } },
+            { $project: { _id: 0, userAddress: "$_id", xp: { $round: ["$xp", 2] } } },
+            { $match: { xp: { $gt: 0 } } },
+            ...stages,
+          ])
+          .toArray(),
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { v4 as uuidv4 } from "uuid";
+import { getUserXPCollection, getXPLedgerCollection } from "../database";
+import type { XPLedgerEntry, XPReconciliation } from "../types";
+import type { Collection, Filter } from "mongodb";
+
+type NewLedgerEntry = Omit<XPLedgerEntry, "entryId" | "createdAt">;
+
+// Position in a user's history; a cursor returns what comes strictly before it
+interface LedgerCursor {
+  createdAt: string;
+  entryId: string;
+}
+
+export class XPLedgerQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XPLedgerQueryError";
+  }
+}
+
+function roundXP(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Append-only XP ledger. Every grant and reversal is an entry with a unique
+ * idempotency key, so retried awards are recorded once. A user's balance is
+ * the sum of their entries; UserXP.totalXP caches it for sorting and
+ * reconcile() checks the two agree.
+ */
+export class XPLedgerService {
+  private collection: Collection<XPLedgerEntry> | null = null;
+
+  private async getCollection() {
+    if (!this.collection) {
+      this.collection = await getXPLedgerCollection();
+    }
+    return this.collection;
+  }
+
+  static encodeCursor(cursor: LedgerCursor): string {
+    return Buffer.from(JSON.stringify([cursor.createdAt, cursor.entryId])).toString("base64url");
+  }
+
+  static decodeCursor(cursor: string): LedgerCursor {
+    try {
+      const [createdAt, entryId] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      if (typeof createdAt === "string" && typeof entryId === "string") {
+        return { createdAt, entryId };
+      }
+    } catch {
+      // fall through
+    }
+    throw new XPLedgerQueryError("Invalid cursor");
+  }
+
+  /**
+   * Append an entry and add its delta to the cached balance. Returns null when
+   * an entry with the same idempotency key exists. Pass applyToBalance false
+   * when the balance already includes it (moving legacy grants in).
+   */
+  async append(
+    entry: NewLedgerEntry,
+    options: { applyToBalance?: boolean } = {}
+  ): Promise<XPLedgerEntry | null> {
+    const collection = await this.getCollection();
+    const record: XPLedgerEntry = {
+      ...entry,
+      delta: roundXP(entry.delta),
+      entryId: uuidv4(),
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await collection.insertOne({ ...record });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (options.applyToBalance !== false) {
+      await (await getUserXPCollection()).updateOne(
+        { userAddress: record.userAddress },
+        { $inc: { totalXP: record.delta }, $set: { updatedAt: record.createdAt } },
+        { upsert: true }
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Net XP of the entries matching a filter, e.g. everything recorded for one
+   * XP event.
+   */
+  async sum(filter: Filter<XPLedgerEntry>): Promise<number> {
+    const collection = await this.getCollection();
+    const [result] = await collection
+      .aggregate<{ total: number }>([{ $match: filter }, { $group: { _id: null, total: { $sum: "$delta" } } }])
+      .toArray();
+    return roundXP(result?.total ?? 0);
+  }
+
+  async getBalance(userAddress: string): Promise<number> {
+    return this.sum({ userAddress: userAddress.toLowerCase() });
+  }
+
+  /**
+   * A user's entries, newest first.
+   */
+  async getHistory(
+    userAddress: string,
+    options: { limit: number; cursor?: string }
+  ): Promise<{ entries: XPLedgerEntry[]; nextCursor: string | null }> {
+    const collection = await this.getCollection();
+    const query: Filter<XPLedgerEntry> = { userAddress: userAddress.toLowerCase() };
+    if (options.cursor) {
+      const { createdAt, entryId } = XPLedgerService.decodeCursor(options.cursor);
+      query.$or = [{ createdAt: { $lt: createdAt } }, { createdAt, entryId: { $lt: entryId } }];
+    }
+
+    const entries = await collection
+      .find(query, { projection: { _id: 0 } })
+      .sort({ createdAt: -1, entryId: -1 })
+      .limit(options.limit + 1)
+      .toArray();
+    const page = entries.slice(0, options.limit);
+    const last = page[page.length - 1];
+    return {
+      entries: page,
+      nextCursor: entries.length > options.limit && last ? XPLedgerService.encodeCursor(last) : null,
+    };
+  }
+
+  /**
+   * Compare cached balances with the ledger, for one user or every user with
+   * a balance or entries. With repair, cached balances are reset to the
+   * ledger sum.
+   */
+  async reconcile(
+    userAddress?: string,
+    options: { repair?: boolean } = {}
+  ): Promise<XPReconciliation[]> {
+    const collection = await this.getCollection();
+    const xpCollection = await getUserXPCollection();
+    const match = userAddress ? { userAddress: userAddress.toLowerCase() } : {};
+
+    const sums = await collection
+      .aggregate<{ _id: string; total: number }>([
+        { $match: match },
+        { $group: { _id: "$userAddress", total: { $sum: "$delta" } } },
+      ])
+      .toArray();
+    const balances = await xpCollection
+      .find(match, { projection: { _id: 0, userAddress: 1, totalXP: 1 } })
+      .toArray();
+
+    const users = new Map<string, XPReconciliation>();
+    const entryFor = (user: string) =>
+      users.get(user) ?? { userAddress: user, balance: 0, ledgerSum: 0, difference: 0, consistent: true };
+    sums.forEach(({ _id, total }) => users.set(_id, { ...entryFor(_id), ledgerSum: roundXP(total) }));
+    balances.forEach(({ userAddress: user, totalXP }) =>
+      users.set(user, { ...entryFor(user), balance: roundXP(totalXP ?? 0) })
+    );
+
+    const results = Array.from(users.values()).map((result) => {
+      const difference = roundXP(result.balance - result.ledgerSum);
+      return { ...result, difference, consistent: difference === 0 };
+    });
+
+    if (options.repair) {
+      for (const result of results.filter((candidate) => !candidate.consistent)) {
+        await xpCollection.updateOne(
+          { userAddress: result.userAddress },
+          { $set: { totalXP: result.ledgerSum, updatedAt: new Date().toISOString() } },
+          { upsert: true }
+        );
+      }
+    }
+    return results;
+  }
+}
@@ -1,11 +1,47 @@
 import { ethers } from "ethers";
 import { VAULTS, GOAL_MANAGER_ABI, CONTRACTS } from "../constants";
-import { getMetaGoalsCollection, getUserXPCollection } from "../database";
-import { formatAmountForDisplay } from "../utils";
-import type { MetaGoal, VaultAsset } from "../types";
+import { getMetaGoalsCollection, getUserXPCollection, getXPEventsCollection } from "../database";
+import { createProvider } from "../utils";
+import { evaluateXP, getXPRuleSet, type XPEvaluation, type XPRuleSet } from "../xp";
+import { ActivityService } from "./activity.service";
+import { ActivityLogService } from "./activity-log.service";
+import { IdentityService } from "./identity.service";
+import { PriceService } from "./price.service";
+import { XPLedgerService } from "./xp-ledger.service";
+import type { GoalActivityItem, MetaGoal, UserXP, VaultAsset, XPEvent } from "../types";
+import type { Collection } from "mongodb";
 
+type NewXPEvent = Omit<XPEvent, "recordedAt">;
+
+// Label of verification grants, kept from before XP events were recorded
+const SELF_VERIFICATION_GOAL_ID = "self-verification";
+const SELF_VERIFICATION_GOAL_NAME = "Self Protocol Verification";
+
+/**
+ * Awards XP by recording what users did as XP events and evaluating each
+ * event once against the active, versioned rule set (lib/xp). Grants and
+ * reversals are appended to the XP ledger with the event they came from and
+ * the rule version that produced them, so XP can be recomputed when the
+ * rules change.
+ */
 export class XPService {
-  constructor(private provider: ethers.Provider) {}
+  private events: Collection<XPEvent> | null = null;
+
+  constructor(
+    private provider: ethers.Provider,
+    private prices: PriceService = new PriceService(),
+    private activityLog: ActivityLogService = new ActivityLogService(),
+    private identities: IdentityService = new IdentityService(),
+    private ruleSet: XPRuleSet = getXPRuleSet(),
+    private ledger: XPLedgerService = new XPLedgerService()
+  ) {}
+
+  private async getEvents() {
+    if (!this.events) {
+      this.events = await getXPEventsCollection();
+    }
+    return this.events;
+  }
 
   async checkAndAwardXP(
     metaGoalId: string
@@ -47,9 +83,9 @@ export class XPService {
       metaGoal,
       goalManager
     );
-    await this.awardXP(metaGoal, contributions);
+    const recipients = await this.awardXP(metaGoal, contributions);
 
-    return { awarded: true, recipients: contributions };
+    return { awarded: true, recipients };
   }
 
   private async checkAllGoalsCompleted(
@@ -91,9 +127,7 @@ export class XPService {
           attachment.owner,
           attachment.depositId
         );
-        const contributionUSD = parseFloat(
-          formatAmountForDisplay(currentValue.toString(), vaultConfig.decimals)
-        );
+        const contributionUSD = await this.prices.toUSD(asset as VaultAsset, currentValue);
         const userAddress = attachment.owner.toLowerCase();
         contributions[userAddress] =
           (contributions[userAddress] || 0) + contributionUSD;
@@ -106,62 +140,366 @@ export class XPService {
   private async awardXP(
     metaGoal: MetaGoal,
     contributions: Record<string, number>
-  ): Promise<void> {
-    const xpCollection = await getUserXPCollection();
+  ): Promise<Record<string, number>> {
     const completedAt = new Date().toISOString();
+    const groupGoal = Object.keys(contributions).length > 1;
+    const awarded: Record<string, number> = {};
 
-    for (const [userAddress, xpEarned] of Object.entries(contributions)) {
-      await xpCollection.updateOne(
-        { userAddress },
-        {
-          $inc: { totalXP: xpEarned },
-          $push: {
-            xpHistory: {
-              metaGoalId: metaGoal.metaGoalId,
-              goalName: metaGoal.name,
-              xpEarned,
-              contributionUSD: xpEarned,
-              completedAt,
-            },
-          },
-          $set: { updatedAt: completedAt },
-        },
-        { upsert: true }
-      );
+    for (const [userAddress, contributionUSD] of Object.entries(contributions)) {
+      const grant = await this.recordEvent({
+        eventId: `goal_completed:${metaGoal.metaGoalId}:${userAddress}`,
+        type: "goal_completed",
+        userAddress,
+        occurredAt: completedAt,
+        metaGoalId: metaGoal.metaGoalId,
+        goalName: metaGoal.name,
+        amountUSD: contributionUSD,
+        groupGoal,
+        targetDate: metaGoal.targetDate || undefined,
+      });
+      awarded[userAddress] = grant?.xp ?? 0;
     }
+    return awarded;
   }
 
-  async awardSelfVerificationXP(walletAddress: string): Promise<{ awarded: boolean; totalXP: number }> {
-    const xpCollection = await getUserXPCollection();
+  /**
+   * Verification XP is awarded once per person: the nullifier of the Self
+   * proof links the wallet to its person, and only the first of their wallets
+   * to verify receives it.
+   */
+  async awardSelfVerificationXP(
+    walletAddress: string,
+    nullifier: string
+  ): Promise<{ awarded: boolean; totalXP: number }> {
     const userAddress = walletAddress.toLowerCase();
-    const completedAt = new Date().toISOString();
-    const xpAmount = 2;
 
-    const result = await xpCollection.updateOne(
-      { 
+    let awarded = false;
+    if (await this.identities.claimVerificationXP(nullifier, userAddress)) {
+      const grant = await this.recordEvent({
+        eventId: `self_verification:${userAddress}`,
+        type: "self_verification",
         userAddress,
-        "xpHistory.goalName": { $ne: "Self Protocol Verification" }
-      },
-      {
-        $inc: { totalXP: xpAmount },
-        $push: {
-          xpHistory: {
-            metaGoalId: "self-verification",
-            goalName: "Self Protocol Verification",
-            xpEarned: xpAmount,
-            contributionUSD: 0,
-            completedAt,
-          },
+        occurredAt: new Date().toISOString(),
+      });
+      awarded = Boolean(grant && grant.xp > 0);
+    }
+
+    const userXP = await (await getUserXPCollection()).findOne({ userAddress });
+    return { awarded, totalXP: userXP?.totalXP || 0 };
+  }
+
+  /**
+   * XP for a deposit allocated into a vault (first deposit, streaks).
+   */
+  async awardDepositXP(deposit: {
+    userAddress: string;
+    asset: VaultAsset;
+    depositId: string;
+    amountUSD: number;
+    occurredAt?: string;
+  }): Promise<XPEvaluation | null> {
+    const userAddress = deposit.userAddress.toLowerCase();
+    // Vault deposit ids are numbered per user
+    return this.recordEvent({
+      eventId: `deposit:${deposit.asset}:${userAddress}:${deposit.depositId}`,
+      type: "deposit",
+      userAddress,
+      occurredAt: deposit.occurredAt ?? new Date().toISOString(),
+      asset: deposit.asset,
+      depositId: deposit.depositId,
+      amountUSD: deposit.amountUSD,
+    });
+  }
+
+  /**
+   * Record an event and grant the XP the active rules give it as a ledger
+   * entry keyed by the event id. Returns null when the event was already
+   * recorded, so retries never award twice.
+   */
+  async recordEvent(event: NewXPEvent): Promise<XPEvaluation | null> {
+    if (!(await this.importEvent(event))) {
+      return null;
+    }
+
+    const evaluation = await this.evaluate({ ...event, recordedAt: "" });
+    if (evaluation.xp <= 0) {
+      return evaluation;
+    }
+
+    await this.ledger.append({
+      ...this.toLedgerEntry(event, evaluation),
+      idempotencyKey: event.eventId,
+      kind: "grant",
+      delta: evaluation.xp,
+      reason: event.type,
+    });
+    await this.activityLog.recordXPAwarded(event.userAddress, {
+      xpEarned: evaluation.xp,
+      reason: event.type,
+      metaGoalId: event.metaGoalId,
+      timestamp: event.occurredAt,
+      eventId: event.eventId,
+    });
+    return evaluation;
+  }
+
+  /**
+   * Store an event without granting XP for it, for backfills that are
+   * followed by a recompute. False when it was already recorded.
+   */
+  async importEvent(event: NewXPEvent): Promise<boolean> {
+    try {
+      await (await this.getEvents()).insertOne({ ...event, recordedAt: new Date().toISOString() });
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse goal-completion XP for deposits detached from a meta-goal's
+   * on-chain goals after it completed. Each detached deposit's value is taken
+   * off its owner's contribution once, and the difference between what the
+   * event now earns and what the ledger holds for it is appended as a
+   * reversal. Returns the XP reversed per user, or null for an unknown
+   * meta-goal.
+   */
+  async reverseDetachedDeposits(
+    metaGoalId: string,
+    activity: ActivityService = new ActivityService(createProvider(), this.prices)
+  ): Promise<Record<string, number> | null> {
+    const metaGoal = await (await getMetaGoalsCollection()).findOne({ metaGoalId });
+    if (!metaGoal) {
+      return null;
+    }
+    const events = await (await this.getEvents())
+      .find({ type: "goal_completed", metaGoalId }, { projection: { _id: 0 } })
+      .toArray();
+    if (events.length === 0) {
+      return {};
+    }
+    const completedAt = events.reduce(
+      (earliest, event) => (event.occurredAt < earliest ? event.occurredAt : earliest),
+      events[0].occurredAt
+    );
+
+    // Detaches come newest first; the ones before completion never counted
+    const detaches: GoalActivityItem[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await activity.getGoalPage({
+        goals: metaGoal.onChainGoals,
+        types: ["deposit_detached"],
+        cursor,
+        limit: 100,
+      });
+      const afterCompletion = page.activities.filter((item) => item.timestamp >= completedAt);
+      detaches.push(...afterCompletion);
+      cursor = afterCompletion.length === page.activities.length ? page.nextCursor ?? undefined : undefined;
+    } while (cursor);
+
+    const reversed: Record<string, number> = {};
+    for (const detach of detaches) {
+      const event = events.find((candidate) => candidate.userAddress === detach.actor);
+      const detachedUSD = parseFloat(detach.amountUSD ?? "0");
+      if (!event || !(detachedUSD > 0)) {
+        continue;
+      }
+
+      const updated = await (await this.getEvents()).findOneAndUpdate(
+        { eventId: event.eventId, detachedDeposits: { $ne: detach.id } },
+        { $inc: { amountUSD: -detachedUSD }, $push: { detachedDeposits: detach.id } },
+        { returnDocument: "after", projection: { _id: 0 } }
+      );
+      if (!updated) {
+        continue;
+      }
+
+      const evaluation = await this.evaluate(updated);
+      const net = await this.ledger.sum({ eventId: event.eventId });
+      if (evaluation.xp >= net) {
+        continue;
+      }
+      const entry = await this.ledger.append({
+        ...this.toLedgerEntry(updated, evaluation),
+        idempotencyKey: `reversal:${event.eventId}:${detach.id}`,
+        kind: "reversal",
+        delta: evaluation.xp - net,
+        reason: "deposit_detached",
+        occurredAt: detach.timestamp,
+      });
+      if (entry) {
+        reversed[event.userAddress] = (reversed[event.userAddress] ?? 0) + entry.delta;
+      }
+    }
+    return reversed;
+  }
+
+  /**
+   * Re-evaluate every event of a user under the active rule set and append
+   * the difference between that and what the ledger holds for each event.
+   * Grants written before the ledger existed are moved into it first.
+   */
+  async recompute(
+    userAddress: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<{ userAddress: string; previousXP: number; totalXP: number }> {
+    const user = userAddress.toLowerCase();
+    const userXP = await (await getUserXPCollection()).findOne({ userAddress: user });
+    if (userXP && !options.dryRun) {
+      await this.importLegacyHistory(userXP);
+    }
+
+    const events = await (await this.getEvents())
+      .find({ userAddress: user }, { projection: { _id: 0 } })
+      .sort({ occurredAt: 1, eventId: 1 })
+      .toArray();
+    // Dry runs skip the move, so count unmoved legacy grants as if they were in the ledger
+    const pending = options.dryRun ? userXP?.xpHistory ?? [] : [];
+    const pendingXP = (eventId?: string) =>
+      pending
+        .filter((entry) => !eventId || (entry.eventId ?? this.legacyEventId(user, entry.metaGoalId)) === eventId)
+        .reduce((sum, entry) => sum + entry.xpEarned, 0);
+    const previousXP = (await this.ledger.getBalance(user)) + pendingXP();
+
+    let totalXP = previousXP;
+    for (const event of events) {
+      const evaluation = evaluateXP(
+        this.ruleSet,
+        event,
+        events.filter((candidate) => candidate.occurredAt < event.occurredAt)
+      );
+      const net = (await this.ledger.sum({ eventId: event.eventId })) + pendingXP(event.eventId);
+      const delta = Math.round((evaluation.xp - net) * 100) / 100;
+      if (delta === 0) {
+        continue;
+      }
+
+      totalXP += delta;
+      if (!options.dryRun) {
+        // Keyed by the balance it corrects, so a rerun over the same state appends nothing
+        await this.ledger.append({
+          ...this.toLedgerEntry(event, evaluation),
+          idempotencyKey: `recompute:v${this.ruleSet.version}:${event.eventId}:${net}`,
+          kind: delta > 0 ? "grant" : "reversal",
+          delta,
+          reason: "recompute",
+        });
+      }
+    }
+
+    if (!options.dryRun && (userXP || events.length > 0)) {
+      await (await getUserXPCollection()).updateOne(
+        { userAddress: user },
+        { $set: { rulesVersion: this.ruleSet.version, updatedAt: new Date().toISOString() } },
+        { upsert: true }
+      );
+    }
+    return {
+      userAddress: user,
+      previousXP: Math.round(previousXP * 100) / 100,
+      totalXP: Math.round(totalXP * 100) / 100,
+    };
+  }
+
+  /**
+   * Move a user's embedded xpHistory into the ledger. Grants from before XP
+   * events existed also become events, with their meta-goal's details. The
+   * entries are already in totalXP, so the balance is not incremented again.
+   */
+  async importLegacyHistory(userXP: UserXP): Promise<number> {
+    const history = userXP.xpHistory ?? [];
+    if (history.length === 0) {
+      return 0;
+    }
+
+    const metaGoals = await (await getMetaGoalsCollection())
+      .find({ metaGoalId: { $in: history.map((entry) => entry.metaGoalId) } })
+      .toArray();
+    let moved = 0;
+    for (const entry of history) {
+      const eventId = entry.eventId ?? this.legacyEventId(userXP.userAddress, entry.metaGoalId);
+      if (!entry.eventId) {
+        const metaGoal = metaGoals.find((candidate) => candidate.metaGoalId === entry.metaGoalId);
+        await this.importEvent(
+          entry.metaGoalId === SELF_VERIFICATION_GOAL_ID
+            ? {
+                eventId,
+                type: "self_verification",
+                userAddress: userXP.userAddress,
+                occurredAt: entry.completedAt,
+              }
+            : {
+                eventId,
+                type: "goal_completed",
+                userAddress: userXP.userAddress,
+                occurredAt: entry.completedAt,
+                metaGoalId: entry.metaGoalId,
+                goalName: entry.goalName,
+                amountUSD: entry.contributionUSD,
+                groupGoal: (metaGoal?.participants?.length ?? 0) > 1,
+                targetDate: metaGoal?.targetDate || undefined,
+              }
+        );
+      }
+
+      const appended = await this.ledger.append(
+        {
+          idempotencyKey: `legacy:${eventId}`,
+          userAddress: userXP.userAddress,
+          kind: "grant",
+          delta: entry.xpEarned,
+          reason: "legacy",
+          eventId,
+          metaGoalId: entry.metaGoalId,
+          goalName: entry.goalName,
+          contributionUSD: entry.contributionUSD,
+          ruleVersion: entry.ruleVersion,
+          rules: entry.rules,
+          occurredAt: entry.completedAt,
         },
-        $set: { updatedAt: completedAt },
-      },
-      { upsert: true }
+        { applyToBalance: false }
+      );
+      if (appended) {
+        moved++;
+      }
+    }
+
+    await (await getUserXPCollection()).updateOne(
+      { userAddress: userXP.userAddress },
+      { $unset: { xpHistory: "" }, $set: { updatedAt: new Date().toISOString() } }
     );
+    return moved;
+  }
+
+  private legacyEventId(userAddress: string, metaGoalId: string): string {
+    return metaGoalId === SELF_VERIFICATION_GOAL_ID
+      ? `self_verification:${userAddress}`
+      : `goal_completed:${metaGoalId}:${userAddress}`;
+  }
+
+  private async evaluate(event: XPEvent): Promise<XPEvaluation> {
+    const earlier = await (await this.getEvents())
+      .find({ userAddress: event.userAddress, occurredAt: { $lt: event.occurredAt } }, { projection: { _id: 0 } })
+      .toArray();
+    return evaluateXP(this.ruleSet, event, earlier);
+  }
 
-    const userXP = await xpCollection.findOne({ userAddress });
-    return { 
-      awarded: result.modifiedCount > 0 || result.upsertedCount > 0,
-      totalXP: userXP?.totalXP || xpAmount
+  // Labels kept from the embedded history, so verification grants read the same
+  private toLedgerEntry(event: NewXPEvent, evaluation: XPEvaluation) {
+    const selfVerification = event.type === "self_verification";
+    return {
+      userAddress: event.userAddress,
+      eventId: event.eventId,
+      metaGoalId: selfVerification ? SELF_VERIFICATION_GOAL_ID : event.metaGoalId,
+      goalName: selfVerification ? SELF_VERIFICATION_GOAL_NAME : event.goalName,
+      contributionUSD: event.type === "goal_completed" ? event.amountUSD ?? 0 : undefined,
+      ruleVersion: evaluation.ruleVersion,
+      rules: evaluation.rules,
+      occurredAt: event.occurredAt,
     };
   }
 }
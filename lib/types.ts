@@ -6,7 +6,9 @@ export interface AllocateRequest {
   amount: string; // Must be a raw integer string (e.g., "1000000"), no decimals or formatting
   txHash: string;
   providerPayload: Record<string, unknown>;
+  providerId?: string; // onramp adapter id, defaults to "mpesa"
   targetGoalId?: string;
+  callbackUrl?: string; // notified with the AllocationJobResponse when the job finishes
 }
 
 export interface AllocateResponse {
@@ -20,6 +22,317 @@ export interface AllocateResponse {
   metaGoalId?: string;
 }
 
+// Onramp provider types
+export type OnrampProviderStatus = "pending" | "completed" | "failed" | "reversed" | "unknown";
+
+// Provider payload normalized by an onramp adapter
+export interface OnrampEvent {
+  providerId: string;
+  providerTxCode: string;
+  status: OnrampProviderStatus;
+  fiatAmount?: string;
+  currency?: string;
+  phoneNumber?: string;
+  reference?: string;
+}
+
+// Allocation ledger types
+export type AllocationStep =
+  | "received"
+  | "verified"
+  | "allocated"
+  | "attached"
+  | "scored";
+
+export type AllocationStatus = "queued" | "in_progress" | "completed" | "failed" | "rejected";
+
+export interface AllocationRecord {
+  allocationId: string;
+  txHash: string; // lowercased onramp transfer hash
+  providerTxCode: string;
+  asset: VaultAsset;
+  userAddress: string; // lowercased
+  amount: string;
+  targetGoalId?: string;
+  metaGoalId?: string;
+  onrampEvent?: OnrampEvent;
+  batchId?: string; // settlement batch the allocation was submitted in
+  callbackUrl?: string;
+  callbackDeliveredAt?: string;
+  callbackError?: string;
+  status: AllocationStatus;
+  step: AllocationStep; // last completed step
+  stepCompletedAt: Partial<Record<AllocationStep, string>>;
+  transferLogIndex?: number; // Transfer log claimed by this allocation
+  transferSender?: string;
+  verifiedAmount?: string; // value actually transferred into the vault
+  rejectionId?: string;
+  rejectionCode?: TransferRejectionCode;
+  allocateTxHash?: string;
+  depositId?: string;
+  shares?: string;
+  goalId?: string;
+  score?: string; // leaderboard units (6-decimal USD) recorded for the deposit
+  scoreTxHash?: string;
+  response?: AllocateResponse;
+  lastError?: string;
+  attempts: number;
+  lockedUntil?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Allocation job status as exposed by GET /api/allocate/{jobId} and callbacks
+export interface AllocationJobResponse {
+  jobId: string;
+  status: AllocationStatus;
+  step: AllocationStep;
+  stepCompletedAt: Partial<Record<AllocationStep, string>>;
+  attempts: number;
+  txHash: string;
+  providerTxCode: string;
+  response?: AllocateResponse;
+  error?: string;
+  code?: TransferRejectionCode;
+  rejectionId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where the allocation routing chain placed a deposit
+export type GoalRoutingSource = "metaGoal" | "targetGoal" | "rule" | "autoExpand" | "quicksave";
+
+export interface AllocationPreviewTransaction {
+  method: string;
+  estimatedGas: string | null; // null when the call cannot be simulated yet
+  error?: string;
+}
+
+// Response of POST /api/allocate/preview; nothing is sent on-chain
+export interface AllocationPreviewResponse {
+  mode: "onramp" | "direct";
+  asset: VaultAsset;
+  userAddress: string;
+  amount: string;
+  goal: {
+    goalId: string | null; // null when the goal would be created by the allocation
+    source: GoalRoutingSource;
+    createsGoal: boolean;
+    metaGoalId?: string;
+    ruleId?: string;
+  };
+  fallbacks: string[];
+  transactions: AllocationPreviewTransaction[];
+  estimatedGas: string;
+  estimatedCostWei: string;
+}
+
+// Settlement batches submitted to POST /api/allocate/batch
+export type AllocationBatchItemStatus = "accepted" | "invalid" | "conflict";
+
+export interface AllocationBatchItem {
+  index: number; // position in the submitted array or CSV data rows
+  status: AllocationBatchItemStatus;
+  jobId?: string;
+  txHash?: string;
+  providerTxCode?: string;
+  error?: string;
+}
+
+export interface AllocationBatch {
+  batchId: string;
+  providerId: string;
+  format: "json" | "csv";
+  items: AllocationBatchItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Per-item report of a batch, with the current state of each accepted job
+export interface AllocationBatchReport {
+  batchId: string;
+  status: "processing" | "finished";
+  total: number;
+  counts: Record<AllocationBatchItemStatus | AllocationStatus, number>;
+  items: Array<AllocationBatchItem & { job?: AllocationJobResponse }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OnrampTransfer {
+  logIndex: number;
+  from: string;
+  to: string;
+  value: string;
+}
+
+export type TransferRejectionCode =
+  | "NO_VAULT_TRANSFER"
+  | "SENDER_MISMATCH"
+  | "AMOUNT_MISMATCH"
+  | "TRANSFER_ALREADY_CLAIMED";
+
+export interface AllocationRejection {
+  rejectionId: string;
+  allocationId: string;
+  txHash: string;
+  providerTxCode: string;
+  userAddress: string;
+  asset: VaultAsset;
+  code: TransferRejectionCode;
+  reason: string;
+  requestedAmount: string;
+  toleranceBps: number;
+  expectedSenders: string[];
+  transfers: OnrampTransfer[]; // vault transfers found in the receipt
+  createdAt: string;
+}
+
+// Backend transaction submitter types
+export type BackendTransactionStatus =
+  | "pending"
+  | "confirmed"
+  | "reverted"
+  | "replaced" // nonce consumed by a transaction we did not send
+  | "failed"; // never reached the mempool
+
+export interface BackendTransaction {
+  txId: string;
+  from: string; // lowercased signer address
+  nonce: number;
+  to: string;
+  data: string;
+  label: string; // contract method, e.g. "allocateOnrampDeposit"
+  reference?: string; // caller id, e.g. an allocationId
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string; // legacy fee chains
+  hashes: string[]; // every broadcast, original first, gas bumps after
+  currentHash: string;
+  minedHash?: string;
+  blockNumber?: number;
+  bumps: number;
+  status: BackendTransactionStatus;
+  error?: string;
+  lastBroadcastAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NonceCounter {
+  address: string; // lowercased signer address
+  nextNonce: number;
+  updatedAt: string;
+}
+
+// Per-user deposit routing rules, evaluated in priority order before the auto-expand fallback
+export type RoutingRuleTarget =
+  | { type: "metaGoal"; metaGoalId: string }
+  | { type: "goal"; goalId: string }
+  | { type: "quicksave" };
+
+export interface RoutingRuleConditions {
+  asset?: VaultAsset;
+  minAmount?: string; // token units, inclusive, e.g. "5"
+  maxAmount?: string; // token units, exclusive
+}
+
+export interface RoutingRule {
+  ruleId: string;
+  userAddress: string; // lowercased
+  priority: number; // lower runs first
+  name?: string;
+  conditions: RoutingRuleConditions;
+  target: RoutingRuleTarget;
+  untilCompleted: boolean; // stop matching once the target meta-goal reaches its target amount
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RoutingRuleAuditAction = "created" | "updated" | "deleted";
+
+export interface RoutingRuleAuditEntry {
+  auditId: string;
+  ruleId: string;
+  userAddress: string;
+  action: RoutingRuleAuditAction;
+  before?: RoutingRule;
+  after?: RoutingRule;
+  createdAt: string;
+}
+
+// USD price of one whole token of a vault asset
+export interface PriceQuote {
+  asset: VaultAsset;
+  usd: number;
+  source: string; // price source id, e.g. "manual", "oracle", "static"
+  asOf: string; // when the source last updated the price
+  fetchedAt: string; // when this process read it
+}
+
+// Admin-set price that takes precedence over the oracle and static table
+export interface PriceOverride {
+  asset: VaultAsset;
+  usd: number;
+  reason?: string;
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Off-chain leaderboard score rebuilt from vault deposit events by scripts/recompute-leaderboard-scores.ts
+export interface LeaderboardScoreAsset {
+  amount: string; // raw token units
+  score: string; // leaderboard units
+  deposits: number;
+}
+
+export interface LeaderboardScoreRecord {
+  userAddress: string;
+  score: string; // USD in LEADERBOARD_DECIMALS units
+  scoreUSD: number; // same value as a number, for sorting
+  deposits: number;
+  byAsset: Partial<Record<VaultAsset, LeaderboardScoreAsset>>;
+  prices: Partial<Record<VaultAsset, number>>; // USD quotes the run valued deposits at
+  fromBlock: number;
+  toBlock: number;
+  runId: string;
+  recomputedAt: string;
+}
+
+// Event indexer: contract logs ingested by EventIndexerService
+export interface IndexedChainEvent {
+  eventId: string; // `${contractId}:${transactionHash}:${logIndex}`
+  contractId: string; // e.g. "goalManager", "vault:USDC", "self"
+  address: string; // lowercased
+  name: string;
+  args: Record<string, unknown>; // decoded, bigints as decimal strings
+  users: string[]; // lowercased participant addresses
+  goalId?: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+  topics: string[];
+  data: string;
+  timestamp: string;
+  indexedAt: string;
+}
+
+export interface IndexerCheckpoint {
+  contractId: string;
+  address: string;
+  startBlock: number;
+  lastBlock: number; // every block up to here is indexed
+  recentBlocks: Array<{ number: number; hash: string }>; // chunk ends, oldest first, for reorg detection
+  reorgs: number;
+  lastReorgAt?: string;
+  updatedAt: string;
+}
+
 export interface GoalAttachment {
   owner: string;
   depositId: string;
@@ -164,7 +477,15 @@ export type ActivityType =
   | "member_invited"
   | "invite_revoked"
   | "member_joined"
-  | "member_removed";
+  | "member_removed"
+  | OffChainActivityType;
+
+// Activity recorded by the backend in the activity log rather than emitted on chain
+export type OffChainActivityType =
+  | "meta_goal_created"
+  | "invite_sent"
+  | "xp_awarded"
+  | "identity_verified";
 
 export interface ActivityItemBase {
   id: string;
@@ -221,19 +542,136 @@ export interface MemberStatusActivity extends ActivityItemBase {
   member: string;
 }
 
-export type ActivityItem =
+export type ChainActivityItem =
   | DepositActivity
   | GoalCreatedActivity
   | DepositAttachmentActivity
   | MemberInviteActivity
   | MemberStatusActivity;
 
+export interface OffChainActivityItemBase {
+  id: string;
+  type: OffChainActivityType;
+  timestamp: string;
+  offChain: true; // no txHash or blockNumber
+}
+
+export interface MetaGoalCreatedActivity extends OffChainActivityItemBase {
+  type: "meta_goal_created";
+  metaGoalId: string;
+  name: string;
+  targetAmountUSD: number;
+  targetDate: string;
+  isPublic: boolean;
+}
+
+export interface InviteSentActivity extends OffChainActivityItemBase {
+  type: "invite_sent";
+  metaGoalId: string;
+  inviter: string;
+  invitee: string;
+  role: "inviter" | "invitee";
+}
+
+export interface XPAwardedActivity extends OffChainActivityItemBase {
+  type: "xp_awarded";
+  xpEarned: number;
+  reason: string;
+  metaGoalId?: string;
+}
+
+export interface IdentityVerifiedActivity extends OffChainActivityItemBase {
+  type: "identity_verified";
+  provider: "self";
+  attestationId?: string;
+  nationality?: string;
+}
+
+export type OffChainActivityItem =
+  | MetaGoalCreatedActivity
+  | InviteSentActivity
+  | XPAwardedActivity
+  | IdentityVerifiedActivity;
+
+export type ActivityItem = ChainActivityItem | OffChainActivityItem;
+
+// Activity log entry: one per user the item is shown to
+export type ActivityLogRecord = OffChainActivityItem & {
+  userAddress: string; // lowercased
+  key?: string; // dedupe key, so replays and retries record an event once
+};
+
 export interface ActivityResponse {
   userAddress: string;
   startBlock: number;
   endBlock: number;
   limit: number;
   activities: ActivityItem[];
+  nextCursor: string | null; // pass as ?cursor= for the next page, null at the end of the history
+}
+
+export type GoalActivityType =
+  | "deposit_attached"
+  | "deposit_detached"
+  | "member_joined"
+  | "member_removed"
+  | "goal_completed"
+  | "goal_cancelled";
+
+// Activity of a group goal, across the on-chain goals of every asset
+export interface GoalActivityItem {
+  id: string;
+  type: GoalActivityType;
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+  goalId: string;
+  asset: VaultAsset;
+  actor: string | null; // deposit owner or member; null for completion and cancellation
+  depositId?: string;
+  amountWei: string | null; // deposit principal, or the goal's total value on completion
+  amountUSD: string | null;
+}
+
+export interface GoalActivityResponse {
+  metaGoalId: string;
+  limit: number;
+  activities: GoalActivityItem[];
+  nextCursor: string | null;
+}
+
+export type ExportFormat = "csv" | "ofx" | "json";
+
+// One line of an activity export
+export interface ActivityExportRow {
+  id: string;
+  date: string;
+  type: ActivityType | GoalActivityType;
+  description: string;
+  direction: "in" | "out" | null; // money into or out of the exported account; null for non-cash events
+  goalId: string | null;
+  depositId: string | null;
+  counterparty: string | null;
+  asset: VaultAsset | null;
+  amountWei: string | null;
+  tokenAmount: string | null; // in whole tokens
+  fiatCurrency: "USD";
+  fiatAmount: string | null;
+  rate: number | null; // USD per token used for fiatAmount
+  rateSource: string | null;
+  rateAsOf: string | null;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface ActivityExportMeta {
+  scope: "user" | "metaGoal";
+  userAddress?: string;
+  metaGoalId?: string;
+  name?: string;
+  from: string | null; // ISO, null for the start of the history
+  to: string; // ISO
+  generatedAt: string;
 }
 
 // Utility types
@@ -252,24 +690,151 @@ export interface MetaGoal {
   isPublic?: boolean;
   participants?: string[];
   invitedUsers?: string[]; // For private goals
+  memberLimit?: number; // group size allowed by the creator's verification tier
+  membershipRequirements?: GoalMembershipRequirements; // checked when members join, are invited or allocate
   xpAwarded?: boolean; // Track if XP has been awarded for completed goal
   createdAt: string;
   updatedAt: string;
 }
 
+// Balance cache of the XP ledger; the ledger (XPLedgerEntry) is authoritative
 export interface UserXP {
   userAddress: string;
-  totalXP: number;
-  xpHistory: Array<{
+  totalXP: number; // sum of the user's ledger entries
+  // Grants written before the ledger existed; moved into it by scripts/reconcile-xp-ledger.ts
+  xpHistory?: Array<{
     metaGoalId: string;
     goalName: string;
     xpEarned: number;
     contributionUSD: number;
     completedAt: string;
+    eventId?: string; // the XPEvent the grant was evaluated from
+    ruleVersion?: number; // XP rule set version that produced the grant
+    rules?: string[]; // ids of the rules that matched
   }>;
+  rulesVersion?: number; // rule set the total was last recomputed with
   updatedAt: string;
 }
 
+export type XPEventType = "goal_completed" | "self_verification" | "deposit";
+
+// Something a user did that XP rules are evaluated against; recorded once per eventId
+export interface XPEvent {
+  eventId: string; // e.g. "goal_completed:<metaGoalId>:<user>", "deposit:<asset>:<user>:<depositId>"
+  type: XPEventType;
+  userAddress: string; // lowercased
+  occurredAt: string;
+  metaGoalId?: string;
+  goalName?: string;
+  amountUSD?: number; // contribution to the completed goal, or deposit value
+  groupGoal?: boolean; // the completed goal had more than one contributor
+  targetDate?: string; // the completed goal's target date
+  asset?: VaultAsset;
+  depositId?: string;
+  detachedDeposits?: string[]; // deposit_detached activity ids already deducted from amountUSD
+  recordedAt: string;
+}
+
+export type XPLedgerKind = "grant" | "reversal";
+
+// One append-only XP movement; a user's balance is the sum of their deltas
+export interface XPLedgerEntry {
+  entryId: string;
+  idempotencyKey: string; // unique: the XP event id for grants, "<cause>:<event id>:<...>" otherwise
+  userAddress: string; // lowercased
+  kind: XPLedgerKind;
+  delta: number; // positive for grants, negative for reversals
+  reason: string; // XP event type, "deposit_detached", "recompute" or "legacy"
+  eventId?: string; // the XP event the entry adjusts
+  metaGoalId?: string;
+  goalName?: string;
+  contributionUSD?: number;
+  ruleVersion?: number;
+  rules?: string[];
+  occurredAt: string;
+  createdAt: string;
+}
+
+export interface XPHistoryResponse {
+  userAddress: string;
+  balance: number;
+  entries: XPLedgerEntry[];
+  nextCursor: string | null;
+}
+
+export interface XPReconciliation {
+  userAddress: string;
+  balance: number; // UserXP.totalXP
+  ledgerSum: number;
+  difference: number;
+  consistent: boolean;
+}
+
+// Named XP window configured in XP_SEASONS; covers startsAt up to, not including, endsAt
+export interface XPSeason {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+export type XPLeaderboardPeriod = "all_time" | "weekly" | "monthly" | "season";
+
+// The XP a leaderboard ranks: ledger entries that occurred in the window
+export interface XPLeaderboardWindow {
+  period: XPLeaderboardPeriod;
+  seasonId?: string;
+  startsAt: string | null; // null for all time
+  endsAt: string | null;
+}
+
+export interface XPLeaderboardEntry {
+  rank: number;
+  userAddress: string;
+  xp: number;
+}
+
+export interface XPLeaderboardResponse {
+  window: XPLeaderboardWindow;
+  source: "live" | "snapshot"; // snapshot: standings frozen when the season closed
+  total: number;
+  start: number;
+  limit: number;
+  data: XPLeaderboardEntry[];
+}
+
+export interface XPRankResponse {
+  window: XPLeaderboardWindow;
+  source: "live" | "snapshot";
+  userAddress: string;
+  xp: number;
+  rank: number | null; // null when the wallet has no XP in the window or is a secondary wallet
+  total: number;
+  neighbours: XPLeaderboardEntry[]; // ranked entries around the wallet, the wallet included
+}
+
+// Standings of a closed season, frozen by scripts/snapshot-xp-seasons.ts
+export interface XPSeasonSnapshot {
+  seasonId: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  totalUsers: number;
+  takenAt: string;
+}
+
+export interface XPSeasonStanding {
+  seasonId: string;
+  rank: number;
+  userAddress: string;
+  xp: number;
+}
+
+export interface XPSeasonSummary extends XPSeason {
+  status: "upcoming" | "active" | "ended";
+  snapshot: XPSeasonSnapshot | null;
+}
+
 export interface MetaGoalWithProgress extends MetaGoal {
   totalProgressUSD: number;
   progressPercent: number;
@@ -301,6 +866,7 @@ export interface CreateMultiVaultGoalResponse {
   onChainGoals: Record<VaultAsset, string>;
   txHashes: Record<VaultAsset, string>;
   shareLink?: string;
+  headroom?: TierHeadroom;
 }
 
 export interface AttachDepositRequest {
@@ -333,6 +899,116 @@ export interface SelfVerification {
   verifiedAt: Date;
   chainId: number;
   endpoint: string;
+  documentExpiresAt?: Date; // only when the proof disclosed the expiry date
+  transactionHash?: string; // hub transaction that emitted the disclosure
+  blockNumber?: number;
+  source?: "self_app" | "chain_backfill"; // callback from the Self app, or recovered from hub events
   createdAt: Date;
   updatedAt: Date;
 }
+
+export type VerificationState = "verified" | "unverified" | "expired";
+
+// A wallet's standing derived from its stored Self verifications
+export interface VerificationStatus {
+  walletAddress: string;
+  status: VerificationState;
+  verification: SelfVerification | null; // the record the status was derived from
+  expiresAt: Date | null; // the earlier of document expiry and the re-verification deadline
+  reverifyBy: Date | null;
+  reverificationDue: boolean; // expired, or inside the notice window before expiresAt
+}
+
+export interface VerificationStatusResponse {
+  walletAddress: string;
+  status: VerificationState;
+  tier: VerificationTier;
+  attestationId: string | null;
+  verifiedAt: string | null;
+  expiresAt: string | null;
+  documentExpiresAt: string | null;
+  reverifyBy: string | null;
+  reverificationDue: boolean;
+  disclosures: {
+    nationality: string | null;
+    olderThan: number | null;
+    ofac: boolean[];
+  } | null;
+  source: SelfVerification["source"] | null;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  checkedAt: string;
+}
+
+// unverified < Self-verified < Self-verified with a disclosed nationality
+export type VerificationTier = "unverified" | "self_verified" | "self_verified_nationality";
+
+export interface TierLimits {
+  dailyAllocationUSD: number; // onramp allocations over the last 24 hours
+  maxGoals: number; // goals created, all time
+  maxGroupSize: number; // members of a group goal, creator included
+}
+
+// Caps are per person: usage is summed over every wallet linked to the same identity
+export interface TierHeadroom {
+  tier: VerificationTier;
+  limits: TierLimits;
+  allocationUSDRemaining: number;
+  goalsRemaining: number;
+}
+
+export interface TierLimitErrorResponse extends ErrorResponse {
+  tier: VerificationTier;
+  limit: keyof TierLimits;
+  headroom: TierHeadroom;
+}
+
+// One person: every wallet that proved the same Self identity (same nullifier)
+export interface Identity {
+  humanId: string;
+  nullifier: string;
+  primaryWallet: string; // first wallet verified; the only one eligible for the leaderboard
+  wallets: string[]; // lowercased, primary included
+  verificationXPAwardedTo?: string; // the wallet that received this person's verification XP
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Routes that compliance policies can gate
+export type ComplianceAction = "allocate" | "create_goal" | "invite";
+
+// What a policy demands of the acting wallet's Self verification
+export interface ComplianceRequirements {
+  verified?: boolean;
+  ofacClear?: boolean;
+  minimumAge?: number;
+  allowedNationalities?: string[]; // ISO 3166-1 alpha-3, as disclosed by Self
+  blockedNationalities?: string[];
+}
+
+export type ComplianceRequirement = keyof ComplianceRequirements;
+
+export interface CompliancePolicy {
+  id: string;
+  action: ComplianceAction;
+  description?: string;
+  when?: {
+    minAmountUSD?: number; // allocations of at least this value
+    isPublic?: boolean; // goal creation of public (true) or private (false) goals
+  };
+  require: ComplianceRequirements;
+}
+
+// What a group goal demands of its members' Self verification
+export type GoalMembershipRequirements = Pick<ComplianceRequirements, "verified" | "allowedNationalities" | "minimumAge">;
+
+export interface GoalMembershipErrorResponse extends ErrorResponse {
+  metaGoalId: string;
+  walletAddress: string;
+  requirement: ComplianceRequirement;
+}
+
+export interface ComplianceErrorResponse extends ErrorResponse {
+  policyId: string;
+  requirement: ComplianceRequirement;
+}
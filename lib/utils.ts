@@ -116,6 +116,16 @@ export function formatAmountForDisplay(
   }
 }
 
+/**
+ * Format a USD value with the same rules as formatAmountForDisplay
+ */
+export function formatUSDForDisplay(usd: number, displayDecimals = 2): string {
+  if (usd < 0.01 && usd > 0) {
+    return usd.toFixed(6);
+  }
+  return usd.toFixed(displayDecimals);
+}
+
 /**
  * Detect asset type from vault address and return decimals
  */
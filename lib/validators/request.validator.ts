@@ -1,4 +1,5 @@
 import { isValidAddress } from "../utils";
+import type { GoalMembershipRequirements } from "../types";
 
 export class RequestValidator {
   private static validateAddress(paramName: string, value: string | null): { valid: boolean; error?: string } {
@@ -18,4 +19,39 @@ export class RequestValidator {
   static validateVaultAddress(vaultAddress: string | null): { valid: boolean; error?: string } {
     return this.validateAddress("vaultAddress", vaultAddress);
   }
+
+  static validateMembershipRequirements(value: unknown): { valid: boolean; error?: string } {
+    if (value === undefined) {
+      return { valid: true };
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return { valid: false, error: "membershipRequirements must be an object" };
+    }
+
+    const { verified, allowedNationalities, minimumAge, ...unknown } = value as GoalMembershipRequirements;
+    if (Object.keys(unknown).length > 0) {
+      return {
+        valid: false,
+        error: `Unsupported membership requirements: ${Object.keys(unknown).join(", ")}. Supported: verified, allowedNationalities, minimumAge`,
+      };
+    }
+    if (verified !== undefined && typeof verified !== "boolean") {
+      return { valid: false, error: "membershipRequirements.verified must be a boolean" };
+    }
+    if (
+      allowedNationalities !== undefined &&
+      (!Array.isArray(allowedNationalities) ||
+        allowedNationalities.length === 0 ||
+        !allowedNationalities.every((code) => typeof code === "string" && /^[A-Za-z]{3}$/.test(code)))
+    ) {
+      return {
+        valid: false,
+        error: "membershipRequirements.allowedNationalities must be a non-empty array of ISO 3166-1 alpha-3 codes",
+      };
+    }
+    if (minimumAge !== undefined && (!Number.isInteger(minimumAge) || minimumAge < 1 || minimumAge > 120)) {
+      return { valid: false, error: "membershipRequirements.minimumAge must be an integer between 1 and 120" };
+    }
+    return { valid: true };
+  }
 }
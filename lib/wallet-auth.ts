@@ -0,0 +1,111 @@
+import { randomBytes } from "crypto";
+import { ethers } from "ethers";
+import type { NextRequest } from "next/server";
+import { connectToDatabase } from "./database";
+
+const WALLET_NONCE_TTL_MS = 5 * 60 * 1000;
+
+export interface WalletAuthDenied {
+  status: 401;
+  error: string;
+}
+
+export interface WalletChallenge {
+  nonce: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+type WalletNonce = {
+  scope: string;
+  walletAddress: string;
+  nonce: string;
+  issuedAt: string;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+/**
+ * Text the wallet signs (EIP-191) to authorize one request. action names what
+ * is done, e.g. "update:<ruleId>", so a signature cannot be reused for
+ * another request.
+ */
+export function buildWalletAuthMessage(params: {
+  scope: string;
+  walletAddress: string;
+  action: string;
+  nonce: string;
+  issuedAt: string;
+}): string {
+  return [
+    `Authorize ${params.scope}`,
+    `walletAddress: ${params.walletAddress.toLowerCase()}`,
+    `action: ${params.action}`,
+    `nonce: ${params.nonce}`,
+    `issuedAt: ${params.issuedAt}`,
+  ].join("\n");
+}
+
+/**
+ * Single-use nonce for a wallet to sign within five minutes.
+ */
+export async function issueWalletChallenge(scope: string, walletAddress: string): Promise<WalletChallenge> {
+  const db = await connectToDatabase();
+  const nonce = randomBytes(16).toString("hex");
+  const issuedAt = new Date().toISOString();
+  const expiresAt = new Date(Date.now() + WALLET_NONCE_TTL_MS);
+
+  await db.collection<WalletNonce>("wallet_nonces").insertOne({
+    scope,
+    walletAddress: walletAddress.toLowerCase(),
+    nonce,
+    issuedAt,
+    expiresAt,
+    createdAt: new Date(),
+  });
+  return { nonce, issuedAt, expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * Requests acting for a wallet carry X-Wallet-Signature, X-Wallet-Nonce and
+ * X-Wallet-Issued-At: the wallet's signature over buildWalletAuthMessage
+ * with a nonce from issueWalletChallenge. The nonce is consumed. Returns null
+ * when the wallet signed this request.
+ */
+export async function authorizeWalletRequest(
+  request: NextRequest,
+  params: { scope: string; walletAddress: string; action: string }
+): Promise<WalletAuthDenied | null> {
+  const signature = request.headers.get("x-wallet-signature");
+  const nonce = request.headers.get("x-wallet-nonce");
+  const issuedAt = request.headers.get("x-wallet-issued-at");
+  if (!signature || !nonce || !issuedAt) {
+    return { status: 401, error: "Wallet signature required" };
+  }
+
+  const walletAddress = params.walletAddress.toLowerCase();
+  try {
+    const recovered = ethers.verifyMessage(
+      buildWalletAuthMessage({ ...params, walletAddress, nonce, issuedAt }),
+      signature
+    );
+    if (recovered.toLowerCase() !== walletAddress) {
+      return { status: 401, error: "Invalid signature" };
+    }
+  } catch {
+    return { status: 401, error: "Invalid signature" };
+  }
+
+  // Consumed only once the signature checks out, so a forged request cannot burn it
+  const db = await connectToDatabase();
+  const stored = await db
+    .collection<WalletNonce>("wallet_nonces")
+    .findOneAndDelete({ scope: params.scope, walletAddress, nonce, issuedAt });
+  if (!stored) {
+    return { status: 401, error: "Invalid or used nonce" };
+  }
+  if (stored.expiresAt.getTime() <= Date.now()) {
+    return { status: 401, error: "Nonce expired" };
+  }
+  return null;
+}
@@ -0,0 +1,23 @@
+import { XP_RULE_SETS } from "./rule-sets";
+import type { XPRuleSet } from "./rules";
+
+export { evaluateXP, type XPConditions, type XPEvaluation, type XPRule, type XPRuleSet } from "./rules";
+export { XP_RULE_SETS } from "./rule-sets";
+export { activeXPSeason, loadXPSeasons } from "./seasons";
+
+/**
+ * The rule set XP is awarded with: the latest version, or the one pinned by
+ * XP_RULES_VERSION.
+ */
+export function getXPRuleSet(version: string | undefined = process.env.XP_RULES_VERSION): XPRuleSet {
+  if (!version) {
+    return XP_RULE_SETS[XP_RULE_SETS.length - 1];
+  }
+  const ruleSet = XP_RULE_SETS.find((candidate) => candidate.version === parseInt(version, 10));
+  if (!ruleSet) {
+    throw new Error(
+      `Unknown XP_RULES_VERSION: ${version}. Available: ${XP_RULE_SETS.map((candidate) => candidate.version).join(", ")}`
+    );
+  }
+  return ruleSet;
+}
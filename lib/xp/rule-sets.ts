@@ -0,0 +1,80 @@
+import type { XPRuleSet } from "./rules";
+
+/**
+ * Every XP rule set ever used, oldest first. Published versions are never
+ * edited: change the rules by adding a version, then run
+ * scripts/recompute-xp.ts to re-evaluate existing XP under it.
+ */
+export const XP_RULE_SETS: XPRuleSet[] = [
+  {
+    version: 1,
+    description: "One XP per USD contributed on meta-goal completion, 2 XP for Self verification",
+    rules: [
+      {
+        id: "goal-contribution",
+        event: "goal_completed",
+        description: "1 XP per USD contributed to a completed goal",
+        xpPerUSD: 1,
+      },
+      {
+        id: "self-verification",
+        event: "self_verification",
+        description: "Verifying with Self",
+        xp: 2,
+      },
+    ],
+  },
+  {
+    version: 2,
+    description: "Adds group-goal, early-completion, first-deposit and streak rewards",
+    rules: [
+      {
+        id: "goal-contribution",
+        event: "goal_completed",
+        description: "1 XP per USD contributed to a completed goal",
+        xpPerUSD: 1,
+      },
+      {
+        id: "group-goal-bonus",
+        event: "goal_completed",
+        description: "Completing a goal together with other savers",
+        when: { groupGoal: true },
+        xp: 10,
+      },
+      {
+        id: "early-completion",
+        event: "goal_completed",
+        description: "Completing a goal at least a week before its target date",
+        when: { minDaysEarly: 7 },
+        multiplier: 1.25,
+      },
+      {
+        id: "self-verification",
+        event: "self_verification",
+        description: "Verifying with Self",
+        xp: 2,
+      },
+      {
+        id: "first-deposit",
+        event: "deposit",
+        description: "First deposit",
+        when: { firstDeposit: true },
+        xp: 5,
+      },
+      {
+        id: "streak-4-weeks",
+        event: "deposit",
+        description: "Depositing in four consecutive weeks",
+        when: { minStreakWeeks: 4 },
+        xp: 3,
+      },
+      {
+        id: "streak-12-weeks",
+        event: "deposit",
+        description: "Depositing in twelve consecutive weeks",
+        when: { minStreakWeeks: 12 },
+        xp: 5,
+      },
+    ],
+  },
+];
@@ -0,0 +1,105 @@
+import type { XPEvent, XPEventType } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Facts derived from the event and the user's earlier events that rules can match on
+export interface XPConditions {
+  groupGoal?: boolean; // the goal had more than one contributor
+  firstDeposit?: boolean; // the user's first recorded deposit
+  minStreakWeeks?: number; // consecutive weeks with a deposit, this one's week included
+  minDaysEarly?: number; // days the goal completed before its target date
+}
+
+/**
+ * One declarative rule. A rule with xp and/or xpPerUSD adds XP; a rule with a
+ * multiplier scales the XP added by the event's other matching rules.
+ */
+export interface XPRule {
+  id: string;
+  event: XPEventType;
+  description: string;
+  when?: XPConditions;
+  xp?: number;
+  xpPerUSD?: number; // per USD of the event's amountUSD
+  multiplier?: number;
+}
+
+export interface XPRuleSet {
+  version: number;
+  description: string;
+  rules: XPRule[];
+}
+
+export interface XPEvaluation {
+  xp: number;
+  ruleVersion: number;
+  rules: string[]; // ids of the rules that matched
+}
+
+/**
+ * XP an event earns under a rule set. earlier holds the user's events that
+ * happened before it, for streaks and first-deposit rules.
+ */
+export function evaluateXP(ruleSet: XPRuleSet, event: XPEvent, earlier: XPEvent[]): XPEvaluation {
+  const facts = deriveFacts(event, earlier);
+  const matched = ruleSet.rules.filter((rule) => rule.event === event.type && matches(rule.when, facts));
+
+  const base = matched.reduce(
+    (sum, rule) => sum + (rule.xp ?? 0) + (rule.xpPerUSD ?? 0) * Math.max(0, event.amountUSD ?? 0),
+    0
+  );
+  const multiplier = matched.reduce((product, rule) => product * (rule.multiplier ?? 1), 1);
+
+  return {
+    xp: Math.round(base * multiplier * 100) / 100,
+    ruleVersion: ruleSet.version,
+    rules: matched.map((rule) => rule.id),
+  };
+}
+
+interface XPFacts {
+  groupGoal: boolean;
+  firstDeposit: boolean;
+  streakWeeks: number;
+  daysEarly: number;
+}
+
+function deriveFacts(event: XPEvent, earlier: XPEvent[]): XPFacts {
+  const deposits = earlier.filter((candidate) => candidate.type === "deposit");
+  const occurredAt = new Date(event.occurredAt).getTime();
+
+  // Weeks counted back from the event's week until one without a deposit
+  let streakWeeks = 0;
+  if (event.type === "deposit") {
+    const weeks = new Set(deposits.map((deposit) => Math.floor(new Date(deposit.occurredAt).getTime() / WEEK_MS)));
+    let week = Math.floor(occurredAt / WEEK_MS);
+    streakWeeks = 1;
+    while (weeks.has(--week)) {
+      streakWeeks++;
+    }
+  }
+
+  const daysEarly = event.targetDate
+    ? Math.floor((new Date(event.targetDate).getTime() - occurredAt) / DAY_MS)
+    : 0;
+
+  return {
+    groupGoal: Boolean(event.groupGoal),
+    firstDeposit: event.type === "deposit" && deposits.length === 0,
+    streakWeeks,
+    daysEarly: Number.isNaN(daysEarly) ? 0 : daysEarly,
+  };
+}
+
+function matches(when: XPConditions | undefined, facts: XPFacts): boolean {
+  if (!when) {
+    return true;
+  }
+  return (
+    (when.groupGoal === undefined || when.groupGoal === facts.groupGoal) &&
+    (when.firstDeposit === undefined || when.firstDeposit === facts.firstDeposit) &&
+    (when.minStreakWeeks === undefined || facts.streakWeeks >= when.minStreakWeeks) &&
+    (when.minDaysEarly === undefined || facts.daysEarly >= when.minDaysEarly)
+  );
+}
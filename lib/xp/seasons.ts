@@ -0,0 +1,55 @@
+import type { XPSeason } from "../types";
+
+/**
+ * XP seasons from XP_SEASONS, a JSON array of named windows ordered by start,
+ * e.g. [{"id":"s1","name":"Season 1","startsAt":"2026-01-01T00:00:00Z","endsAt":"2026-04-01T00:00:00Z"}].
+ * A season covers XP that occurred from startsAt up to, not including, endsAt.
+ */
+export function loadXPSeasons(raw: string | undefined = process.env.XP_SEASONS): XPSeason[] {
+  if (!raw) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("XP_SEASONS must be a JSON array of seasons");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("XP_SEASONS must be a JSON array of seasons");
+  }
+
+  const seasons = parsed.map((season: Partial<XPSeason>) => {
+    const startsAt = new Date(season.startsAt ?? "");
+    const endsAt = new Date(season.endsAt ?? "");
+    if (!season.id || !season.name || isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      throw new Error(`XP_SEASONS: ${season.id ?? "a season"} needs an id, a name, startsAt and endsAt`);
+    }
+    if (startsAt >= endsAt) {
+      throw new Error(`XP_SEASONS: ${season.id} must end after it starts`);
+    }
+    return { id: season.id, name: season.name, startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString() };
+  });
+
+  const ids = new Set(seasons.map((season) => season.id));
+  if (ids.size !== seasons.length) {
+    throw new Error("XP_SEASONS: season ids must be unique");
+  }
+  seasons.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  seasons.forEach((season, index) => {
+    const previous = seasons[index - 1];
+    if (previous && previous.endsAt > season.startsAt) {
+      throw new Error(`XP_SEASONS: ${season.id} overlaps ${previous.id}`);
+    }
+  });
+  return seasons;
+}
+
+/**
+ * The season running at a moment, if any.
+ */
+export function activeXPSeason(seasons: XPSeason[], at: Date = new Date()): XPSeason | null {
+  const moment = at.toISOString();
+  return seasons.find((season) => season.startsAt <= moment && moment < season.endsAt) ?? null;
+}
@@ -0,0 +1,33 @@
+import { AllocationWorkerService } from "../lib/services/allocation-worker.service";
+import { TransactionSubmitter } from "../lib/services/transaction-submitter.service";
+
+// Runs queued allocation jobs when the API is started with ALLOCATION_WORKER=external.
+// Pass --once to drain the queue a single time (e.g. from cron).
+const POLL_INTERVAL_MS = parseInt(process.env.ALLOCATION_WORKER_POLL_MS || "5000");
+const BATCH_SIZE = 10;
+
+async function runAllocationWorker() {
+  const worker = new AllocationWorkerService();
+  const submitter = new TransactionSubmitter();
+  const once = process.argv.includes("--once");
+
+  do {
+    // Re-price or settle backend transactions whose request died before they were mined
+    await submitter.reconcilePending();
+
+    const processed = await worker.processPending(BATCH_SIZE);
+    if (processed > 0) {
+      console.log(`✅ Processed ${processed} allocation job(s)`);
+    }
+    if (!once && processed < BATCH_SIZE) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } while (!once);
+
+  process.exit(0);
+}
+
+runAllocationWorker().catch((error) => {
+  console.error("❌ Allocation worker crashed:", error);
+  process.exit(1);
+});
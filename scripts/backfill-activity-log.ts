@@ -0,0 +1,49 @@
+import { getMetaGoalsCollection, getSelfVerificationsCollection, getUserXPCollection } from "../lib/database";
+import { ActivityLogService } from "../lib/services/activity-log.service";
+
+// Seeds the activity log from data recorded before it existed: meta-goals,
+// their invites, XP history and Self verifications. Entries are keyed, so the
+// script can be re-run safely.
+async function backfillActivityLog() {
+  const activityLog = new ActivityLogService();
+
+  const metaGoals = await (await getMetaGoalsCollection()).find({}).toArray();
+  for (const metaGoal of metaGoals) {
+    await activityLog.recordMetaGoalCreated(metaGoal);
+    if (metaGoal.invitedUsers?.length) {
+      await activityLog.recordInvites(metaGoal.metaGoalId, metaGoal.creatorAddress, metaGoal.invitedUsers);
+    }
+  }
+  console.log(`✅ ${metaGoals.length} meta-goal(s) replayed`);
+
+  const userXP = await (await getUserXPCollection()).find({}).toArray();
+  for (const user of userXP) {
+    for (const entry of user.xpHistory || []) {
+      const selfVerification = entry.metaGoalId === "self-verification";
+      await activityLog.recordXPAwarded(user.userAddress, {
+        xpEarned: entry.xpEarned,
+        reason: selfVerification ? "self_verification" : "goal_completed",
+        metaGoalId: selfVerification ? undefined : entry.metaGoalId,
+        timestamp: entry.completedAt,
+      });
+    }
+  }
+  console.log(`✅ XP history of ${userXP.length} user(s) replayed`);
+
+  const verifications = await (await getSelfVerificationsCollection()).find({}).toArray();
+  for (const verification of verifications) {
+    await activityLog.recordIdentityVerified(verification.walletAddress, {
+      attestationId: String(verification.attestationId),
+      nationality: verification.nationality,
+      timestamp: new Date(verification.verifiedAt).toISOString(),
+    });
+  }
+  console.log(`✅ ${verifications.length} verification(s) replayed`);
+
+  process.exit(0);
+}
+
+backfillActivityLog().catch((error) => {
+  console.error("❌ Activity log backfill failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+import { getSelfVerificationsCollection } from "../lib/database";
+import type { ObjectId } from "mongodb";
+
+// Lowercases the wallet of Self verifications stored before wallets were
+// normalized and keeps only the latest verification per wallet and
+// attestation, then creates the unique index the verification upsert relies
+// on. Safe to re-run.
+async function dedupeSelfVerifications() {
+  const collection = await getSelfVerificationsCollection();
+  const groups = await collection
+    .aggregate<{ ids: ObjectId[] }>([
+      { $sort: { verifiedAt: -1, updatedAt: -1 } },
+      {
+        $group: {
+          _id: { walletAddress: { $toLower: "$walletAddress" }, attestationId: "$attestationId" },
+          ids: { $push: "$_id" },
+        },
+      },
+      { $match: { "ids.1": { $exists: true } } },
+    ])
+    .toArray();
+
+  let removed = 0;
+  for (const group of groups) {
+    const { deletedCount } = await collection.deleteMany({ _id: { $in: group.ids.slice(1) } });
+    removed += deletedCount;
+  }
+
+  const { modifiedCount } = await collection.updateMany(
+    { walletAddress: { $regex: "[A-F]" } },
+    [{ $set: { walletAddress: { $toLower: "$walletAddress" } } }]
+  );
+
+  await collection.createIndex(
+    { walletAddress: 1, attestationId: 1 },
+    { unique: true, name: "walletAddress_attestationId_unique" }
+  );
+  console.log(`✅ ${removed} duplicate verification(s) removed, ${modifiedCount} wallet(s) lowercased`);
+  process.exit(0);
+}
+
+dedupeSelfVerifications().catch((error) => {
+  console.error("❌ Self verification dedupe failed:", error);
+  process.exit(1);
+});
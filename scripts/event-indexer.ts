@@ -0,0 +1,28 @@
+import { EventIndexerService } from "../lib/services/event-indexer.service";
+
+// Keeps the chain_events collection in step with the chain for /api/activity,
+// goal discovery and verification lookups. Pass --once to run a single pass
+// (e.g. from cron); a pass is bounded by INDEXER_MAX_CHUNKS_PER_RUN while backfilling.
+const POLL_INTERVAL_MS = parseInt(process.env.INDEXER_POLL_MS || "15000");
+
+async function runEventIndexer() {
+  const indexer = new EventIndexerService();
+  const once = process.argv.includes("--once");
+
+  do {
+    const stored = await indexer.syncAll();
+    if (stored > 0) {
+      console.log(`✅ Indexed ${stored} chain event(s)`);
+    }
+    if (!once) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } while (!once);
+
+  process.exit(0);
+}
+
+runEventIndexer().catch((error) => {
+  console.error("❌ Event indexer crashed:", error);
+  process.exit(1);
+});
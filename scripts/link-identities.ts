@@ -0,0 +1,35 @@
+import { getSelfVerificationsCollection } from "../lib/database";
+import { IdentityLimitError, IdentityService } from "../lib/services/identity.service";
+
+// Links the wallets of Self verifications stored before identities existed to
+// their person by nullifier, oldest verification first so that the first
+// wallet to verify becomes the primary one. Safe to re-run.
+async function linkIdentities() {
+  const identities = new IdentityService();
+  const verifications = await (await getSelfVerificationsCollection())
+    .find({ nullifier: { $exists: true, $ne: "" } })
+    .sort({ verifiedAt: 1 })
+    .toArray();
+
+  let linked = 0;
+  for (const verification of verifications) {
+    try {
+      await identities.link(verification.nullifier, verification.walletAddress);
+      linked++;
+    } catch (error) {
+      if (!(error instanceof IdentityLimitError)) {
+        throw error;
+      }
+      console.warn(`⚠️ ${verification.walletAddress}: ${error.message}`);
+    }
+  }
+
+  const { total } = await identities.listClusters({ minWallets: 2, limit: 1 });
+  console.log(`✅ ${linked}/${verifications.length} verification(s) linked, ${total} person(s) with several wallets`);
+  process.exit(0);
+}
+
+linkIdentities().catch((error) => {
+  console.error("❌ Identity linking failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { LEADERBOARD_DECIMALS, VAULTS, VAULT_ABI } from "../lib/constants";
+import { getLeaderboardScoresCollection } from "../lib/database";
+import { PriceService } from "../lib/services/price.service";
+import { createProvider } from "../lib/utils";
+import type { LeaderboardScoreRecord, VaultAsset } from "../lib/types";
+
+// Replays every vault deposit and rebuilds the off-chain leaderboard scores in
+// USD (LEADERBOARD_DECIMALS units), correcting scores recorded from raw token
+// amounts. Deposits are valued at today's quotes since no price history is kept.
+//
+// Flags: [--from-block=N] [--to-block=N] [--dry-run]
+//
+// The range must cover the vaults' full history: users not seen in a run are
+// removed from the collection.
+const CHUNK_SIZE = parseInt(process.env.LEADERBOARD_RECOMPUTE_CHUNK || "10000");
+
+function readBlockArg(name: string): number | undefined {
+  const arg = process.argv.find((value) => value.startsWith(`--${name}=`));
+  if (!arg) {
+    return undefined;
+  }
+  const block = parseInt(arg.split("=")[1]);
+  if (isNaN(block) || block < 0) {
+    throw new Error(`Invalid --${name}: ${arg}`);
+  }
+  return block;
+}
+
+async function recomputeLeaderboardScores() {
+  const dryRun = process.argv.includes("--dry-run");
+  const provider = createProvider();
+  const prices = new PriceService();
+  const fromBlock = readBlockArg("from-block") ?? parseInt(process.env.LEADERBOARD_RECOMPUTE_FROM_BLOCK || "0");
+  const toBlock = readBlockArg("to-block") ?? (await provider.getBlockNumber());
+  const runId = uuidv4();
+  const recomputedAt = new Date().toISOString();
+
+  const records = new Map<string, LeaderboardScoreRecord>();
+  const quotes: Partial<Record<VaultAsset, number>> = {};
+
+  for (const asset of Object.keys(VAULTS) as VaultAsset[]) {
+    // One quote per asset so every deposit in the run is valued consistently
+    const usd = (await prices.getQuote(asset)).usd;
+    quotes[asset] = usd;
+
+    const vault = new ethers.Contract(VAULTS[asset].address, VAULT_ABI, provider);
+    // Onramp allocations may emit both events for one deposit, so count each
+    // deposit once; deposit ids are numbered per user
+    const seen = new Set<string>();
+
+    for (let start = fromBlock; start <= toBlock; start += CHUNK_SIZE) {
+      const end = Math.min(start + CHUNK_SIZE - 1, toBlock);
+      const events = [
+        ...(await vault.queryFilter(vault.filters.Deposited(), start, end)),
+        ...(await vault.queryFilter(vault.filters.OnrampDeposit(), start, end)),
+      ];
+
+      for (const event of events) {
+        if (!(event instanceof ethers.EventLog)) {
+          continue;
+        }
+        const userAddress = (event.args.user as string).toLowerCase();
+        const depositKey = `${userAddress}:${event.args.depositId.toString()}`;
+        if (seen.has(depositKey)) {
+          continue;
+        }
+        seen.add(depositKey);
+
+        const amount = BigInt(event.args.amount);
+        const score = PriceService.scoreUnits(asset, amount, usd);
+
+        const record = records.get(userAddress) ?? {
+          userAddress,
+          score: "0",
+          scoreUSD: 0,
+          deposits: 0,
+          byAsset: {},
+          prices: quotes,
+          fromBlock,
+          toBlock,
+          runId,
+          recomputedAt,
+        };
+        const perAsset = record.byAsset[asset] ?? { amount: "0", score: "0", deposits: 0 };
+        record.byAsset[asset] = {
+          amount: (BigInt(perAsset.amount) + amount).toString(),
+          score: (BigInt(perAsset.score) + score).toString(),
+          deposits: perAsset.deposits + 1,
+        };
+        record.score = (BigInt(record.score) + score).toString();
+        record.deposits += 1;
+        records.set(userAddress, record);
+      }
+    }
+    console.log(`🔁 ${asset}: ${seen.size} deposit(s) replayed at $${usd}`);
+  }
+
+  const results = Array.from(records.values()).map((record) => ({
+    ...record,
+    scoreUSD: parseFloat(ethers.formatUnits(record.score, LEADERBOARD_DECIMALS)),
+  }));
+  results.sort((a, b) => b.scoreUSD - a.scoreUSD);
+
+  if (dryRun) {
+    for (const record of results.slice(0, 20)) {
+      console.log(`${record.userAddress} $${record.scoreUSD.toFixed(2)} (${record.deposits} deposits)`);
+    }
+    console.log(`✅ Dry run: ${results.length} user score(s) computed, nothing written`);
+    process.exit(0);
+  }
+
+  const collection = await getLeaderboardScoresCollection();
+  for (const record of results) {
+    await collection.replaceOne({ userAddress: record.userAddress }, record, { upsert: true });
+  }
+  const removed = await collection.deleteMany({ runId: { $ne: runId } });
+
+  console.log(
+    `✅ Recomputed ${results.length} leaderboard score(s) from blocks ${fromBlock}-${toBlock}, removed ${removed.deletedCount} stale`
+  );
+  process.exit(0);
+}
+
+recomputeLeaderboardScores().catch((error) => {
+  console.error("❌ Leaderboard recompute failed:", error);
+  process.exit(1);
+});
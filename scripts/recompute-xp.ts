@@ -0,0 +1,82 @@
+import { VAULTS } from "../lib/constants";
+import { getUserXPCollection, getXPEventsCollection } from "../lib/database";
+import { vaultContractId } from "../lib/indexer";
+import { EventIndexerService } from "../lib/services/event-indexer.service";
+import { PriceService } from "../lib/services/price.service";
+import { XPService } from "../lib/services/xp.service";
+import { createProvider } from "../lib/utils";
+import { getXPRuleSet } from "../lib/xp";
+import type { VaultAsset } from "../lib/types";
+
+// Re-evaluates every user's XP events under the active rule set (latest, or
+// XP_RULES_VERSION) and appends the differences to the XP ledger as grants
+// and reversals. Run it after adding a rule set version.
+//
+// Flags: [--import-deposits] [--dry-run]
+//
+// --import-deposits first records an XP event for every deposit in the event
+// index, so deposit rules also apply to deposits made before they existed.
+// Imported deposits are valued at today's quotes since no price history is kept.
+async function importDeposits(xp: XPService): Promise<number> {
+  const indexer = new EventIndexerService(createProvider());
+  const prices = new PriceService();
+  let imported = 0;
+
+  for (const asset of Object.keys(VAULTS) as VaultAsset[]) {
+    const events = await indexer.find({
+      contractIds: [vaultContractId(asset)],
+      names: ["Deposited", "OnrampDeposit"],
+    });
+    for (const event of events) {
+      const amount = String(event.args.amount);
+      const userAddress = String(event.args.user).toLowerCase();
+      const added = await xp.importEvent({
+        eventId: `deposit:${asset}:${userAddress}:${event.args.depositId}`,
+        type: "deposit",
+        userAddress,
+        occurredAt: event.timestamp,
+        asset,
+        depositId: String(event.args.depositId),
+        amountUSD: await prices.toUSD(asset, amount),
+      });
+      if (added) {
+        imported++;
+      }
+    }
+  }
+  return imported;
+}
+
+async function recomputeXP() {
+  const dryRun = process.argv.includes("--dry-run");
+  const ruleSet = getXPRuleSet();
+  const xp = new XPService(createProvider());
+
+  if (process.argv.includes("--import-deposits") && !dryRun) {
+    console.log(`📥 ${await importDeposits(xp)} deposit event(s) imported`);
+  }
+
+  const users = new Set<string>([
+    ...(await (await getUserXPCollection()).distinct("userAddress")),
+    ...(await (await getXPEventsCollection()).distinct("userAddress")),
+  ]);
+
+  let changed = 0;
+  for (const userAddress of Array.from(users)) {
+    const result = await xp.recompute(userAddress, { dryRun });
+    if (result.totalXP !== result.previousXP) {
+      changed++;
+      console.log(`${result.userAddress} ${result.previousXP} → ${result.totalXP} XP`);
+    }
+  }
+
+  console.log(
+    `✅ ${dryRun ? "Dry run: " : ""}${users.size} user(s) recomputed with rules v${ruleSet.version}, ${changed} changed`
+  );
+  process.exit(0);
+}
+
+recomputeXP().catch((error) => {
+  console.error("❌ XP recompute failed:", error);
+  process.exit(1);
+});
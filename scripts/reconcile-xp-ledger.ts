@@ -0,0 +1,42 @@
+import { getUserXPCollection } from "../lib/database";
+import { XPLedgerService } from "../lib/services/xp-ledger.service";
+import { XPService } from "../lib/services/xp.service";
+import { createProvider } from "../lib/utils";
+
+// Moves XP history embedded in user_xp documents into the XP ledger, then
+// checks every cached balance (UserXP.totalXP) against the sum of the user's
+// ledger entries. Safe to re-run: moved entries are keyed.
+//
+// Flags: [--repair]
+//
+// --repair resets mismatched balances to the ledger sum.
+async function reconcileXPLedger() {
+  const repair = process.argv.includes("--repair");
+  const xp = new XPService(createProvider());
+  const ledger = new XPLedgerService();
+
+  const legacyUsers = await (await getUserXPCollection())
+    .find({ "xpHistory.0": { $exists: true } })
+    .toArray();
+  let moved = 0;
+  for (const userXP of legacyUsers) {
+    moved += await xp.importLegacyHistory(userXP);
+  }
+  console.log(`📥 ${moved} legacy history entr${moved === 1 ? "y" : "ies"} of ${legacyUsers.length} user(s) moved`);
+
+  const results = await ledger.reconcile(undefined, { repair });
+  const mismatches = results.filter((result) => !result.consistent);
+  for (const result of mismatches) {
+    console.log(`${result.userAddress} balance ${result.balance}, ledger ${result.ledgerSum} (${result.difference})`);
+  }
+
+  console.log(
+    `✅ ${results.length} balance(s) checked, ${mismatches.length} mismatched${repair && mismatches.length ? " and repaired" : ""}`
+  );
+  process.exit(0);
+}
+
+reconcileXPLedger().catch((error) => {
+  console.error("❌ XP ledger reconciliation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import { XPLeaderboardService } from "../lib/services/xp-leaderboard.service";
+
+// Freezes the leaderboard of every ended XP season (XP_SEASONS) that has no
+// snapshot yet, so its standings stay queryable after later ledger changes.
+// Run it after each season closes, e.g. from a daily cron.
+//
+// Flags: [--season=<id>] [--force]
+//
+// --season snapshots one ended season; --force retakes existing snapshots.
+async function snapshotXPSeasons() {
+  const force = process.argv.includes("--force");
+  const seasonArg = process.argv.find((value) => value.startsWith("--season="));
+  const leaderboard = new XPLeaderboardService();
+
+  const seasons = seasonArg
+    ? [{ id: seasonArg.split("=")[1] }]
+    : (await leaderboard.listSeasons()).filter((season) => season.status === "ended" && (force || !season.snapshot));
+
+  for (const season of seasons) {
+    const snapshot = await leaderboard.snapshotSeason(season.id, { force });
+    console.log(`📸 ${season.id} (${snapshot.name}): ${snapshot.totalUsers} user(s) ranked, taken ${snapshot.takenAt}`);
+  }
+
+  console.log(`✅ ${seasons.length} season(s) snapshotted`);
+  process.exit(0);
+}
+
+snapshotXPSeasons().catch((error) => {
+  console.error("❌ XP season snapshot failed:", error);
+  process.exit(1);
+});